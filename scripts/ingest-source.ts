@@ -1,14 +1,27 @@
-import { readdir, readFile, writeFile, mkdir, copyFile } from 'fs/promises';
-import { join, dirname, resolve } from 'path';
+import { readdir, readFile, writeFile, mkdir, copyFile, rm, realpath } from 'fs/promises';
+import { join, dirname, resolve, relative } from 'path';
 import { fileURLToPath } from 'url';
 import * as ts from 'typescript';
 import { existsSync } from 'fs';
+import { buildSearchIndex, type SearchDocument } from '../src/lib/search-index.js';
+import { trainLsa, createLsaEmbedder, createOnnxEmbedder, type Embedder, type VectorStore } from '../src/lib/embeddings.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const CACHE_OUTPUT = join(__dirname, '..', 'cache', 'iwsdk-cache.json');
 
+interface ComponentField {
+  name: string;
+  type: string;
+  default?: any;
+  description?: string;
+  /** Name of the enum object for Types.Enum fields */
+  enum?: string;
+  /** Enum member name -> value, resolved from the enum declaration */
+  enumValues?: Record<string, string | number>;
+}
+
 interface ComponentDefinition {
   name: string;
   package: string;
@@ -17,12 +30,7 @@ interface ComponentDefinition {
   remarks?: string;
   category?: string;
   jsdocExamples: string[];
-  fields: Array<{
-    name: string;
-    type: string;
-    default?: any;
-    description?: string;
-  }>;
+  fields: ComponentField[];
   sourceCode: string;
   usageExamples: string[];
   requires: string[];
@@ -31,6 +39,8 @@ interface ComponentDefinition {
   coOccurrences: Record<string, number>;
   importPath: string;
   keywords: string[];
+  /** Marked @hideineditor or @internal: managed by systems, not added by apps */
+  internal?: boolean;
 }
 
 interface SystemDefinition {
@@ -110,6 +120,37 @@ interface ValidationRule {
   severity: 'error' | 'warning';
 }
 
+interface WorldFeature {
+  name: string;
+  description: string;
+  /** Whether World.create turns the feature on when `features` leaves it out */
+  enabledByDefault: boolean;
+  systems: string[];
+  components: string[];
+}
+
+interface WorldFeatureMap {
+  features: Record<string, WorldFeature>;
+  /** Systems World.create registers whatever the feature flags say */
+  builtInSystems: string[];
+  /** System -> systems it registers itself, e.g. LocomotionSystem -> TurnSystem */
+  subsystems: Record<string, string[]>;
+}
+
+interface UIKitElement {
+  /** UIKit class the element creates, e.g. Container */
+  component: string;
+  /** Properties the class accepts: layout, style and event handlers */
+  properties: string[];
+}
+
+interface UIKitSchema {
+  uikitVersion: string;
+  uikitmlVersion?: string;
+  /** UIKitML tag -> element */
+  elements: Record<string, UIKitElement>;
+}
+
 interface CommonMistake {
   id: string;
   title: string;
@@ -119,6 +160,38 @@ interface CommonMistake {
   category: string;
 }
 
+interface Parameter {
+  name: string;
+  type: string;
+  description?: string;
+  optional?: boolean;
+}
+
+interface MethodDoc {
+  signature: string;
+  description: string;
+  parameters?: Parameter[];
+  returns?: string;
+  returnsDescription?: string;
+  examples?: string[];
+}
+
+interface PropertyDoc {
+  type: string;
+  description: string;
+  readonly?: boolean;
+}
+
+interface ApiDocumentation {
+  packageName: string;
+  className: string;
+  description: string;
+  methods?: Record<string, MethodDoc>;
+  properties?: Record<string, PropertyDoc>;
+  constructorDoc?: string;
+  examples?: string[];
+}
+
 interface IngestedCache {
   metadata: {
     ingestDate: string;
@@ -142,13 +215,27 @@ interface IngestedCache {
   troubleshooting: {
     commonMistakes: CommonMistake[];
   };
-  packageExports: Record<string, {
-    classes: string[];
-    functions: string[];
-    types: string[];
-    components: string[];
-    systems: string[];
-  }>;
+  packageExports: Record<string, PackageExportList>;
+  apiDocs: Record<string, Record<string, ApiDocumentation>>;
+}
+
+interface PackageExportList {
+  packageName: string;
+  classes: string[];
+  functions: string[];
+  types: string[];
+  components: string[];
+  systems: string[];
+  /** Exported constants and enums, e.g. PhysicsState or SessionMode */
+  values: string[];
+  /** External modules re-exported wholesale with `export * from 'three'` */
+  reexports: string[];
+  /** Names exported by those modules, when they could be resolved from node_modules */
+  external: Record<string, string[]>;
+  /** Alternative export name -> canonical name, e.g. Interactable -> RayInteractable */
+  aliases: Record<string, string>;
+  /** Export name -> @deprecated message */
+  deprecated: Record<string, string>;
 }
 
 async function findPackageVersion(repoPath: string): Promise<string> {
@@ -186,6 +273,8 @@ async function parseComponents(repoPath: string): Promise<Record<string, Compone
   const components: Record<string, ComponentDefinition> = {};
   const packages = ['core', 'xr-input', 'glxf', 'locomotor'];
 
+  const enumDeclarations: Record<string, Record<string, string | number>> = {};
+
   for (const pkg of packages) {
     const srcDir = join(repoPath, 'packages', pkg, 'src');
 
@@ -194,7 +283,16 @@ async function parseComponents(repoPath: string): Promise<Record<string, Compone
       continue;
     }
 
-    await parseComponentsInDir(srcDir, pkg, components, repoPath);
+    await parseComponentsInDir(srcDir, pkg, components, enumDeclarations);
+  }
+
+  // Enum objects are often declared in a different file from the component
+  for (const component of Object.values(components)) {
+    for (const field of component.fields) {
+      if (field.enum && enumDeclarations[field.enum]) {
+        field.enumValues = enumDeclarations[field.enum];
+      }
+    }
   }
 
   console.log(`Found ${Object.keys(components).length} components`);
@@ -205,7 +303,7 @@ async function parseComponentsInDir(
   dir: string,
   packageName: string,
   components: Record<string, ComponentDefinition>,
-  repoPath: string
+  enumDeclarations: Record<string, Record<string, string | number>>
 ) {
   const files = await readdir(dir, { withFileTypes: true });
 
@@ -213,7 +311,7 @@ async function parseComponentsInDir(
     const fullPath = join(dir, file.name);
 
     if (file.isDirectory()) {
-      await parseComponentsInDir(fullPath, packageName, components, repoPath);
+      await parseComponentsInDir(fullPath, packageName, components, enumDeclarations);
     } else if (file.name.endsWith('.ts') || file.name.endsWith('.tsx')) {
       const content = await readFile(fullPath, 'utf-8');
       const sourceFile = ts.createSourceFile(
@@ -226,6 +324,7 @@ async function parseComponentsInDir(
       const relativePath = fullPath.substring(fullPath.indexOf('packages/'));
       const componentDefs = extractComponentsFromAST(sourceFile, content, `@iwsdk/${packageName}`, relativePath);
       Object.assign(components, componentDefs);
+      Object.assign(enumDeclarations, extractEnumDeclarations(sourceFile));
     }
   }
 }
@@ -273,7 +372,8 @@ function extractComponentsFromAST(
             usedBySystems: [],
             coOccurrences: {},
             importPath: `import { ${componentName} } from '${packageName}';`,
-            keywords: generateKeywords(componentName, jsdoc)
+            keywords: generateKeywords(componentName, jsdoc),
+            ...(jsdoc.internal ? { internal: true } : {})
           };
         }
       }
@@ -291,26 +391,24 @@ function extractJSDoc(node: ts.Node, sourceFile: ts.SourceFile): {
   remarks?: string;
   category?: string;
   examples: string[];
+  internal?: boolean;
 } {
-  const result = { description: '', examples: [] as string[] };
+  const result: { description: string; remarks?: string; category?: string; examples: string[]; internal?: boolean } = {
+    description: '',
+    examples: []
+  };
   const jsDocTags = ts.getJSDocTags(node);
   const jsDocComments = ts.getJSDocCommentsAndTags(node);
 
   for (const comment of jsDocComments) {
     if (ts.isJSDoc(comment) && comment.comment) {
-      const commentText = typeof comment.comment === 'string'
-        ? comment.comment
-        : comment.comment.map(c => c.text).join('');
-      result.description = commentText.trim();
+      result.description = jsDocCommentText(comment.comment).trim();
     }
   }
 
   for (const tag of jsDocTags) {
     const tagName = tag.tagName.text;
-    const tagComment = tag.comment;
-    const tagText = typeof tagComment === 'string'
-      ? tagComment
-      : tagComment?.map(c => c.text).join('') || '';
+    const tagText = jsDocCommentText(tag.comment);
 
     if (tagName === 'remarks') {
       result.remarks = tagText;
@@ -318,12 +416,28 @@ function extractJSDoc(node: ts.Node, sourceFile: ts.SourceFile): {
       result.category = tagText;
     } else if (tagName === 'example') {
       result.examples.push(tagText);
+    } else if (tagName === 'hideineditor' || tagName === 'internal') {
+      result.internal = true;
     }
   }
 
   return result;
 }
 
+function jsDocCommentText(comment: string | ts.NodeArray<ts.JSDocComment> | undefined): string {
+  if (!comment) return '';
+  if (typeof comment === 'string') return comment;
+
+  return comment.map(part => {
+    if (ts.isJSDocLink(part) || ts.isJSDocLinkCode(part) || ts.isJSDocLinkPlain(part)) {
+      // {@link World.input | input} renders as "input", {@link World} as "World"
+      const label = part.text.replace(/^\s*\|\s*/, '').trim();
+      return label || (part.name ? part.name.getText() : '');
+    }
+    return part.text;
+  }).join('');
+}
+
 function generateKeywords(componentName: string, jsdoc: any): string[] {
   const keywords: string[] = [];
 
@@ -342,13 +456,64 @@ function generateKeywords(componentName: string, jsdoc: any): string[] {
   return [...new Set(keywords)];
 }
 
-function parseComponentSchema(node: ts.Node, sourceFile: ts.SourceFile): Array<{
-  name: string;
-  type: string;
-  default?: any;
-  description?: string;
-}> {
-  const fields: Array<{ name: string; type: string; default?: any; description?: string }> = [];
+/**
+ * Collect enum-like declarations: TypeScript enums and `const X = { A: 'a' } as const`
+ * objects whose values are all string or number literals.
+ */
+function extractEnumDeclarations(sourceFile: ts.SourceFile): Record<string, Record<string, string | number>> {
+  const enums: Record<string, Record<string, string | number>> = {};
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isEnumDeclaration(statement)) {
+      const members: Record<string, string | number> = {};
+      let next = 0;
+      for (const member of statement.members) {
+        const name = member.name.getText(sourceFile);
+        const initializer = member.initializer;
+        if (initializer && ts.isStringLiteral(initializer)) {
+          members[name] = initializer.text;
+        } else if (initializer && ts.isNumericLiteral(initializer)) {
+          next = Number(initializer.text);
+          members[name] = next++;
+        } else if (!initializer) {
+          members[name] = next++;
+        }
+      }
+      enums[statement.name.text] = members;
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        let initializer = declaration.initializer;
+        while (initializer && (ts.isAsExpression(initializer) || ts.isSatisfiesExpression(initializer))) {
+          initializer = initializer.expression;
+        }
+        if (!initializer || !ts.isObjectLiteralExpression(initializer) || !ts.isIdentifier(declaration.name)) continue;
+
+        const members: Record<string, string | number> = {};
+        const isEnumLike = initializer.properties.length > 0 && initializer.properties.every(prop => {
+          if (!ts.isPropertyAssignment(prop)) return false;
+          const name = prop.name.getText(sourceFile).replace(/['"]/g, '');
+          if (ts.isStringLiteral(prop.initializer)) {
+            members[name] = prop.initializer.text;
+          } else if (ts.isNumericLiteral(prop.initializer)) {
+            members[name] = Number(prop.initializer.text);
+          } else {
+            return false;
+          }
+          return true;
+        });
+
+        if (isEnumLike) {
+          enums[declaration.name.text] = members;
+        }
+      }
+    }
+  }
+
+  return enums;
+}
+
+function parseComponentSchema(node: ts.Node, sourceFile: ts.SourceFile): ComponentField[] {
+  const fields: ComponentField[] = [];
 
   if (ts.isObjectLiteralExpression(node)) {
     for (const prop of node.properties) {
@@ -361,16 +526,14 @@ function parseComponentSchema(node: ts.Node, sourceFile: ts.SourceFile): Array<{
         const jsDocComments = ts.getJSDocCommentsAndTags(prop);
         for (const comment of jsDocComments) {
           if (ts.isJSDoc(comment) && comment.comment) {
-            const commentText = typeof comment.comment === 'string'
-              ? comment.comment
-              : comment.comment.map(c => c.text).join('');
-            fieldDescription = commentText.trim();
+            fieldDescription = jsDocCommentText(comment.comment).trim();
           }
         }
 
         if (ts.isObjectLiteralExpression(fieldValue)) {
           let fieldType = 'unknown';
           let defaultValue: any = undefined;
+          let enumName: string | undefined;
 
           for (const fieldProp of fieldValue.properties) {
             if (ts.isPropertyAssignment(fieldProp)) {
@@ -381,6 +544,8 @@ function parseComponentSchema(node: ts.Node, sourceFile: ts.SourceFile): Array<{
                 fieldType = propValue.replace('Types.', '');
               } else if (propName === 'default') {
                 defaultValue = propValue;
+              } else if (propName === 'enum') {
+                enumName = propValue;
               }
             }
           }
@@ -389,7 +554,8 @@ function parseComponentSchema(node: ts.Node, sourceFile: ts.SourceFile): Array<{
             name: fieldName,
             type: fieldType,
             default: defaultValue,
-            description: fieldDescription || undefined
+            description: fieldDescription || undefined,
+            enum: enumName
           });
         }
       }
@@ -441,7 +607,13 @@ async function parseSystemsInDir(
 
       const relativePath = fullPath.substring(fullPath.indexOf('packages/'));
       const systemDefs = extractSystemsFromAST(sourceFile, content, `@iwsdk/${packageName}`, relativePath);
-      Object.assign(systems, systemDefs);
+      for (const [name, system] of Object.entries(systemDefs)) {
+        // Declaration output drops the createSystem() queries, keep the ones parsed from source
+        if (system.queriesComponents.length === 0 && systems[name]) {
+          system.queriesComponents = systems[name].queriesComponents;
+        }
+        systems[name] = system;
+      }
     }
   }
 }
@@ -728,6 +900,658 @@ function extractTypesFromAST(
   visit(sourceFile);
 }
 
+/**
+ * Walk each package's src/index.ts through its `export ... from` chains and
+ * classify every public name.
+ */
+async function parsePackageExports(
+  repoPath: string,
+  components: Record<string, ComponentDefinition>,
+  systems: Record<string, SystemDefinition>
+): Promise<Record<string, PackageExportList>> {
+  console.log('Parsing package exports...');
+
+  const result: Record<string, PackageExportList> = {};
+  const packages = ['core', 'xr-input', 'glxf', 'locomotor'];
+
+  for (const pkg of packages) {
+    const entry = resolveModuleFile(join(repoPath, 'packages', pkg, 'src', 'index'));
+    if (!entry) continue;
+
+    const packageName = `@iwsdk/${pkg}`;
+    const exports: PackageExportList = {
+      packageName,
+      classes: [],
+      functions: [],
+      types: [],
+      components: [],
+      systems: [],
+      values: [],
+      reexports: [],
+      external: {},
+      aliases: {},
+      deprecated: {}
+    };
+
+    const names = new Map<string, ExportedDeclaration>();
+    await collectModuleExports(entry, names, exports.reexports, new Set());
+
+    for (const [name, declaration] of names) {
+      if (components[name]) {
+        exports.components.push(name);
+      } else if (systems[name]) {
+        exports.systems.push(name);
+      } else {
+        exports[declaration.kind].push(name);
+      }
+
+      if (declaration.aliasOf && (components[declaration.aliasOf] || systems[declaration.aliasOf])) {
+        exports.aliases[name] = declaration.aliasOf;
+      }
+      if (declaration.deprecated !== undefined) {
+        exports.deprecated[name] = declaration.deprecated;
+        // "@deprecated Use `RayInteractable` instead" also names the replacement
+        const replacement = declaration.deprecated.match(/`(\w+)`/)?.[1];
+        if (!exports.aliases[name] && replacement && names.has(replacement)) {
+          exports.aliases[name] = replacement;
+        }
+      }
+    }
+
+    for (const module of exports.reexports) {
+      if (module.startsWith('@iwsdk/')) continue;
+      const external = await resolveExternalExports(repoPath, pkg, module);
+      if (external) {
+        exports.external[module] = external;
+      }
+    }
+
+    for (const list of [exports.classes, exports.functions, exports.types, exports.components, exports.systems, exports.values]) {
+      list.sort();
+    }
+    result[packageName] = exports;
+  }
+
+  const total = Object.values(result).reduce((sum, e) => sum + e.classes.length + e.functions.length + e.types.length + e.components.length + e.systems.length + e.values.length, 0);
+  console.log(`Found ${total} package exports`);
+  return result;
+}
+
+/**
+ * Export names of a third-party module (e.g. three) from the SDK's node_modules,
+ * preferring its type declarations.
+ */
+async function resolveExternalExports(repoPath: string, pkg: string, module: string): Promise<string[] | null> {
+  const roots = [join(repoPath, 'packages', pkg, 'node_modules'), join(repoPath, 'node_modules')];
+
+  for (const root of roots) {
+    for (const dir of [join(root, '@types', module), join(root, module)]) {
+      const packageJsonPath = join(dir, 'package.json');
+      if (!existsSync(packageJsonPath)) continue;
+
+      const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8'));
+      const entryField = packageJson.types || packageJson.typings || packageJson.module || packageJson.main || 'index.js';
+      const entry = resolveModuleFile(join(dir, entryField));
+      if (!entry) continue;
+
+      const names = new Map<string, ExportedDeclaration>();
+      await collectModuleExports(entry, names, [], new Set());
+      if (names.size > 0) {
+        return [...names.keys()].sort();
+      }
+    }
+  }
+
+  return null;
+}
+
+interface ExportedDeclaration {
+  kind: 'classes' | 'functions' | 'types' | 'values';
+  aliasOf?: string;
+  deprecated?: string;
+}
+
+function resolveModuleFile(base: string): string | null {
+  const stripped = base.replace(/\.(d\.ts|js|mjs|ts)$/, '');
+  const candidates = [
+    `${stripped}.ts`,
+    `${stripped}.tsx`,
+    `${stripped}.d.ts`,
+    join(stripped, 'index.ts'),
+    join(stripped, 'index.tsx'),
+    join(stripped, 'index.d.ts'),
+    // Plain JavaScript, for third-party modules without declarations
+    `${stripped}.js`,
+    `${stripped}.mjs`,
+    join(stripped, 'index.js')
+  ];
+  return candidates.find(candidate => existsSync(candidate)) ?? null;
+}
+
+async function collectModuleExports(
+  filePath: string,
+  names: Map<string, ExportedDeclaration>,
+  reexports: string[],
+  visited: Set<string>
+): Promise<void> {
+  if (visited.has(filePath)) return;
+  visited.add(filePath);
+
+  const sourceFile = ts.createSourceFile(filePath, await readFile(filePath, 'utf-8'), ts.ScriptTarget.Latest, true);
+  const localDeclarations = collectLocalDeclarations(sourceFile);
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement)) {
+      const specifier = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+        ? statement.moduleSpecifier.text
+        : undefined;
+      const target = specifier?.startsWith('.') ? resolveModuleFile(join(dirname(filePath), specifier)) : null;
+
+      if (!statement.exportClause) {
+        // export * from '...'
+        if (target) {
+          await collectModuleExports(target, names, reexports, visited);
+        } else if (specifier && !reexports.includes(specifier)) {
+          reexports.push(specifier);
+        }
+        continue;
+      }
+
+      if (ts.isNamespaceExport(statement.exportClause)) {
+        names.set(statement.exportClause.name.text, { kind: 'values' });
+        continue;
+      }
+
+      let targetNames: Map<string, ExportedDeclaration> | null = null;
+      if (target) {
+        targetNames = new Map();
+        await collectModuleExports(target, targetNames, [], new Set(visited));
+      }
+
+      for (const element of statement.exportClause.elements) {
+        const exported = element.name.text;
+        const original = (element.propertyName ?? element.name).text;
+        const declaration =
+          targetNames?.get(original) ??
+          (specifier ? undefined : localDeclarations.get(original)) ??
+          // Names from external packages: classify by naming convention
+          { kind: /^[a-z]/.test(original) ? 'functions' : 'classes' };
+
+        names.set(exported, declaration.kind === 'types' || statement.isTypeOnly || element.isTypeOnly
+          ? { ...declaration, kind: 'types' }
+          : declaration);
+      }
+      continue;
+    }
+
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+    if (!modifiers?.some(m => m.kind === ts.SyntaxKind.ExportKeyword)) continue;
+
+    for (const [name, declaration] of collectLocalDeclarations(sourceFile, statement)) {
+      names.set(name, declaration);
+    }
+  }
+}
+
+function collectLocalDeclarations(
+  sourceFile: ts.SourceFile,
+  only?: ts.Statement
+): Map<string, ExportedDeclaration> {
+  const declarations = new Map<string, ExportedDeclaration>();
+
+  for (const statement of only ? [only] : sourceFile.statements) {
+    const deprecatedTag = ts.getJSDocTags(statement).find(tag => tag.tagName.text === 'deprecated');
+    const deprecated = deprecatedTag
+      ? jsDocCommentText(deprecatedTag.comment).trim()
+      : undefined;
+
+    if (ts.isClassDeclaration(statement) && statement.name) {
+      declarations.set(statement.name.text, { kind: 'classes', deprecated });
+    } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+      declarations.set(statement.name.text, { kind: 'functions', deprecated });
+    } else if ((ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement))) {
+      declarations.set(statement.name.text, { kind: 'types', deprecated });
+    } else if (ts.isEnumDeclaration(statement)) {
+      declarations.set(statement.name.text, { kind: 'values', deprecated });
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name)) continue;
+        const initializer = declaration.initializer;
+        const isFunction = initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+        declarations.set(declaration.name.text, {
+          kind: isFunction ? 'functions' : 'values',
+          aliasOf: initializer && ts.isIdentifier(initializer) ? initializer.text : undefined,
+          deprecated
+        });
+      }
+    }
+  }
+
+  return declarations;
+}
+
+interface DeclarationManifest {
+  /** @iwsdk package name -> where its declarations came from */
+  packages: Record<string, 'dist' | 'src' | 'emitted'>;
+  /** Third-party packages whose declarations were copied from node_modules */
+  external: string[];
+  /** Dependencies without declarations, declared as untyped modules in shims.d.ts */
+  shims: string[];
+}
+
+const DECLARATION_FILE = /\.d\.[cm]?ts$/;
+
+async function listFiles(dir: string, accept: (name: string) => boolean, skipDirs = ['node_modules']): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!skipDirs.includes(entry.name)) {
+        files.push(...await listFiles(fullPath, accept, skipDirs));
+      }
+    } else if (accept(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Generate declarations for a package that ships none, type-checking its
+ * sources in isolation (unresolved imports degrade to `any`).
+ */
+function emitPackageDeclarations(srcDir: string, rootNames: string[]): Map<string, string> {
+  const output = new Map<string, string>();
+  const program = ts.createProgram(rootNames, {
+    declaration: true,
+    emitDeclarationOnly: true,
+    noEmitOnError: false,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    rootDir: srcDir,
+    outDir: join(srcDir, '__declarations__')
+  });
+
+  program.emit(undefined, (fileName, text) => {
+    if (DECLARATION_FILE.test(fileName)) {
+      output.set(relative(join(srcDir, '__declarations__'), fileName), text);
+    }
+  });
+
+  return output;
+}
+
+/**
+ * Find a dependency the way Node does, walking up from the requiring package
+ * (pnpm keeps transitive dependencies next to the real package directory).
+ */
+function findDependencyDir(fromDir: string, name: string): string | null {
+  let dir = fromDir;
+  while (true) {
+    const candidate = join(dir, 'node_modules', name);
+    if (existsSync(join(candidate, 'package.json'))) {
+      return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function dependencyNames(packageJson: any): string[] {
+  return Object.keys({ ...packageJson.peerDependencies, ...packageJson.dependencies });
+}
+
+/**
+ * Capture the .d.ts files `typecheck_code` compiles snippets against, laid out
+ * as a node_modules tree so standard module resolution finds them.
+ */
+async function captureDeclarations(repoPath: string, outputDir: string): Promise<DeclarationManifest> {
+  console.log('Capturing type declarations...');
+
+  await rm(outputDir, { recursive: true, force: true });
+  const modulesDir = join(outputDir, 'node_modules');
+  const manifest: DeclarationManifest = { packages: {}, external: [], shims: [] };
+  const pending: Array<{ name: string; from: string }> = [];
+  const packages = ['core', 'xr-input', 'glxf', 'locomotor'];
+
+  for (const pkg of packages) {
+    const packageDir = join(repoPath, 'packages', pkg);
+    const packageJsonPath = join(packageDir, 'package.json');
+    if (!existsSync(packageJsonPath)) continue;
+
+    const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8'));
+    const packageName = `@iwsdk/${pkg}`;
+    const targetDir = join(modulesDir, packageName);
+    const declarations = new Map<string, string>();
+    let origin: DeclarationManifest['packages'][string] | null = null;
+
+    // Prefer built declarations, then declarations checked in next to the sources
+    for (const candidate of ['dist', 'src'] as const) {
+      const dir = join(packageDir, candidate);
+      if (!existsSync(dir)) continue;
+      const files = await listFiles(dir, name => DECLARATION_FILE.test(name));
+      if (files.length === 0) continue;
+      for (const file of files) {
+        declarations.set(relative(dir, file), await readFile(file, 'utf-8'));
+      }
+      origin = candidate;
+      break;
+    }
+
+    const srcDir = join(packageDir, 'src');
+    if (!origin && existsSync(srcDir)) {
+      const sources = await listFiles(srcDir, name => /\.tsx?$/.test(name) && !/\.(test|spec)\.tsx?$/.test(name));
+      for (const [file, text] of emitPackageDeclarations(srcDir, sources)) {
+        declarations.set(file, text);
+      }
+      origin = 'emitted';
+    }
+
+    if (!origin || !declarations.has('index.d.ts')) continue;
+
+    for (const [file, text] of declarations) {
+      await mkdir(dirname(join(targetDir, file)), { recursive: true });
+      await writeFile(join(targetDir, file), text);
+    }
+    await writeFile(
+      join(targetDir, 'package.json'),
+      JSON.stringify({ name: packageName, version: packageJson.version, types: 'index.d.ts' }, null, 2)
+    );
+    manifest.packages[packageName] = origin;
+
+    for (const dependency of dependencyNames(packageJson)) {
+      if (!dependency.startsWith('@iwsdk/')) {
+        pending.push({ name: dependency, from: packageDir });
+      }
+    }
+  }
+
+  // Third-party declarations, following dependencies transitively
+  const seen = new Set<string>();
+  while (pending.length > 0) {
+    const { name, from } = pending.shift()!;
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    const typesName = `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`;
+    let copied = false;
+
+    for (const moduleName of [name, typesName]) {
+      const dir = findDependencyDir(from, moduleName) ?? findDependencyDir(repoPath, moduleName);
+      if (!dir) continue;
+
+      const realDir = await realpath(dir);
+      const files = await listFiles(realDir, fileName => DECLARATION_FILE.test(fileName));
+      const packageJson = JSON.parse(await readFile(join(realDir, 'package.json'), 'utf-8'));
+
+      for (const dependency of dependencyNames(packageJson)) {
+        pending.push({ name: dependency, from: realDir });
+      }
+      if (files.length === 0) continue;
+
+      const targetDir = join(modulesDir, moduleName);
+      for (const file of [...files, join(realDir, 'package.json')]) {
+        const target = join(targetDir, relative(realDir, file));
+        await mkdir(dirname(target), { recursive: true });
+        await copyFile(file, target);
+      }
+      manifest.external.push(moduleName);
+      copied = true;
+    }
+
+    if (!copied) {
+      manifest.shims.push(name);
+    }
+  }
+
+  manifest.external.sort();
+  manifest.shims.sort();
+
+  // Untyped dependencies: every import from them is `any`
+  const shims = manifest.shims.map(name => `declare module '${name}';\ndeclare module '${name}/*';`).join('\n');
+  await mkdir(outputDir, { recursive: true });
+  await writeFile(join(outputDir, 'shims.d.ts'), shims ? `${shims}\n` : 'export {};\n');
+  await writeFile(join(outputDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+  console.log(`Captured declarations for ${Object.keys(manifest.packages).length} packages and ${manifest.external.length} dependencies`);
+  return manifest;
+}
+
+async function parseApiDocs(repoPath: string): Promise<Record<string, Record<string, ApiDocumentation>>> {
+  console.log('Parsing API documentation...');
+
+  const apiDocs: Record<string, Record<string, ApiDocumentation>> = {};
+  const packages = ['core', 'xr-input', 'glxf', 'locomotor'];
+
+  for (const pkg of packages) {
+    const srcDir = join(repoPath, 'packages', pkg, 'src');
+
+    if (!existsSync(srcDir)) continue;
+
+    const packageName = `@iwsdk/${pkg}`;
+    apiDocs[packageName] = {};
+    await parseApiDocsInDir(srcDir, packageName, apiDocs[packageName]);
+  }
+
+  const total = Object.values(apiDocs).reduce((sum, docs) => sum + Object.keys(docs).length, 0);
+  console.log(`Found ${total} documented classes and functions`);
+  return apiDocs;
+}
+
+async function parseApiDocsInDir(dir: string, packageName: string, docs: Record<string, ApiDocumentation>) {
+  const files = await readdir(dir, { withFileTypes: true });
+
+  for (const file of files) {
+    const fullPath = join(dir, file.name);
+
+    if (file.isDirectory()) {
+      await parseApiDocsInDir(fullPath, packageName, docs);
+    } else if (file.name.endsWith('.ts') || file.name.endsWith('.tsx')) {
+      const content = await readFile(fullPath, 'utf-8');
+      const sourceFile = ts.createSourceFile(
+        file.name,
+        content,
+        ts.ScriptTarget.Latest,
+        true
+      );
+
+      extractApiDocsFromAST(sourceFile, packageName, docs);
+    }
+  }
+}
+
+function extractApiDocsFromAST(
+  sourceFile: ts.SourceFile,
+  packageName: string,
+  docs: Record<string, ApiDocumentation>
+) {
+  // Names re-exported through `export { Foo, Bar }` count as exported too
+  const exportedNames = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier &&
+        statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        exportedNames.add((element.propertyName || element.name).text);
+      }
+    }
+  }
+
+  const isExported = (node: ts.ClassDeclaration | ts.FunctionDeclaration) =>
+    !!node.name && (hasModifier(node, ts.SyntaxKind.ExportKeyword) || exportedNames.has(node.name.text));
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isClassDeclaration(statement) && statement.name && isExported(statement)) {
+      if (isInternal(statement)) continue;
+      docs[statement.name.text] = extractClassDoc(statement, sourceFile, packageName);
+    }
+
+    if (ts.isFunctionDeclaration(statement) && statement.name && isExported(statement)) {
+      if (isInternal(statement)) continue;
+      const name = statement.name.text;
+      const method = extractMethodDoc(statement, name, sourceFile);
+      const existing = docs[name]?.methods?.[name];
+
+      // Overloads are folded into a single entry with one signature per line
+      if (existing) {
+        if (!existing.signature.split('\n').includes(method.signature)) {
+          existing.signature += `\n${method.signature}`;
+        }
+        continue;
+      }
+
+      docs[name] = {
+        packageName,
+        className: name,
+        description: method.description,
+        methods: { [name]: method },
+        examples: method.examples
+      };
+    }
+  }
+}
+
+function extractClassDoc(
+  node: ts.ClassDeclaration,
+  sourceFile: ts.SourceFile,
+  packageName: string
+): ApiDocumentation {
+  const className = node.name!.text;
+  const jsdoc = extractJSDoc(node, sourceFile);
+  const methods: Record<string, MethodDoc> = {};
+  const properties: Record<string, PropertyDoc> = {};
+  let constructorDoc: string | undefined;
+
+  for (const member of node.members) {
+    if (isPrivateMember(member)) continue;
+
+    if (ts.isConstructorDeclaration(member)) {
+      const ctor = extractMethodDoc(member, 'constructor', sourceFile);
+      constructorDoc = `\`\`\`typescript\nnew ${className}${ctor.signature.replace(/^constructor/, '')}\n\`\`\``;
+      if (ctor.description) {
+        constructorDoc += `\n\n${ctor.description}`;
+      }
+      continue;
+    }
+
+    if (!member.name) continue;
+    const memberName = member.name.getText(sourceFile);
+
+    if (ts.isMethodDeclaration(member)) {
+      if (methods[memberName]) continue;
+      methods[memberName] = extractMethodDoc(member, memberName, sourceFile);
+    } else if (ts.isPropertyDeclaration(member)) {
+      properties[memberName] = {
+        type: member.type?.getText(sourceFile) || inferLiteralType(member.initializer),
+        description: extractJSDoc(member, sourceFile).description,
+        readonly: hasModifier(member, ts.SyntaxKind.ReadonlyKeyword) || undefined
+      };
+    } else if (ts.isGetAccessorDeclaration(member)) {
+      const hasSetter = node.members.some(
+        m => ts.isSetAccessorDeclaration(m) && m.name.getText(sourceFile) === memberName
+      );
+      properties[memberName] = {
+        type: member.type?.getText(sourceFile) || 'unknown',
+        description: extractJSDoc(member, sourceFile).description,
+        readonly: !hasSetter || undefined
+      };
+    }
+  }
+
+  return {
+    packageName,
+    className,
+    description: [jsdoc.description, jsdoc.remarks].filter(Boolean).join('\n\n'),
+    methods: Object.keys(methods).length > 0 ? methods : undefined,
+    properties: Object.keys(properties).length > 0 ? properties : undefined,
+    constructorDoc,
+    examples: jsdoc.examples.length > 0 ? jsdoc.examples.map(stripCodeFence) : undefined
+  };
+}
+
+function extractMethodDoc(
+  node: ts.SignatureDeclaration,
+  name: string,
+  sourceFile: ts.SourceFile
+): MethodDoc {
+  const jsdoc = extractJSDoc(node, sourceFile);
+
+  const parameters: Parameter[] = node.parameters.map(param => {
+    const paramName = param.name.getText(sourceFile);
+    const paramTag = ts.getJSDocParameterTags(param)[0];
+    const description = paramTag ? jsDocCommentText(paramTag.comment).replace(/^-\s*/, '').trim() : '';
+
+    return {
+      name: param.dotDotDotToken ? `...${paramName}` : paramName,
+      type: param.type?.getText(sourceFile) || inferLiteralType(param.initializer),
+      description: description || undefined,
+      optional: !!param.questionToken || !!param.initializer || undefined
+    };
+  });
+
+  const isStatic = hasModifier(node, ts.SyntaxKind.StaticKeyword);
+  const isAsync = hasModifier(node, ts.SyntaxKind.AsyncKeyword);
+  const returns = node.type?.getText(sourceFile);
+  const returnTag = ts.getJSDocReturnTag(node);
+  const params = node.parameters.map(p => p.getText(sourceFile).replace(/\s*=\s*[\s\S]*$/, '')).join(', ');
+
+  let signature = `${isStatic ? 'static ' : ''}${isAsync ? 'async ' : ''}${name}(${params})`;
+  if (returns) {
+    signature += `: ${returns}`;
+  }
+
+  return {
+    signature: signature.replace(/\s+/g, ' '),
+    description: jsdoc.description,
+    parameters: parameters.length > 0 ? parameters : undefined,
+    returns,
+    returnsDescription: returnTag ? jsDocCommentText(returnTag.comment).trim() || undefined : undefined,
+    examples: jsdoc.examples.length > 0 ? jsdoc.examples.map(stripCodeFence) : undefined
+  };
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(m => m.kind === kind);
+}
+
+function isInternal(node: ts.Node): boolean {
+  return ts.getJSDocTags(node).some(tag => tag.tagName.text === 'internal');
+}
+
+function isPrivateMember(member: ts.ClassElement): boolean {
+  if (hasModifier(member, ts.SyntaxKind.PrivateKeyword) || hasModifier(member, ts.SyntaxKind.ProtectedKeyword)) {
+    return true;
+  }
+  if (member.name && (ts.isPrivateIdentifier(member.name) || member.name.getText().startsWith('_'))) {
+    return true;
+  }
+  return isInternal(member);
+}
+
+function inferLiteralType(initializer: ts.Expression | undefined): string {
+  if (!initializer) return 'unknown';
+  if (ts.isNumericLiteral(initializer)) return 'number';
+  if (ts.isStringLiteral(initializer) || ts.isNoSubstitutionTemplateLiteral(initializer)) return 'string';
+  if (initializer.kind === ts.SyntaxKind.TrueKeyword || initializer.kind === ts.SyntaxKind.FalseKeyword) return 'boolean';
+  return 'unknown';
+}
+
+
+function stripCodeFence(example: string): string {
+  const fenced = example.match(/```\w*\n([\s\S]*?)```/);
+  if (!fenced) return example.trim();
+
+  // Keep the example title (text before the fence) as a leading comment
+  const title = example.slice(0, fenced.index).trim();
+  const code = fenced[1].trimEnd();
+  return title ? `// ${title}\n${code}` : code;
+}
+
 async function parseExamples(repoPath: string): Promise<ExampleCode[]> {
   console.log('Parsing examples...');
 
@@ -899,6 +1723,263 @@ function buildSystemComponentRelationships(
   }
 }
 
+/**
+ * UIKitML elements and the properties each accepts, read from the
+ * `@pmndrs/uikit` declarations in the SDK's node_modules. Every exported
+ * Component class is an element (Container -> `<container>`); tags
+ * `@pmndrs/uikitml` maps onto those classes (e.g. `div`) are added as aliases.
+ */
+async function parseUIKit(repoPath: string): Promise<UIKitSchema | null> {
+  console.log('Parsing UIKit elements...');
+
+  const coreDir = join(repoPath, 'packages', 'core');
+  const uikitDir = findDependencyDir(coreDir, '@pmndrs/uikit');
+  if (!uikitDir) {
+    console.warn('  @pmndrs/uikit is not installed in the SDK; validate_uikitml will not check element and property names');
+    return null;
+  }
+
+  const packageJson = JSON.parse(await readFile(join(uikitDir, 'package.json'), 'utf-8'));
+  const entry = resolveModuleFile(join(uikitDir, packageJson.types || packageJson.typings || 'dist/index.d.ts'));
+  if (!entry || !DECLARATION_FILE.test(entry)) {
+    console.warn(`  No declarations found for @pmndrs/uikit ${packageJson.version}`);
+    return null;
+  }
+
+  const program = ts.createProgram([entry], {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    skipLibCheck: true,
+    noEmit: true,
+  });
+  const checker = program.getTypeChecker();
+  const moduleSymbol = checker.getSymbolAtLocation(program.getSourceFile(entry)!);
+  if (!moduleSymbol) return null;
+
+  const classes = new Map<string, string[]>();
+  for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+    const symbol = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+    const declaration = symbol.declarations?.find(ts.isClassDeclaration);
+    if (!declaration || exported.name === 'Component' || !extendsUIKitComponent(checker, checker.getDeclaredTypeOfSymbol(symbol))) {
+      continue;
+    }
+
+    // The first constructor parameter holds the element's properties
+    const parameter = checker.getTypeOfSymbolAtLocation(symbol, declaration).getConstructSignatures()[0]?.getParameters()[0];
+    const properties = parameter
+      ? checker.getPropertiesOfType(checker.getNonNullableType(checker.getTypeOfSymbolAtLocation(parameter, declaration)))
+        .map(property => property.name)
+      : [];
+    classes.set(exported.name, [...new Set(properties)].sort());
+  }
+
+  const schema: UIKitSchema = { uikitVersion: packageJson.version, elements: {} };
+  for (const [component, properties] of classes) {
+    schema.elements[component.toLowerCase()] = { component, properties };
+  }
+
+  const uikitmlDir = findDependencyDir(coreDir, '@pmndrs/uikitml') ?? findDependencyDir(uikitDir, '@pmndrs/uikitml');
+  if (uikitmlDir) {
+    schema.uikitmlVersion = JSON.parse(await readFile(join(uikitmlDir, 'package.json'), 'utf-8')).version;
+    for (const file of await listFiles(uikitmlDir, name => /\.m?js$/.test(name))) {
+      const sourceFile = ts.createSourceFile(file, await readFile(file, 'utf-8'), ts.ScriptTarget.Latest, true);
+      for (const [tag, component] of extractTagAliases(sourceFile, classes)) {
+        schema.elements[tag] ??= { component, properties: classes.get(component)! };
+      }
+    }
+  }
+
+  console.log(`Found ${Object.keys(schema.elements).length} UIKitML elements (${classes.size} UIKit classes)`);
+  return schema;
+}
+
+function extendsUIKitComponent(checker: ts.TypeChecker, type: ts.Type, depth = 0): boolean {
+  if (depth > 10 || !type.isClassOrInterface()) return false;
+  return (checker.getBaseTypes(type) ?? []).some(base =>
+    base.getSymbol()?.name === 'Component' || extendsUIKitComponent(checker, base, depth + 1)
+  );
+}
+
+/**
+ * Tag -> UIKit class pairs from uikitml's interpreter: object literals like
+ * `{ div: Container }` and `case 'div': return new Container(...)`.
+ */
+function extractTagAliases(sourceFile: ts.SourceFile, classes: Map<string, string[]>): Map<string, string> {
+  const aliases = new Map<string, string>();
+
+  const componentIn = (node: ts.Node): string | undefined => {
+    if (ts.isIdentifier(node) && classes.has(node.text)) return node.text;
+    if (ts.isPropertyAccessExpression(node) && classes.has(node.name.text)) return node.name.text;
+    return ts.forEachChild(node, componentIn);
+  };
+
+  function visit(node: ts.Node) {
+    if (ts.isPropertyAssignment(node) && (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name))) {
+      const value = node.initializer;
+      const component = ts.isIdentifier(value) || ts.isPropertyAccessExpression(value) ? componentIn(value) : undefined;
+      if (component) aliases.set(node.name.text.toLowerCase(), component);
+    } else if (ts.isCaseClause(node) && ts.isStringLiteral(node.expression)) {
+      const component = node.statements.map(componentIn).find(Boolean);
+      if (component) aliases.set(node.expression.text.toLowerCase(), component);
+    }
+    ts.forEachChild(node, visit);
+  }
+
+  visit(sourceFile);
+  return aliases;
+}
+
+/**
+ * Map each World.create `features` flag to the systems and components it
+ * registers, by reading the WorldOptions type and the registerSystem() /
+ * registerComponent() calls guarded by those flags.
+ */
+async function parseWorldFeatures(repoPath: string): Promise<WorldFeatureMap> {
+  console.log('Parsing World.create features...');
+
+  const map: WorldFeatureMap = { features: {}, builtInSystems: [], subsystems: {} };
+  const packages = ['core', 'xr-input', 'glxf', 'locomotor'];
+
+  for (const pkg of packages) {
+    const srcDir = join(repoPath, 'packages', pkg, 'src');
+
+    if (!existsSync(srcDir)) continue;
+
+    for (const file of await listFiles(srcDir, name => /\.tsx?$/.test(name))) {
+      const content = await readFile(file, 'utf-8');
+      const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true);
+
+      extractFeatureOptions(sourceFile, map);
+      if (!DECLARATION_FILE.test(file)) {
+        extractFeatureRegistrations(sourceFile, map);
+      }
+    }
+  }
+
+  const unique = (names: string[]) => [...new Set(names)].sort();
+  for (const feature of Object.values(map.features)) {
+    feature.systems = unique(feature.systems);
+    feature.components = unique(feature.components);
+  }
+  map.builtInSystems = unique(map.builtInSystems);
+  for (const [system, subsystems] of Object.entries(map.subsystems)) {
+    map.subsystems[system] = unique(subsystems);
+  }
+
+  console.log(`Found ${Object.keys(map.features).length} World.create features`);
+  return map;
+}
+
+function worldFeature(map: WorldFeatureMap, name: string): WorldFeature {
+  return map.features[name] ??= { name, description: '', enabledByDefault: false, systems: [], components: [] };
+}
+
+/**
+ * Names, descriptions and defaults of the flags from `WorldOptions.features`.
+ */
+function extractFeatureOptions(sourceFile: ts.SourceFile, map: WorldFeatureMap): void {
+  function visit(node: ts.Node) {
+    const members =
+      ts.isTypeAliasDeclaration(node) && node.name.text === 'WorldOptions' && ts.isTypeLiteralNode(node.type)
+        ? node.type.members
+        : ts.isInterfaceDeclaration(node) && node.name.text === 'WorldOptions'
+          ? node.members
+          : undefined;
+
+    const features = members?.find(member => member.name?.getText(sourceFile) === 'features');
+    if (features && ts.isPropertySignature(features) && features.type && ts.isTypeLiteralNode(features.type)) {
+      for (const member of features.type.members) {
+        if (!ts.isPropertySignature(member) || !member.name) continue;
+
+        const feature = worldFeature(map, member.name.getText(sourceFile));
+        const defaultTag = ts.getJSDocTags(member).find(tag => ['defaultValue', 'default'].includes(tag.tagName.text));
+        feature.description = extractJSDoc(member, sourceFile).description;
+        feature.enabledByDefault = jsDocCommentText(defaultTag?.comment).trim() === 'true';
+      }
+      return;
+    }
+
+    ts.forEachChild(node, visit);
+  }
+
+  visit(sourceFile);
+}
+
+/**
+ * The `features` flag an expression reads, following locals such as
+ * `const physicsEnabled = !!config.features.physics`.
+ */
+function featureFlagOf(node: ts.Node, flagVariables: Map<string, string>): string | undefined {
+  if (
+    ts.isPropertyAccessExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    node.expression.name.text === 'features' &&
+    ts.isIdentifier(node.expression.expression)
+  ) {
+    return node.name.text;
+  }
+  if (ts.isIdentifier(node) && flagVariables.has(node.text)) {
+    return flagVariables.get(node.text);
+  }
+  return ts.forEachChild(node, child => featureFlagOf(child, flagVariables));
+}
+
+function extractFeatureRegistrations(sourceFile: ts.SourceFile, map: WorldFeatureMap): void {
+  const flagVariables = new Map<string, string>();
+
+  function record(call: ts.CallExpression, method: string, name: string) {
+    let feature: string | undefined;
+
+    for (let current: ts.Node = call; current.parent; current = current.parent) {
+      const parent = current.parent;
+
+      // Systems registering their own helpers, like LocomotionSystem with TurnSystem
+      if (ts.isClassDeclaration(parent) && parent.name?.text.endsWith('System')) {
+        if (method === 'registerSystem') {
+          (map.subsystems[parent.name.text] ??= []).push(name);
+        }
+        return;
+      }
+
+      if (ts.isIfStatement(parent) && feature === undefined) {
+        const flag = featureFlagOf(parent.expression, flagVariables);
+        // The else branch runs when the feature is off
+        if (flag && parent.elseStatement === current) return;
+        feature = flag;
+      }
+    }
+
+    if (feature) {
+      const entry = worldFeature(map, feature);
+      (method === 'registerSystem' ? entry.systems : entry.components).push(name);
+    } else if (method === 'registerSystem') {
+      map.builtInSystems.push(name);
+    }
+  }
+
+  function visit(node: ts.Node) {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      const flag = featureFlagOf(node.initializer, flagVariables);
+      if (flag) flagVariables.set(node.name.text, flag);
+    }
+
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      ['registerSystem', 'registerComponent'].includes(node.expression.name.text) &&
+      node.arguments.length > 0 &&
+      ts.isIdentifier(node.arguments[0])
+    ) {
+      record(node, node.expression.name.text, node.arguments[0].text);
+    }
+
+    ts.forEachChild(node, visit);
+  }
+
+  visit(sourceFile);
+}
+
 function extractTypicalCompositions(examples: ExampleCode[]): ComponentPattern[] {
   console.log('Extracting typical component compositions...');
 
@@ -1128,6 +2209,15 @@ function generateBestPractices() {
 - Use LOD (Level of Detail) for complex scenes
 - Optimize physics bodies
 
+## Per-Frame Code (system \`update()\`)
+- Reuse Vector3/Quaternion/Matrix4 temporaries stored as fields instead of \`new\` each frame
+- Create meshes, geometries, materials and entities in \`init()\` or pool them
+- Add/remove components on state changes, not every frame
+- Declare queries in \`createSystem()\` instead of \`traverse()\` or \`hasComponent()\` filtering
+- Remove \`console.log\` from the frame loop
+
+\`validate_code\` flags each of these inside \`update()\` bodies.
+
 **See common mistakes:** Use \`get_common_mistakes()\` to see all common mistakes`
     },
     'state-management': {
@@ -1302,12 +2392,22 @@ import { World, SessionMode } from '@iwsdk/core';
 
 const world = await World.create(container, {
   xr: {
-    sessionMode: SessionMode.ImmersiveAR
-  }
+    sessionMode: SessionMode.ImmersiveAR,
+    // Request only the session features the app uses
+    features: { hitTest: true, anchors: true, planeDetection: true, meshDetection: true }
+  },
+  // No generated backdrop, so passthrough shows behind the scene
+  render: { defaultLighting: false },
+  features: { environmentRaycast: true, sceneUnderstanding: true }
 });
 \`\`\`
 
-**Note:** AR features require supported devices (Quest 3, Quest Pro)`
+- \`environmentRaycast\` drives \`EnvironmentRaycastTarget\` (hit-test against real surfaces)
+- \`sceneUnderstanding\` creates \`XRPlane\` / \`XRMesh\` entities and pins \`XRAnchor\` entities to the real world
+
+**Note:** AR features require supported devices (Quest 3, Quest Pro). On desktop, the \`@iwsdk/vite-plugin-iwer\` emulator stands in for a headset.
+
+**Complete projects:** \`scaffold_project("ar-placement")\` (hit-test placement with anchors) or \`scaffold_project("ar-scene")\` (plane and mesh detection)`
     },
     'interactive': {
       title: 'Interactive Project Setup',
@@ -1725,6 +2825,130 @@ function generateTroubleshootingGuides() {
   };
 }
 
+async function buildVectorStore(
+  embedder: Embedder,
+  documents: SearchDocument[],
+  texts: string[]
+): Promise<VectorStore> {
+  const vectors = await embedder.embed(texts);
+  return {
+    embedder: embedder.id,
+    dimensions: embedder.dimensions,
+    entries: documents.map((doc, i) => ({
+      id: doc.id,
+      vector: vectors[i].map(value => Math.round(value * 1e5) / 1e5)
+    }))
+  };
+}
+
+function collectSearchDocuments(
+  components: Record<string, ComponentDefinition>,
+  systems: Record<string, SystemDefinition>,
+  types: Record<string, TypeDefinition>,
+  examples: ExampleCode[],
+  commonMistakes: CommonMistake[],
+  guides: Array<{ file: string; content: string }>
+): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+
+  for (const component of Object.values(components)) {
+    documents.push({
+      id: `component:${component.name}`,
+      type: 'component',
+      title: component.name,
+      fields: {
+        name: component.name,
+        description: component.description,
+        keywords: component.keywords.join(' '),
+        category: component.category || '',
+        fields: component.fields.map(f => `${f.name} ${f.description || ''}`).join('\n'),
+        remarks: component.remarks || '',
+        code: component.jsdocExamples.join('\n')
+      },
+      snippetText: [component.description, component.remarks].filter(Boolean).join('\n')
+    });
+  }
+
+  for (const system of Object.values(systems)) {
+    documents.push({
+      id: `system:${system.name}`,
+      type: 'system',
+      title: system.name,
+      fields: {
+        name: system.name,
+        description: system.description,
+        keywords: system.keywords.join(' '),
+        category: system.category || '',
+        components: system.queriesComponents.join(' '),
+        methods: system.methods.map(m => `${m.name} ${m.description}`).join('\n'),
+        remarks: system.remarks || ''
+      },
+      snippetText: [system.description, system.remarks].filter(Boolean).join('\n')
+    });
+  }
+
+  for (const type of Object.values(types)) {
+    documents.push({
+      id: `type:${type.name}`,
+      type: 'type',
+      title: type.name,
+      fields: {
+        name: type.name,
+        definition: type.definition
+      },
+      snippetText: type.definition.slice(0, 500)
+    });
+  }
+
+  examples.forEach((example, i) => {
+    documents.push({
+      id: `example:${i}`,
+      type: 'example',
+      title: example.title,
+      fields: {
+        title: example.title,
+        description: example.description,
+        tags: example.tags.join(' '),
+        category: example.category,
+        components: [...example.componentsUsed, ...example.systemsUsed].join(' '),
+        code: example.code
+      },
+      snippetText: `${example.description}\n${example.code.slice(0, 1500)}`
+    });
+  });
+
+  for (const mistake of commonMistakes) {
+    documents.push({
+      id: `mistake:${mistake.id}`,
+      type: 'mistake',
+      title: mistake.title,
+      fields: {
+        title: mistake.title,
+        description: mistake.description,
+        category: mistake.category,
+        code: `${mistake.wrongCode}\n${mistake.correctCode}`
+      },
+      snippetText: mistake.description
+    });
+  }
+
+  for (const guide of guides) {
+    const heading = guide.content.match(/^#\s+(.+)$/m);
+    documents.push({
+      id: `guide:${guide.file}`,
+      type: 'guide',
+      title: heading ? heading[1].trim() : guide.file.replace(/\.md$/, ''),
+      fields: {
+        title: heading ? heading[1] : guide.file,
+        body: guide.content
+      },
+      snippetText: guide.content.replace(/```[\s\S]*?```/g, '').slice(0, 4000)
+    });
+  }
+
+  return documents;
+}
+
 async function generateCache(repoPath: string, version: string): Promise<void> {
   console.log('Generating cache...');
 
@@ -1732,6 +2956,10 @@ async function generateCache(repoPath: string, version: string): Promise<void> {
   const systems = await parseSystems(repoPath);
   const types = await parseTypes(repoPath);
   const examples = await parseExamples(repoPath);
+  const apiDocs = await parseApiDocs(repoPath);
+  const packageExports = await parsePackageExports(repoPath, components, systems);
+  const worldFeatures = await parseWorldFeatures(repoPath);
+  const uikit = await parseUIKit(repoPath);
 
   await extractComponentRelationships(repoPath, components);
   buildSystemComponentRelationships(systems, components);
@@ -1826,50 +3054,49 @@ async function generateCache(repoPath: string, version: string): Promise<void> {
   // 8. Package Exports
   await writeFile(
     join(cacheDir, 'exports.json'),
-    JSON.stringify({
-      '@iwsdk/core': {
-        classes: Object.keys(systems),
-        functions: ['createComponent', 'createSystem'],
-        types: Object.keys(types).filter(t => types[t].package === '@iwsdk/core'),
-        components: Object.keys(components),
-        systems: Object.keys(systems)
-      }
-    }, null, 2)
+    JSON.stringify(packageExports, null, 2)
+  );
+
+  // 9. API Documentation
+  await writeFile(
+    join(cacheDir, 'api-docs.json'),
+    JSON.stringify(apiDocs, null, 2)
   );
 
-  // 9. Best Practices
+  // 10. Best Practices
   const bestPractices = generateBestPractices();
   await writeFile(
     join(cacheDir, 'best-practices.json'),
     JSON.stringify(bestPractices, null, 2)
   );
 
-  // 10. Setup Guides
+  // 11. Setup Guides
   const setupGuides = generateSetupGuides();
   await writeFile(
     join(cacheDir, 'setup-guides.json'),
     JSON.stringify(setupGuides, null, 2)
   );
 
-  // 11. Asset Guides
+  // 12. Asset Guides
   const assetGuides = generateAssetGuides();
   await writeFile(
     join(cacheDir, 'asset-guides.json'),
     JSON.stringify(assetGuides, null, 2)
   );
 
-  // 12. Troubleshooting Guides
+  // 13. Troubleshooting Guides
   const troubleshootingGuides = generateTroubleshootingGuides();
   await writeFile(
     join(cacheDir, 'troubleshooting.json'),
     JSON.stringify(troubleshootingGuides, null, 2)
   );
 
-  // 13. Copy official IWSDK documentation guides
+  // 14. Copy official IWSDK documentation guides
   const guidesSourceDir = join(repoPath, 'docs', 'guides');
   const guidesDestDir = join(cacheDir, 'docs', 'guides');
 
   let guidesCopied = 0;
+  const guides: Array<{ file: string; content: string }> = [];
   if (existsSync(guidesSourceDir)) {
     await mkdir(guidesDestDir, { recursive: true });
     const guideFiles = await readdir(guidesSourceDir);
@@ -1879,13 +3106,53 @@ async function generateCache(repoPath: string, version: string): Promise<void> {
         const sourcePath = join(guidesSourceDir, file);
         const destPath = join(guidesDestDir, file);
         await copyFile(sourcePath, destPath);
+        guides.push({ file, content: await readFile(sourcePath, 'utf-8') });
         guidesCopied++;
       }
     }
   }
 
+  // 15. Full-text search index
+  const searchDocuments = collectSearchDocuments(components, systems, types, examples, commonMistakes, guides);
+  const searchIndex = buildSearchIndex(searchDocuments);
+  await writeFile(
+    join(cacheDir, 'search-index.json'),
+    JSON.stringify(searchIndex)
+  );
+
+  // 16. Semantic vectors (types are left out: their definitions are code, not prose)
+  const semanticDocuments = searchDocuments.filter(doc => doc.type !== 'type');
+  const semanticTexts = semanticDocuments.map(doc => Object.values(doc.fields).join('\n'));
+  const lsaModel = trainLsa(semanticTexts);
+  const vectorStore = await buildVectorStore(createLsaEmbedder(lsaModel), semanticDocuments, semanticTexts);
+  vectorStore.model = lsaModel;
+  await writeFile(join(cacheDir, 'vectors.json'), JSON.stringify(vectorStore));
+
+  const onnxEmbedder = await createOnnxEmbedder(join(cacheDir, 'models'));
+  if (onnxEmbedder) {
+    const onnxStore = await buildVectorStore(onnxEmbedder, semanticDocuments, semanticTexts);
+    await writeFile(join(cacheDir, 'vectors-onnx.json'), JSON.stringify(onnxStore));
+  }
+
+  // 17. Type declarations for typecheck_code
+  const declarations = await captureDeclarations(repoPath, join(cacheDir, 'types'));
+
+  // 18. World.create feature flags and the systems they register
+  await writeFile(
+    join(cacheDir, 'world-features.json'),
+    JSON.stringify(worldFeatures, null, 2)
+  );
+
+  // 19. UIKitML elements for validate_uikitml (when @pmndrs/uikit is installed)
+  const uikitPath = join(cacheDir, 'uikit.json');
+  if (uikit) {
+    await writeFile(uikitPath, JSON.stringify(uikit, null, 2));
+  } else {
+    await rm(uikitPath, { force: true });
+  }
+
   console.log(`\n✓ Cache written to ${cacheDir}/`);
-  console.log(`\n📊 JSON Data Files (12 files):`);
+  console.log(`\n📊 JSON Data Files (16 files):`);
   console.log(`  • metadata.json`);
   console.log(`  • components.json (${Object.keys(components).length} components)`);
   console.log(`  • systems.json (${Object.keys(systems).length} systems)`);
@@ -1893,13 +3160,24 @@ async function generateCache(repoPath: string, version: string): Promise<void> {
   console.log(`  • examples.json (${examples.length} examples)`);
   console.log(`  • relationships.json (${componentRequires.length} dependencies, ${systemQueries.length} queries)`);
   console.log(`  • common-mistakes.json (${commonMistakes.length} mistakes)`);
-  console.log(`  • exports.json`);
+  console.log(`  • exports.json (${Object.keys(packageExports).length} packages)`);
+  console.log(`  • api-docs.json (${Object.values(apiDocs).reduce((sum, docs) => sum + Object.keys(docs).length, 0)} classes and functions)`);
   console.log(`  • best-practices.json (${Object.keys(bestPractices).length} topics)`);
   console.log(`  • setup-guides.json (${Object.keys(setupGuides).length} guides)`);
   console.log(`  • asset-guides.json`);
   console.log(`  • troubleshooting.json (${troubleshootingGuides.solutions.length} solutions)`);
+  console.log(`  • search-index.json (${searchIndex.documents.length} documents, ${Object.keys(searchIndex.postings).length} terms)`);
+  console.log(`  • vectors.json (${vectorStore.entries.length} vectors, ${vectorStore.dimensions} LSA dimensions, ${lsaModel.vocabulary.length} terms)`);
+  console.log(`  • world-features.json (${Object.keys(worldFeatures.features).length} features, ${worldFeatures.builtInSystems.length} built-in systems)`);
+  if (uikit) {
+    console.log(`  • uikit.json (${Object.keys(uikit.elements).length} elements from @pmndrs/uikit ${uikit.uikitVersion})`);
+  }
+  if (onnxEmbedder) {
+    console.log(`  • vectors-onnx.json (${onnxEmbedder.dimensions} dimensions from cache/models/)`);
+  }
   console.log(`\n📚 Documentation Files:`);
   console.log(`  • docs/guides/ (${guidesCopied} official IWSDK guides)`);
+  console.log(`  • types/ (${Object.keys(declarations.packages).length} @iwsdk packages, ${declarations.external.length} dependencies, ${declarations.shims.length} untyped)`);
 }
 
 async function main() {
@@ -0,0 +1,195 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { loadEnhancedCache } from './lib/cache-loader.js';
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/health';
+// Sessions with no request for this long are closed; clients that just
+// disconnect never send the DELETE that ends a session
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_MS = 60 * 1000;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = new Set(['0.0.0.0', '::']);
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+}
+
+export interface HttpServerOptions {
+  /** Extra Host header values to accept, e.g. `my-box.lan:3333` */
+  allowedHosts?: string[];
+  /** Browser origins allowed to call the server; requests from any other origin are refused */
+  allowedOrigins?: string[];
+}
+
+/**
+ * Host header values a request may carry. Anything else is refused so a web
+ * page cannot reach the server through DNS rebinding.
+ */
+function hostAllowList(port: number, host: string, extra: string[]): string[] {
+  const hosts = LOOPBACK_HOSTS.map(name => `${name}:${port}`);
+  if (!WILDCARD_HOSTS.has(host) && !LOOPBACK_HOSTS.includes(host)) {
+    hosts.push(`${host.includes(':') ? `[${host}]` : host}:${port}`);
+  }
+  return [...hosts, ...extra];
+}
+
+export async function startHttpServer(port: number, host: string, createServer: () => Server, options: HttpServerOptions = {}) {
+  // Each session gets its own Server and transport; the cache is shared by the whole process
+  const sessions = new Map<string, Session>();
+  const startedAt = Date.now();
+  const allowedHosts = hostAllowList(port, host, options.allowedHosts ?? []);
+  const allowedOrigins = options.allowedOrigins ?? [];
+
+  if (WILDCARD_HOSTS.has(host) && !options.allowedHosts?.length) {
+    console.error(`Listening on all interfaces but only accepting ${allowedHosts.join(', ')} as Host; pass --allowed-host <name>:${port} for each name clients use`);
+  }
+
+  const closeSession = async (id: string, session: Session) => {
+    sessions.delete(id);
+    await session.transport.close().catch(() => undefined);
+    await session.server.close().catch(() => undefined);
+  };
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, session] of sessions) {
+      if (session.lastActivity < cutoff) {
+        console.error(`Session ${id} idle, closing (${sessions.size - 1} active)`);
+        void closeSession(id, session);
+      }
+    }
+  }, SESSION_SWEEP_MS);
+  sweep.unref();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+      // Browsers always send Origin on cross-site requests; other clients send none
+      const origin = req.headers.origin;
+      if (!req.headers.host || !allowedHosts.includes(req.headers.host) || (origin && !allowedOrigins.includes(origin))) {
+        sendJsonRpcError(res, 403, `Forbidden: ${origin && !allowedOrigins.includes(origin) ? `origin ${origin}` : `host ${req.headers.host ?? '(none)'}`} is not allowed`);
+        return;
+      }
+
+      if (path === HEALTH_PATH && req.method === 'GET') {
+        const cache = await loadEnhancedCache();
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: sessions.size,
+          uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+          iwsdkVersion: cache.metadata.iwsdkVersion,
+          ingestDate: cache.metadata.ingestDate,
+        });
+        return;
+      }
+
+      if (path !== MCP_PATH) {
+        sendJson(res, 404, { error: `Not found: ${path}` });
+        return;
+      }
+
+      let body: unknown;
+      if (req.method === 'POST') {
+        try {
+          body = await readJsonBody(req);
+        } catch {
+          sendJsonRpcError(res, 400, 'Parse error: request body is not valid JSON', -32700);
+          return;
+        }
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      const session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+      if (session) {
+        session.lastActivity = Date.now();
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided');
+        return;
+      }
+
+      const server = createServer();
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+        onsessioninitialized: (id) => {
+          sessions.set(id, { server, transport, lastActivity: Date.now() });
+          console.error(`Session ${id} opened (${sessions.size} active)`);
+        },
+      });
+
+      transport.onclose = () => {
+        if (transport.sessionId && sessions.delete(transport.sessionId)) {
+          console.error(`Session ${transport.sessionId} closed (${sessions.size} active)`);
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('HTTP request failed:', message);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, `Internal error: ${message}`);
+      }
+    }
+  });
+
+  const shutdown = async () => {
+    clearInterval(sweep);
+    for (const [id, session] of sessions) {
+      await closeSession(id, session);
+    }
+    httpServer.close(() => process.exit(0));
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => resolve());
+  });
+
+  return httpServer;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code = -32000) {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
@@ -4,13 +4,20 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { getApiDocumentation } from './tools/api-docs.js';
 import { searchCodeExamples } from './tools/code-examples.js';
 import { explainConcept } from './tools/concepts.js';
-import { getComponentSchema } from './tools/components.js';
+import { search } from './tools/search.js';
+import type { SearchDocType } from './lib/search-index.js';
+import { generateComponent, getComponentSchema } from './tools/components.js';
 import { generateSystemTemplate, getSystemInfo } from './tools/systems.js';
 import { getSetupGuide } from './tools/setup.js';
 import { findImplementationPattern } from './tools/patterns.js';
@@ -19,521 +26,832 @@ import { getBestPractices } from './tools/best-practices.js';
 import { scaffoldProject } from './tools/scaffolding.js';
 import { explainAssetPipeline } from './tools/assets.js';
 import { troubleshootError } from './tools/troubleshooting.js';
-import { composeFeature, validateCode, findSimilarCode } from './tools/code-generation.js';
+import { composeFeature, validateCode, fixCode, typecheckCode, validateProject, validateUIKitML, findSimilarCode } from './tools/code-generation.js';
+import type { DiagnosticsFormat } from './lib/diagnostics.js';
 import { getValidationRulesForComponent, checkComponentOrder, getTroubleshootingHelp } from './tools/validation.js';
+import { listResources, readResource, resourceTemplates } from './resources.js';
+import { listPrompts, getPrompt } from './prompts.js';
+import { startHttpServer } from './http.js';
+import { loadEnhancedCache } from './lib/cache-loader.js';
+import { allowModuleRules } from './lib/custom-rules.js';
+import { allowProjectAccess } from './lib/project-access.js';
 import { logToolCall } from './telemetry.js';
 
-const server = new Server(
-  {
-    name: 'iwsdk-mcp',
-    version: '0.1.0',
-  },
-  {
-    capabilities: {
-      tools: {},
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'iwsdk-mcp',
+      version: '0.1.0',
     },
-  }
-);
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: 'get_api_documentation',
-        description:
-          'Query API documentation for specific IWSDK classes, methods, or components. Returns exact API signatures, parameters, return types, and descriptions.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            packageName: {
-              type: 'string',
-              description: 'The IWSDK package name (e.g., @iwsdk/core, @iwsdk/xr-input)',
-            },
-            className: {
-              type: 'string',
-              description: 'The class or component name to look up',
-            },
-            methodName: {
-              type: 'string',
-              description: 'Optional: specific method to query',
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [
+        {
+          name: 'get_api_documentation',
+          description:
+            'Query API documentation for specific IWSDK classes, methods, or components. Returns exact API signatures, parameters, return types, and descriptions.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              packageName: {
+                type: 'string',
+                description: 'The IWSDK package name (e.g., @iwsdk/core, @iwsdk/xr-input)',
+              },
+              className: {
+                type: 'string',
+                description: 'The class or component name to look up',
+              },
+              methodName: {
+                type: 'string',
+                description: 'Optional: specific method to query',
+              },
             },
+            required: ['packageName', 'className'],
           },
-          required: ['packageName', 'className'],
         },
-      },
-      {
-        name: 'search_code_examples',
-        description:
-          'Find relevant code examples from official IWSDK documentation. Returns annotated code snippets with explanations.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            feature: {
-              type: 'string',
-              description: 'Feature or keyword to search for (e.g., "grabbing", "locomotion", "spatial UI")',
-            },
-            category: {
-              type: 'string',
-              enum: ['component', 'system', 'interaction', 'setup', 'any'],
-              description: 'Category of code example',
+        {
+          name: 'search_code_examples',
+          description:
+            'Find relevant code examples from official IWSDK documentation. Returns annotated code snippets with explanations.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              feature: {
+                type: 'string',
+                description: 'Feature or keyword to search for (e.g., "grabbing", "locomotion", "spatial UI")',
+              },
+              category: {
+                type: 'string',
+                enum: ['component', 'system', 'interaction', 'setup', 'any'],
+                description: 'Category of code example',
+              },
             },
+            required: ['feature'],
           },
-          required: ['feature'],
         },
-      },
-      {
-        name: 'explain_concept',
-        description:
-          'Get detailed explanations of IWSDK concepts including ECS architecture, locomotion, spatial UI, input handling, and more.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            concept: {
-              type: 'string',
-              enum: [
-                'ecs',
-                'entities',
-                'components',
-                'systems',
-                'queries',
-                'locomotion',
-                'slide',
-                'teleport',
-                'turn',
-                'spatial-ui',
-                'uikit',
-                'uikitml',
-                'input',
-                'controllers',
-                'hand-tracking',
-                'pointers',
-                'grabbing',
-                'physics',
-                'audio',
-                'scene-understanding',
-                'glxf',
-                'three-js-integration',
-              ],
-              description: 'The concept to explain',
+        {
+          name: 'search',
+          description:
+            'Ranked full-text search across all ingested IWSDK data: components, systems, types, examples, guides and common mistakes. Returns typed hits with relevance scores and snippets.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Natural language or keyword query (e.g., "grab a ball with two hands")',
+              },
+              types: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: ['component', 'system', 'type', 'example', 'guide', 'mistake'],
+                },
+                description: 'Optional: restrict results to these kinds of records',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of results (default 10)',
+              },
             },
+            required: ['query'],
           },
-          required: ['concept'],
         },
-      },
-      {
-        name: 'get_component_schema',
-        description:
-          'Get the exact schema definition for an IWSDK component including field names, types, and default values.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            componentName: {
-              type: 'string',
-              description: 'Name of the component (e.g., Interactable, Health, PhysicsBody)',
+        {
+          name: 'explain_concept',
+          description:
+            'Get detailed explanations of IWSDK concepts including ECS architecture, locomotion, spatial UI, input handling, and more.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              concept: {
+                type: 'string',
+                enum: [
+                  'ecs',
+                  'entities',
+                  'components',
+                  'systems',
+                  'queries',
+                  'locomotion',
+                  'slide',
+                  'teleport',
+                  'turn',
+                  'spatial-ui',
+                  'uikit',
+                  'uikitml',
+                  'input',
+                  'controllers',
+                  'hand-tracking',
+                  'pointers',
+                  'grabbing',
+                  'physics',
+                  'audio',
+                  'scene-understanding',
+                  'glxf',
+                  'three-js-integration',
+                ],
+                description: 'The concept to explain',
+              },
             },
+            required: ['concept'],
           },
-          required: ['componentName'],
         },
-      },
-      {
-        name: 'generate_system_template',
-        description:
-          'Generate TypeScript boilerplate code for creating a custom ECS system with proper typing and query setup.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            systemName: {
-              type: 'string',
-              description: 'Name for the system (e.g., HealthRegenSystem)',
+        {
+          name: 'get_component_schema',
+          description:
+            'Get the exact schema definition for an IWSDK component including field names, types, and default values.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              componentName: {
+                type: 'string',
+                description: 'Name of the component (e.g., Interactable, Health, PhysicsBody)',
+              },
             },
-            queries: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  name: {
-                    type: 'string',
-                    description: 'Query name',
-                  },
-                  required: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Required components',
+            required: ['componentName'],
+          },
+        },
+        {
+          name: 'generate_system_template',
+          description:
+            'Generate TypeScript boilerplate for a custom ECS system from the ingested createSystem signature and lifecycle methods: IWSDK component imports, qualify/disqualify query subscriptions and reactive config signals.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              systemName: {
+                type: 'string',
+                description: 'Name for the system (e.g., HealthRegenSystem)',
+              },
+              queries: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: {
+                      type: 'string',
+                      description: 'Query name',
+                    },
+                    required: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Required components',
+                    },
+                    excluded: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Excluded components',
+                    },
                   },
-                  excluded: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Excluded components',
+                  required: ['name', 'required'],
+                },
+                description: 'Entity queries for the system',
+              },
+              configFields: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: { type: 'string' },
+                    type: { type: 'string' },
+                    default: {},
                   },
+                  required: ['name', 'type'],
                 },
-                required: ['name', 'required'],
+                description: 'Configuration fields for the system',
               },
-              description: 'Entity queries for the system',
             },
-            configFields: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  name: { type: 'string' },
-                  type: { type: 'string' },
-                  default: {},
+            required: ['systemName', 'queries'],
+          },
+        },
+        {
+          name: 'generate_component',
+          description:
+            'Generate a createComponent() definition for a custom ECS component from typed fields (Types.*), defaults, enum options and docs, plus the matching ComponentSchema record.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              componentName: {
+                type: 'string',
+                description: 'Name for the component (e.g., Health)',
+              },
+              description: {
+                type: 'string',
+                description: 'What the component represents; becomes its JSDoc and createComponent() description',
+              },
+              category: {
+                type: 'string',
+                description: 'JSDoc @category for the component and its enums (e.g., Gameplay)',
+              },
+              fields: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: { type: 'string' },
+                    type: {
+                      type: 'string',
+                      description: 'Field type, e.g. Float32, Vec3, Boolean or Types.Enum',
+                    },
+                    default: {
+                      description: 'Default value; for enums a member name or value',
+                    },
+                    description: {
+                      type: 'string',
+                      description: 'Field documentation',
+                    },
+                    enumName: {
+                      type: 'string',
+                      description: 'Name of the enum object for Enum fields (defaults to the field name in PascalCase)',
+                    },
+                    options: {
+                      description: 'Enum options: a list of values, or an object of member -> value',
+                    },
+                  },
+                  required: ['name', 'type'],
                 },
-                required: ['name', 'type'],
+                description: 'Component fields',
               },
-              description: 'Configuration fields for the system',
             },
+            required: ['componentName', 'fields'],
           },
-          required: ['systemName', 'queries'],
         },
-      },
-      {
-        name: 'get_setup_guide',
-        description:
-          'Get step-by-step instructions for setting up an IWSDK project including commands and configuration.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectType: {
-              type: 'string',
-              enum: ['basic', 'vr', 'ar', 'interactive', 'multiplayer'],
-              description: 'Type of project to set up',
+        {
+          name: 'get_setup_guide',
+          description:
+            'Get step-by-step instructions for setting up an IWSDK project including commands and configuration.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              projectType: {
+                type: 'string',
+                enum: ['basic', 'vr', 'ar', 'interactive', 'multiplayer'],
+                description: 'Type of project to set up',
+              },
             },
+            required: ['projectType'],
           },
-          required: ['projectType'],
         },
-      },
-      {
-        name: 'find_implementation_pattern',
-        description:
-          'Get complete implementation guides for common IWSDK features with example code and configuration.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            feature: {
-              type: 'string',
-              enum: [
-                'grabbing',
-                'locomotion',
-                'spatial-ui',
-                'audio',
-                'physics',
-                'input-handling',
-                'scene-loading',
-                'custom-component',
-                'custom-system',
-              ],
-              description: 'Feature to implement',
+        {
+          name: 'find_implementation_pattern',
+          description:
+            'Get complete implementation guides for common IWSDK features with example code and configuration.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              feature: {
+                type: 'string',
+                enum: [
+                  'grabbing',
+                  'locomotion',
+                  'spatial-ui',
+                  'audio',
+                  'physics',
+                  'input-handling',
+                  'scene-loading',
+                  'custom-component',
+                  'custom-system',
+                ],
+                description: 'Feature to implement',
+              },
             },
+            required: ['feature'],
           },
-          required: ['feature'],
         },
-      },
-      {
-        name: 'lookup_package_exports',
-        description:
-          'List all exported classes, functions, types, and components from a specific IWSDK package.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            packageName: {
-              type: 'string',
-              enum: ['@iwsdk/core', '@iwsdk/xr-input', '@iwsdk/glxf', '@iwsdk/locomotor'],
-              description: 'Package to query',
+        {
+          name: 'lookup_package_exports',
+          description:
+            'List all exported classes, functions, types, and components from a specific IWSDK package.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              packageName: {
+                type: 'string',
+                enum: ['@iwsdk/core', '@iwsdk/xr-input', '@iwsdk/glxf', '@iwsdk/locomotor'],
+                description: 'Package to query',
+              },
             },
+            required: ['packageName'],
           },
-          required: ['packageName'],
         },
-      },
-      {
-        name: 'get_best_practices',
-        description:
-          'Get recommended patterns and anti-patterns for IWSDK development including performance tips and common mistakes.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            topic: {
-              type: 'string',
-              enum: [
-                'performance',
-                'ecs-patterns',
-                'input-handling',
-                'state-management',
-                'asset-loading',
-                'testing',
-              ],
-              description: 'Topic for best practices',
+        {
+          name: 'get_best_practices',
+          description:
+            'Get recommended patterns and anti-patterns for IWSDK development including performance tips and common mistakes.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              topic: {
+                type: 'string',
+                enum: [
+                  'performance',
+                  'ecs-patterns',
+                  'input-handling',
+                  'state-management',
+                  'asset-loading',
+                  'testing',
+                ],
+                description: 'Topic for best practices',
+              },
             },
+            required: ['topic'],
           },
-          required: ['topic'],
         },
-      },
-      {
-        name: 'scaffold_project',
-        description:
-          'Generate a complete IWSDK project structure including package.json, Vite config, TypeScript setup, and starter code.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            template: {
-              type: 'string',
-              enum: ['minimal', 'interactive', 'locomotion', 'ui-demo', 'full-featured'],
-              description: 'Project template to use',
+        {
+          name: 'scaffold_project',
+          description:
+            'Generate a complete IWSDK project structure including package.json, Vite config, TypeScript setup, and starter code.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              template: {
+                type: 'string',
+                enum: ['minimal', 'interactive', 'locomotion', 'ui-demo', 'full-featured', 'ar-placement', 'ar-scene'],
+                description: 'Project template to use. ui-demo (UIKitML panels), full-featured (grabbing, physics, locomotion, audio and UI), ar-placement (passthrough, hit-test placement, anchors) and ar-scene (plane and mesh detection) are multi-file projects generated against the ingested SDK version; the AR ones fall back to an emulated headset on desktop',
+              },
+              projectName: {
+                type: 'string',
+                description: 'Name for the project',
+              },
+              outputDir: {
+                type: 'string',
+                description: 'Directory to write the project into; without it the files are returned inline',
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'With outputDir: list what would be created, overwritten or patched without writing',
+                default: false,
+              },
+              force: {
+                type: 'boolean',
+                description: 'With outputDir: overwrite files that already exist',
+                default: false,
+              },
+              merge: {
+                type: 'boolean',
+                description: 'With outputDir: add IWSDK to an existing Vite project by patching package.json and the Vite config, keeping its other files',
+                default: false,
+              },
             },
-            projectName: {
-              type: 'string',
-              description: 'Name for the project',
+            required: ['template', 'projectName'],
+          },
+        },
+        {
+          name: 'explain_asset_pipeline',
+          description:
+            'Get guidance on GLXF/GLTF asset handling including import, optimization, and loading.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              assetType: {
+                type: 'string',
+                enum: ['glxf', 'gltf', 'texture', 'audio'],
+                description: 'Type of asset',
+              },
+              operation: {
+                type: 'string',
+                enum: ['import', 'optimize', 'load', 'runtime'],
+                description: 'Asset operation',
+              },
             },
+            required: ['assetType', 'operation'],
           },
-          required: ['template', 'projectName'],
         },
-      },
-      {
-        name: 'explain_asset_pipeline',
-        description:
-          'Get guidance on GLXF/GLTF asset handling including import, optimization, and loading.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            assetType: {
-              type: 'string',
-              enum: ['glxf', 'gltf', 'texture', 'audio'],
-              description: 'Type of asset',
+        {
+          name: 'troubleshoot_error',
+          description:
+            'Get diagnostic steps and solutions for common IWSDK errors and issues.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              errorMessage: {
+                type: 'string',
+                description: 'Error message or description of the issue',
+              },
             },
-            operation: {
-              type: 'string',
-              enum: ['import', 'optimize', 'load', 'runtime'],
-              description: 'Asset operation',
+            required: ['errorMessage'],
+          },
+        },
+        {
+          name: 'compose_feature',
+          description:
+            'Compose a complete feature implementation by providing all necessary components, systems, APIs, and complete working code. Best for requests like "add a grabbable ball", "create a clickable button", etc. Descriptions combining several features ("a grabbable ball that bounces with physics and shows its speed on a UI panel") are composed into one program.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              featureDescription: {
+                type: 'string',
+                description: 'Description of the feature to implement (e.g., "add a grabbable ball to the scene")',
+              },
             },
+            required: ['featureDescription'],
           },
-          required: ['assetType', 'operation'],
         },
-      },
-      {
-        name: 'troubleshoot_error',
-        description:
-          'Get diagnostic steps and solutions for common IWSDK errors and issues.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            errorMessage: {
-              type: 'string',
-              description: 'Error message or description of the issue',
+        {
+          name: 'validate_code',
+          description:
+            'Validate generated IWSDK code against best practices and common mistakes. Parses the code with the TypeScript compiler, resolves @iwsdk imports and aliases, and reports per-entity findings (unknown or hallucinated @iwsdk symbols, missing components and addComponent order violations, unknown component fields, wrong value types and enum values, components whose system is neither enabled by a World.create feature nor registered, per-frame allocations, component churn, entity creation, scene scans and console output in system update(), API misuse) with line and column numbers. Team-defined rules from .iwsdk-mcp/rules.json (or rules.ts / rules.mjs) in the project root run next to the built-in ones. Output is markdown by default, or JSON diagnostics / SARIF 2.1.0 with machine-applicable fix edits.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              code: {
+                type: 'string',
+                description: 'The IWSDK code to validate',
+              },
+              format: {
+                type: 'string',
+                enum: ['markdown', 'json', 'sarif'],
+                description: 'Output format: markdown report (default), JSON diagnostics with rule id, severity, range and fix, or SARIF 2.1.0',
+              },
+              fileName: {
+                type: 'string',
+                description: 'Path of the file the code comes from, used in JSON and SARIF locations (default: snippet.ts)',
+              },
+              projectRoot: {
+                type: 'string',
+                description: 'Directory to look for .iwsdk-mcp custom rules in, searching upwards (default: the server working directory)',
+              },
             },
+            required: ['code'],
           },
-          required: ['errorMessage'],
         },
-      },
-      {
-        name: 'compose_feature',
-        description:
-          'Compose a complete feature implementation by providing all necessary components, systems, APIs, and complete working code. Best for requests like "add a grabbable ball", "create a clickable button", etc.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            featureDescription: {
-              type: 'string',
-              description: 'Description of the feature to implement (e.g., "add a grabbable ball to the scene")',
+        {
+          name: 'fix_code',
+          description:
+            'Apply the automatic fixes validate_code suggests (createTransformEntity for entities with an Object3D, missing required components inserted before the components that need them, feature flags in World.create, renamed fields, symbols and enum values). Returns the patched code, a unified diff and the issues that still need manual attention.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              code: {
+                type: 'string',
+                description: 'The IWSDK code to fix',
+              },
+              fileName: {
+                type: 'string',
+                description: 'Path of the file the code comes from, used in the diff header (default: snippet.ts)',
+              },
             },
+            required: ['code'],
           },
-          required: ['featureDescription'],
         },
-      },
-      {
-        name: 'validate_code',
-        description:
-          'Validate generated IWSDK code against best practices and common mistakes. Checks for missing components, unregistered systems, and API misuse.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            code: {
-              type: 'string',
-              description: 'The IWSDK code to validate',
+        {
+          name: 'typecheck_code',
+          description:
+            'Type-check IWSDK code with the TypeScript compiler against the SDK declaration files captured at ingest. Catches wrong method names on World and Entity, bad argument types and wrong component data that pattern rules cannot see, without network access or a node_modules folder. Undeclared names like `world` or unimported @iwsdk/core exports are assumed in scope.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              code: {
+                type: 'string',
+                description: 'The IWSDK code to type-check',
+              },
+              format: {
+                type: 'string',
+                enum: ['markdown', 'json', 'sarif'],
+                description: 'Output format: markdown report (default), JSON diagnostics or SARIF 2.1.0',
+              },
+              fileName: {
+                type: 'string',
+                description: 'Path of the file the code comes from; a .tsx extension enables JSX (default: snippet.ts)',
+              },
             },
+            required: ['code'],
           },
-          required: ['code'],
         },
-      },
-      {
-        name: 'find_similar_code',
-        description:
-          'Find the most similar code examples to a given description. Returns top 3 most relevant examples with relevance scores.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            description: {
-              type: 'string',
-              description: 'Description of what you want to find code for',
+        {
+          name: 'validate_project',
+          description:
+            'Validate a whole IWSDK app on disk. Reads package.json, vite.config, index.html and every source file under src/, runs validate_code rules across files (World.create features versus components and systems used anywhere in the app) and checks the IWSDK version against the server data, HTTPS in the Vite config and the entry script and container element in index.html.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              projectRoot: {
+                type: 'string',
+                description: 'Absolute path to the project root (the directory containing package.json)',
+              },
             },
+            required: ['projectRoot'],
           },
-          required: ['description'],
         },
-      },
-      {
-        name: 'get_system_info',
-        description:
-          'Get detailed information about an IWSDK system including description, methods, properties, and which components it queries.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            systemName: {
-              type: 'string',
-              description: 'Name of the system (e.g., PhysicsSystem, GrabSystem, LocomotionSystem)',
+        {
+          name: 'validate_uikitml',
+          description:
+            'Validate UIKitML markup for spatial UI panels. Parses the markup, checks element names and style properties against the UIKit elements captured at ingest, confirms that the ids and classes the code queries with getElementById / querySelector exist, and returns a layout tree with estimated flexbox sizes. Pass the markup, the TypeScript that embeds it (e.g. a UIKitDocument source), or both.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              markup: {
+                type: 'string',
+                description: 'UIKitML markup to validate',
+              },
+              code: {
+                type: 'string',
+                description: 'TypeScript that queries the markup; markup in its string literals is validated when `markup` is omitted',
+              },
             },
           },
-          required: ['systemName'],
         },
-      },
-      {
-        name: 'get_validation_rules',
-        description:
-          'Get validation rules for a specific component or system. Returns checks that should be performed when using that component/system.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            componentOrSystem: {
-              type: 'string',
-              description: 'Component or system name to get validation rules for (optional - returns all rules if not specified)',
+        {
+          name: 'find_similar_code',
+          description:
+            'Find the most similar code examples to a given description. Returns top 3 most relevant examples with relevance scores.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              description: {
+                type: 'string',
+                description: 'Description of what you want to find code for',
+              },
             },
+            required: ['description'],
           },
         },
-      },
-      {
-        name: 'check_component_order',
-        description:
-          'Check the correct ordering for adding components. Returns which components must be added before or after the specified component.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            componentName: {
-              type: 'string',
-              description: 'Component name to check ordering for',
+        {
+          name: 'get_system_info',
+          description:
+            'Get detailed information about an IWSDK system including description, methods, properties, and which components it queries.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              systemName: {
+                type: 'string',
+                description: 'Name of the system (e.g., PhysicsSystem, GrabSystem, LocomotionSystem)',
+              },
             },
+            required: ['systemName'],
           },
-          required: ['componentName'],
         },
-      },
-      {
-        name: 'get_common_mistakes',
-        description:
-          'Search for common mistakes and troubleshooting help. Returns wrong/correct code examples for common IWSDK pitfalls.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            query: {
-              type: 'string',
-              description: 'Search query for common mistakes (e.g., "physics", "grabbable", "entity creation")',
+        {
+          name: 'get_validation_rules',
+          description:
+            'Get validation rules for a specific component or system. Returns checks that should be performed when using that component/system.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              componentOrSystem: {
+                type: 'string',
+                description: 'Component or system name to get validation rules for (optional - returns all rules if not specified)',
+              },
             },
           },
         },
-      },
-    ],
-  };
-});
+        {
+          name: 'check_component_order',
+          description:
+            'Check the correct ordering for adding components. Returns which components must be added before or after the specified component.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              componentName: {
+                type: 'string',
+                description: 'Component name to check ordering for',
+              },
+            },
+            required: ['componentName'],
+          },
+        },
+        {
+          name: 'get_common_mistakes',
+          description:
+            'Search for common mistakes and troubleshooting help. Returns wrong/correct code examples for common IWSDK pitfalls.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Search query for common mistakes (e.g., "physics", "grabbable", "entity creation")',
+              },
+            },
+          },
+        },
+      ],
+    };
+  });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    const { name, arguments: args } = request.params;
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    try {
+      const { name, arguments: args } = request.params;
 
-    if (!args) {
-      throw new Error('Missing arguments');
-    }
+      if (!args) {
+        throw new Error('Missing arguments');
+      }
+
+      // Log tool usage for telemetry
+      await logToolCall(name, args);
+
+      switch (name) {
+        case 'get_api_documentation':
+          return await getApiDocumentation(
+            args.packageName as string,
+            args.className as string,
+            args.methodName as string | undefined
+          );
+
+        case 'search_code_examples':
+          return await searchCodeExamples(
+            args.feature as string,
+            args.category as string | undefined
+          );
 
-    // Log tool usage for telemetry
-    await logToolCall(name, args);
+        case 'search':
+          return await search(
+            args.query as string,
+            args.types as SearchDocType[] | undefined,
+            args.limit as number | undefined
+          );
 
-    switch (name) {
-      case 'get_api_documentation':
-        return await getApiDocumentation(
-          args.packageName as string,
-          args.className as string,
-          args.methodName as string | undefined
-        );
+        case 'explain_concept':
+          return await explainConcept(args.concept as string);
 
-      case 'search_code_examples':
-        return await searchCodeExamples(
-          args.feature as string,
-          args.category as string | undefined
-        );
+        case 'get_component_schema':
+          return await getComponentSchema(args.componentName as string);
 
-      case 'explain_concept':
-        return await explainConcept(args.concept as string);
+        case 'generate_system_template':
+          return await generateSystemTemplate(
+            args.systemName as string,
+            args.queries as any[],
+            args.configFields as any[] | undefined
+          );
 
-      case 'get_component_schema':
-        return await getComponentSchema(args.componentName as string);
+        case 'generate_component':
+          return await generateComponent(
+            args.componentName as string,
+            args.fields as any[],
+            args.description as string | undefined,
+            args.category as string | undefined
+          );
 
-      case 'generate_system_template':
-        return await generateSystemTemplate(
-          args.systemName as string,
-          args.queries as any[],
-          args.configFields as any[] | undefined
-        );
+        case 'get_setup_guide':
+          return await getSetupGuide(args.projectType as string);
 
-      case 'get_setup_guide':
-        return await getSetupGuide(args.projectType as string);
+        case 'find_implementation_pattern':
+          return await findImplementationPattern(args.feature as string);
 
-      case 'find_implementation_pattern':
-        return await findImplementationPattern(args.feature as string);
+        case 'lookup_package_exports':
+          return await lookupPackageExports(args.packageName as string);
 
-      case 'lookup_package_exports':
-        return await lookupPackageExports(args.packageName as string);
+        case 'get_best_practices':
+          return await getBestPractices(args.topic as string);
 
-      case 'get_best_practices':
-        return await getBestPractices(args.topic as string);
+        case 'scaffold_project':
+          return await scaffoldProject(
+            args.template as string,
+            args.projectName as string,
+            {
+              outputDir: args.outputDir as string | undefined,
+              dryRun: args.dryRun as boolean | undefined,
+              force: args.force as boolean | undefined,
+              merge: args.merge as boolean | undefined,
+            }
+          );
 
-      case 'scaffold_project':
-        return await scaffoldProject(
-          args.template as string,
-          args.projectName as string
-        );
+        case 'explain_asset_pipeline':
+          return await explainAssetPipeline(
+            args.assetType as string,
+            args.operation as string
+          );
 
-      case 'explain_asset_pipeline':
-        return await explainAssetPipeline(
-          args.assetType as string,
-          args.operation as string
-        );
+        case 'troubleshoot_error':
+          return await troubleshootError(args.errorMessage as string);
 
-      case 'troubleshoot_error':
-        return await troubleshootError(args.errorMessage as string);
+        case 'compose_feature':
+          return await composeFeature(args.featureDescription as string);
 
-      case 'compose_feature':
-        return await composeFeature(args.featureDescription as string);
+        case 'validate_code':
+          return await validateCode(
+            args.code as string,
+            args.format as DiagnosticsFormat | undefined,
+            args.fileName as string | undefined,
+            args.projectRoot as string | undefined
+          );
 
-      case 'validate_code':
-        return await validateCode(args.code as string);
+        case 'fix_code':
+          return await fixCode(args.code as string, args.fileName as string | undefined);
 
-      case 'find_similar_code':
-        return await findSimilarCode(args.description as string);
+        case 'typecheck_code':
+          return await typecheckCode(
+            args.code as string,
+            args.format as DiagnosticsFormat | undefined,
+            args.fileName as string | undefined
+          );
 
-      case 'get_system_info':
-        return await getSystemInfo(args.systemName as string);
+        case 'validate_project':
+          return await validateProject(args.projectRoot as string);
 
-      case 'get_validation_rules':
-        return await getValidationRulesForComponent(args.componentOrSystem as string | undefined);
+        case 'validate_uikitml':
+          return await validateUIKitML(args.markup as string | undefined, args.code as string | undefined);
 
-      case 'check_component_order':
-        return await checkComponentOrder(args.componentName as string);
+        case 'find_similar_code':
+          return await findSimilarCode(args.description as string);
 
-      case 'get_common_mistakes':
-        return await getTroubleshootingHelp(args.query as string | undefined);
+        case 'get_system_info':
+          return await getSystemInfo(args.systemName as string);
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+        case 'get_validation_rules':
+          return await getValidationRulesForComponent(args.componentOrSystem as string | undefined);
+
+        case 'check_component_order':
+          return await checkComponentOrder(args.componentName as string);
+
+        case 'get_common_mistakes':
+          return await getTroubleshootingHelp(args.query as string | undefined);
+
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+      };
     }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: ${errorMessage}`,
-        },
-      ],
-    };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return await listResources();
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return await readResource(request.params.uri);
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return listPrompts();
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return await getPrompt(request.params.name, request.params.arguments);
+  });
+
+  return server;
+}
+
+function parseHttpArgs(argv: string[]): {
+  port: number;
+  host: string;
+  allowedHosts: string[];
+  allowedOrigins: string[];
+  allowRuleModules: boolean;
+  allowProjectAccess: boolean;
+} | null {
+  const httpIndex = argv.indexOf('--http');
+  if (httpIndex === -1) {
+    return null;
   }
-});
+
+  const port = Number(argv[httpIndex + 1]);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error('Usage: iwsdk-mcp --http <port> [--host <host>] [--allowed-host <host:port>]... [--allowed-origin <origin>]... [--allow-rule-modules] [--allow-project-access]');
+  }
+
+  const hostIndex = argv.indexOf('--host');
+  const host = hostIndex !== -1 && argv[hostIndex + 1] ? argv[hostIndex + 1] : '127.0.0.1';
+  // Repeatable flags
+  const values = (flag: string) => argv.flatMap((arg, i) => (arg === flag && argv[i + 1] ? [argv[i + 1]] : []));
+
+  return {
+    port,
+    host,
+    allowedHosts: values('--allowed-host'),
+    allowedOrigins: values('--allowed-origin'),
+    allowRuleModules: argv.includes('--allow-rule-modules'),
+    allowProjectAccess: argv.includes('--allow-project-access'),
+  };
+}
 
 async function main() {
+  const httpArgs = parseHttpArgs(process.argv.slice(2));
+
+  if (httpArgs) {
+    allowModuleRules(httpArgs.allowRuleModules);
+    allowProjectAccess(httpArgs.allowProjectAccess);
+    // Load the read-only cache once up front so every session shares it
+    await loadEnhancedCache();
+    await startHttpServer(httpArgs.port, httpArgs.host, createServer, httpArgs);
+    console.error(`IWSDK MCP Server running on http://${httpArgs.host}:${httpArgs.port}/mcp`);
+    return;
+  }
+
+  // A stdio server only talks to the client that launched it
+  allowModuleRules(true);
+  allowProjectAccess(true);
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('IWSDK MCP Server running on stdio');
@@ -1,7 +1,10 @@
 import { readFile } from 'fs/promises';
-import { join, dirname } from 'path';
+import { existsSync } from 'fs';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
 import type { ApiDocumentation, CodeExample, ConceptDoc, ComponentSchema, PackageExports } from './types.js';
+import { searchIndex, type SearchIndex, type SearchDocType, type SearchHit } from './search-index.js';
+import { createLsaEmbedder, createOnnxEmbedder, searchVectors, type Embedder, type VectorStore, type VectorHit } from './embeddings.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -19,6 +22,8 @@ interface ComponentDefinition {
     type: string;
     default?: any;
     description?: string;
+    enum?: string;
+    enumValues?: Record<string, string | number>;
   }>;
   sourceCode: string;
   usageExamples: string[];
@@ -28,6 +33,8 @@ interface ComponentDefinition {
   coOccurrences: Record<string, number>;
   importPath: string;
   keywords: string[];
+  /** Marked @hideineditor or @internal: managed by systems, not added by apps */
+  internal?: boolean;
 }
 
 interface SystemDefinition {
@@ -116,6 +123,23 @@ interface CommonMistake {
   category: string;
 }
 
+interface WorldFeature {
+  name: string;
+  description: string;
+  /** Whether World.create turns the feature on when `features` leaves it out */
+  enabledByDefault: boolean;
+  systems: string[];
+  components: string[];
+}
+
+interface WorldFeatureMap {
+  features: Record<string, WorldFeature>;
+  /** Systems World.create registers whatever the feature flags say */
+  builtInSystems: string[];
+  /** System -> systems it registers itself, e.g. LocomotionSystem -> TurnSystem */
+  subsystems: Record<string, string[]>;
+}
+
 interface EnhancedCacheData {
   metadata: {
     ingestDate: string;
@@ -139,13 +163,8 @@ interface EnhancedCacheData {
   troubleshooting: {
     commonMistakes: CommonMistake[];
   };
-  packageExports: Record<string, {
-    classes: string[];
-    functions: string[];
-    types: string[];
-    components: string[];
-    systems: string[];
-  }>;
+  packageExports: Record<string, PackageExports>;
+  apiDocs: Record<string, Record<string, ApiDocumentation>>;
 }
 
 interface CacheData {
@@ -156,18 +175,46 @@ interface CacheData {
   packageExports: Record<string, PackageExports>;
 }
 
+interface UIKitElement {
+  /** UIKit class the element creates, e.g. Container */
+  component: string;
+  /** Properties the class accepts: layout, style and event handlers */
+  properties: string[];
+}
+
+interface UIKitSchema {
+  uikitVersion: string;
+  uikitmlVersion?: string;
+  /** UIKitML tag -> element */
+  elements: Record<string, UIKitElement>;
+}
+
 let enhancedCache: EnhancedCacheData | null = null;
 let cache: CacheData | null = null;
+let fullTextIndex: SearchIndex | null | undefined;
+let semanticIndex: { store: VectorStore; embedder: Embedder } | null | undefined;
+let worldFeatures: WorldFeatureMap | null = null;
+let uikitSchema: UIKitSchema | null | undefined;
+
+/**
+ * Directory of the ingested data. IWSDK_MCP_CACHE_DIR points the server at
+ * another one, e.g. the tests' fixture cache.
+ */
+export function getCacheDir(): string {
+  const override = process.env.IWSDK_MCP_CACHE_DIR;
+  return override ? resolve(override) : join(__dirname, '..', '..', 'cache');
+}
 
 export async function loadEnhancedCache(): Promise<EnhancedCacheData> {
   if (enhancedCache) {
     return enhancedCache;
   }
 
-  const cacheDir = join(__dirname, '..', '..', 'cache');
+  const cacheDir = getCacheDir();
+  const apiDocsPath = join(cacheDir, 'api-docs.json');
 
-  // Load all split cache files
-  const [metadata, components, systems, types, examples, relationships, commonMistakes, exports] = await Promise.all([
+  // Load all split cache files; caches ingested before api-docs.json existed have no API docs
+  const [metadata, components, systems, types, examples, relationships, commonMistakes, exports, apiDocs] = await Promise.all([
     readFile(join(cacheDir, 'metadata.json'), 'utf-8').then(JSON.parse),
     readFile(join(cacheDir, 'components.json'), 'utf-8').then(JSON.parse),
     readFile(join(cacheDir, 'systems.json'), 'utf-8').then(JSON.parse),
@@ -175,7 +222,8 @@ export async function loadEnhancedCache(): Promise<EnhancedCacheData> {
     readFile(join(cacheDir, 'examples.json'), 'utf-8').then(JSON.parse),
     readFile(join(cacheDir, 'relationships.json'), 'utf-8').then(JSON.parse),
     readFile(join(cacheDir, 'common-mistakes.json'), 'utf-8').then(JSON.parse),
-    readFile(join(cacheDir, 'exports.json'), 'utf-8').then(JSON.parse)
+    readFile(join(cacheDir, 'exports.json'), 'utf-8').then(JSON.parse),
+    existsSync(apiDocsPath) ? readFile(apiDocsPath, 'utf-8').then(JSON.parse) : {}
   ]);
 
   // Reconstruct enhanced cache from split files
@@ -197,12 +245,132 @@ export async function loadEnhancedCache(): Promise<EnhancedCacheData> {
     troubleshooting: {
       commonMistakes
     },
-    packageExports: exports
+    packageExports: exports,
+    apiDocs
   };
 
   return enhancedCache!;
 }
 
+/**
+ * Directory of the .d.ts files captured at ingest for typecheck_code.
+ */
+export function getDeclarationsDir(): string {
+  return join(getCacheDir(), 'types');
+}
+
+/**
+ * World.create feature flags and the systems they register. Caches ingested
+ * before the map existed get an empty one.
+ */
+export async function getWorldFeatures(): Promise<WorldFeatureMap> {
+  if (worldFeatures) {
+    return worldFeatures;
+  }
+
+  const path = join(getCacheDir(), 'world-features.json');
+  worldFeatures = existsSync(path)
+    ? JSON.parse(await readFile(path, 'utf-8')) as WorldFeatureMap
+    : { features: {}, builtInSystems: [], subsystems: {} };
+
+  return worldFeatures!;
+}
+
+/**
+ * UIKitML elements captured from @pmndrs/uikit, or null when the SDK's
+ * dependencies were not installed at ingest.
+ */
+export async function getUIKitSchema(): Promise<UIKitSchema | null> {
+  if (uikitSchema !== undefined) {
+    return uikitSchema;
+  }
+
+  const path = join(getCacheDir(), 'uikit.json');
+  uikitSchema = existsSync(path) ? JSON.parse(await readFile(path, 'utf-8')) as UIKitSchema : null;
+
+  return uikitSchema;
+}
+
+/**
+ * Load the full-text search index. Returns null for caches ingested before
+ * the index was added.
+ */
+export async function loadSearchIndex(): Promise<SearchIndex | null> {
+  if (fullTextIndex !== undefined) {
+    return fullTextIndex;
+  }
+
+  const path = join(getCacheDir(), 'search-index.json');
+  fullTextIndex = existsSync(path)
+    ? JSON.parse(await readFile(path, 'utf-8')) as SearchIndex
+    : null;
+
+  return fullTextIndex;
+}
+
+export async function searchCache(
+  query: string,
+  options: { types?: SearchDocType[]; limit?: number } = {}
+): Promise<SearchHit[]> {
+  const index = await loadSearchIndex();
+  if (!index) {
+    throw new Error('The cache has no search index (search-index.json). Re-run scripts/ingest-source.ts to build it.');
+  }
+  return searchIndex(index, query, options);
+}
+
+/**
+ * Load the semantic vector store. The ONNX vectors are used when they were
+ * ingested and the model can still be loaded; otherwise the LSA vectors.
+ * Returns null when the cache has neither.
+ */
+export async function loadVectorStore(): Promise<{ store: VectorStore; embedder: Embedder } | null> {
+  if (semanticIndex !== undefined) {
+    return semanticIndex;
+  }
+
+  const cacheDir = getCacheDir();
+  const onnxStorePath = join(cacheDir, 'vectors-onnx.json');
+
+  if (existsSync(onnxStorePath)) {
+    const embedder = await createOnnxEmbedder(join(cacheDir, 'models'));
+    if (embedder) {
+      const store = JSON.parse(await readFile(onnxStorePath, 'utf-8')) as VectorStore;
+      semanticIndex = { store, embedder };
+      return semanticIndex;
+    }
+  }
+
+  const lsaStorePath = join(cacheDir, 'vectors.json');
+  if (!existsSync(lsaStorePath)) {
+    semanticIndex = null;
+    return semanticIndex;
+  }
+
+  const store = JSON.parse(await readFile(lsaStorePath, 'utf-8')) as VectorStore;
+  semanticIndex = { store, embedder: createLsaEmbedder(store.model!) };
+
+  return semanticIndex;
+}
+
+export async function semanticSearch(
+  query: string,
+  options: { types?: SearchDocType[]; limit?: number } = {}
+): Promise<VectorHit[]> {
+  const semantic = await loadVectorStore();
+  if (!semantic) {
+    return [];
+  }
+
+  const { store, embedder } = semantic;
+  const [vector] = await embedder.embed([query]);
+
+  return searchVectors(store, vector, {
+    prefix: options.types?.map(type => `${type}:`),
+    limit: options.limit
+  });
+}
+
 export async function loadCache(): Promise<CacheData> {
   if (cache) {
     return cache;
@@ -229,11 +397,11 @@ export async function loadCache(): Promise<CacheData> {
   }));
 
   cache = {
-    apiDocs: {},
+    apiDocs: enhanced.apiDocs,
     codeExamples,
     concepts: {},
     componentSchemas,
-    packageExports: enhanced.packageExports as any
+    packageExports: enhanced.packageExports
   };
 
   return cache!;
@@ -244,7 +412,19 @@ export async function getApiDoc(
   className: string
 ): Promise<ApiDocumentation | null> {
   const data = await loadCache();
-  return data.apiDocs[packageName]?.[className] || null;
+  const doc = data.apiDocs[packageName]?.[className];
+  if (doc) {
+    return doc;
+  }
+
+  // Fall back to other packages when the class was looked up under the wrong one
+  for (const docs of Object.values(data.apiDocs)) {
+    if (docs[className]) {
+      return docs[className];
+    }
+  }
+
+  return null;
 }
 
 export async function searchExamples(
@@ -252,20 +432,27 @@ export async function searchExamples(
   category?: string
 ): Promise<CodeExample[]> {
   const data = await loadCache();
-  const lowerQuery = query.toLowerCase();
-
-  return data.codeExamples.filter((example) => {
-    const matchesQuery =
-      example.title.toLowerCase().includes(lowerQuery) ||
-      example.description.toLowerCase().includes(lowerQuery) ||
-      example.tags.some((tag) => tag.toLowerCase().includes(lowerQuery)) ||
-      example.code.toLowerCase().includes(lowerQuery);
+  const matchesCategory = (example: CodeExample) =>
+    !category || category === 'any' || example.category === category;
+
+  // Caches ingested before the search index fall back to substring matching
+  if (!(await loadSearchIndex())) {
+    const lowerQuery = query.toLowerCase();
+    return data.codeExamples.filter(example =>
+      matchesCategory(example) && (
+        example.title.toLowerCase().includes(lowerQuery) ||
+        example.description.toLowerCase().includes(lowerQuery) ||
+        example.tags.some(tag => tag.toLowerCase().includes(lowerQuery)) ||
+        example.code.toLowerCase().includes(lowerQuery)
+      )
+    );
+  }
 
-    const matchesCategory =
-      !category || category === 'any' || example.category === category;
+  const hits = await searchCache(query, { types: ['example'], limit: data.codeExamples.length });
 
-    return matchesQuery && matchesCategory;
-  });
+  return hits
+    .map(hit => data.codeExamples[Number(hit.id.slice('example:'.length))])
+    .filter(example => example && matchesCategory(example));
 }
 
 export async function getConcept(concept: string): Promise<ConceptDoc | null> {
@@ -287,6 +474,14 @@ export async function getPackageExports(
   return data.packageExports[packageName] || null;
 }
 
+/**
+ * Alternative export names across all packages, e.g. Interactable -> RayInteractable.
+ */
+export async function getSymbolAliases(): Promise<Record<string, string>> {
+  const data = await loadEnhancedCache();
+  return Object.assign({}, ...Object.values(data.packageExports).map(exports => exports.aliases || {}));
+}
+
 export async function getAllCodeExamples(): Promise<CodeExample[]> {
   const data = await loadCache();
   return data.codeExamples;
@@ -294,12 +489,12 @@ export async function getAllCodeExamples(): Promise<CodeExample[]> {
 
 export async function getComponent(name: string): Promise<ComponentDefinition | null> {
   const cache = await loadEnhancedCache();
-  return cache.components[name] || null;
+  return Object.hasOwn(cache.components, name) ? cache.components[name] : null;
 }
 
 export async function getSystem(name: string): Promise<SystemDefinition | null> {
   const cache = await loadEnhancedCache();
-  return cache.systems[name] || null;
+  return Object.hasOwn(cache.systems, name) ? cache.systems[name] : null;
 }
 
 export async function getAllComponents(): Promise<ComponentDefinition[]> {
@@ -351,14 +546,23 @@ export async function getCommonMistakes(category?: string): Promise<CommonMistak
 
 export async function searchCommonMistakes(query: string): Promise<CommonMistake[]> {
   const cache = await loadEnhancedCache();
-  const lowerQuery = query.toLowerCase();
+  const mistakes = cache.troubleshooting.commonMistakes;
+
+  if (!(await loadSearchIndex())) {
+    const lowerQuery = query.toLowerCase();
+    return mistakes.filter(
+      m =>
+        m.title.toLowerCase().includes(lowerQuery) ||
+        m.description.toLowerCase().includes(lowerQuery) ||
+        m.category.toLowerCase().includes(lowerQuery)
+    );
+  }
 
-  return cache.troubleshooting.commonMistakes.filter(
-    m =>
-      m.title.toLowerCase().includes(lowerQuery) ||
-      m.description.toLowerCase().includes(lowerQuery) ||
-      m.category.toLowerCase().includes(lowerQuery)
-  );
+  const hits = await searchCache(query, { types: ['mistake'], limit: mistakes.length });
+
+  return hits
+    .map(hit => mistakes.find(m => `mistake:${m.id}` === hit.id))
+    .filter((m): m is CommonMistake => m !== undefined);
 }
 
 export async function getRelationships() {
@@ -368,8 +572,7 @@ export async function getRelationships() {
 
 export async function getComponentRequirements(componentName: string): Promise<string[]> {
   const cache = await loadEnhancedCache();
-  const component = cache.components[componentName];
-  return component?.requires || [];
+  return Object.hasOwn(cache.components, componentName) ? cache.components[componentName].requires || [] : [];
 }
 
 export async function getSystemComponents(systemName: string): Promise<string[]> {
@@ -378,4 +581,4 @@ export async function getSystemComponents(systemName: string): Promise<string[]>
   return system?.queriesComponents || [];
 }
 
-export { ComponentDefinition, SystemDefinition, TypeDefinition, ExampleCode, ValidationRule, OrderingConstraint, CommonMistake, Relationship, ComponentPattern };
+export { ComponentDefinition, SystemDefinition, TypeDefinition, ExampleCode, ValidationRule, OrderingConstraint, CommonMistake, Relationship, ComponentPattern, WorldFeature, WorldFeatureMap, UIKitElement, UIKitSchema };
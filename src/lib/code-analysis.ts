@@ -0,0 +1,601 @@
+/**
+ * Static analysis of IWSDK code snippets with the TypeScript compiler API.
+ *
+ * `analyzeCode` parses a snippet (no type checking) and extracts the facts the
+ * validation rules need: imports and their aliases, entity variables and the
+ * components added to each, registered systems and the World.create options.
+ */
+
+import * as ts from 'typescript';
+
+export interface SourceLocation {
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  endLine: number;
+  endColumn: number;
+  /** 0-based character offsets into the snippet */
+  start: number;
+  end: number;
+}
+
+export interface ImportBinding {
+  /** Name used in the snippet */
+  local: string;
+  /** Exported name, '*' for namespace imports and 'default' for default imports */
+  imported: string;
+  module: string;
+  typeOnly: boolean;
+  location: SourceLocation;
+  /** Location of the exported name token (the part before `as`, if aliased) */
+  importedLocation: SourceLocation;
+  /** Location of the module specifier string, quotes included */
+  moduleLocation: SourceLocation;
+}
+
+export interface ResolvedSymbol {
+  /** Exported name when the symbol is imported, otherwise the identifier text */
+  name: string;
+  /** Module the symbol is imported from, undefined when it is not imported */
+  module?: string;
+}
+
+export interface ComponentUsage {
+  entity: string;
+  component: ResolvedSymbol;
+  method: 'addComponent' | 'removeComponent';
+  /** Second argument of addComponent, if any */
+  data?: ts.Expression;
+  call: ts.CallExpression;
+  location: SourceLocation;
+}
+
+export interface EntityInfo {
+  name: string;
+  createdBy: 'createEntity' | 'createTransformEntity' | null;
+  creation?: ts.CallExpression;
+  location?: SourceLocation;
+  components: ComponentUsage[];
+  object3DAccesses: SourceLocation[];
+  /** Properties like onClick assigned or read on the entity */
+  handlers: string[];
+}
+
+export interface SystemRegistration {
+  system: ResolvedSymbol;
+  call: ts.CallExpression;
+  location: SourceLocation;
+}
+
+export interface FeatureSetting {
+  name: string;
+  /** 'object' when the feature is configured with an options object */
+  value: 'true' | 'false' | 'object' | 'unknown';
+  node: ts.ObjectLiteralElementLike;
+  location: SourceLocation;
+}
+
+export interface WorldCreateCall {
+  call: ts.CallExpression;
+  options?: ts.ObjectLiteralExpression;
+  features?: ts.ObjectLiteralExpression;
+  featureSettings: Record<string, FeatureSetting>;
+  location: SourceLocation;
+}
+
+export interface SystemClass {
+  name: string;
+  node: ts.ClassLikeDeclaration;
+  /** Body of the per-frame `update(delta, time)`, as a method or arrow property */
+  update?: ts.ConciseBody;
+  location: SourceLocation;
+}
+
+export interface MeshCreation {
+  node: ts.NewExpression;
+  variable: string | null;
+  addedToScene: boolean;
+  location: SourceLocation;
+}
+
+export interface ParseError {
+  message: string;
+  location: SourceLocation;
+}
+
+export interface CodeAnalysis {
+  code: string;
+  sourceFile: ts.SourceFile;
+  imports: ImportBinding[];
+  entities: Map<string, EntityInfo>;
+  componentUsages: ComponentUsage[];
+  systemRegistrations: SystemRegistration[];
+  worldCreate: WorldCreateCall | null;
+  /** Classes that extend createSystem(...) */
+  systemClasses: SystemClass[];
+  meshes: MeshCreation[];
+  /** Resolved names of every identifier used in code (comments and strings excluded) */
+  referencedNames: Set<string>;
+  /** Local identifier -> every place it is referenced outside import statements */
+  references: Map<string, SourceLocation[]>;
+  /** Variables, functions and classes declared in the snippet itself */
+  localDeclarations: Set<string>;
+  syntaxErrors: ParseError[];
+}
+
+const ENTITY_FACTORIES = new Set(['createEntity', 'createTransformEntity']);
+const COMPONENT_METHODS = new Set(['addComponent', 'removeComponent']);
+const SCENE_ATTACH_METHODS = new Set(['add', 'attach', 'createTransformEntity']);
+
+export function isIwsdkModule(module: string | undefined): boolean {
+  return module !== undefined && module.startsWith('@iwsdk/');
+}
+
+export function getLocation(sourceFile: ts.SourceFile, node: ts.Node): SourceLocation {
+  return locationFromRange(sourceFile, node.getStart(sourceFile), node.getEnd());
+}
+
+function locationFromRange(sourceFile: ts.SourceFile, start: number, end: number): SourceLocation {
+  const startPos = sourceFile.getLineAndCharacterOfPosition(start);
+  const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+
+  return {
+    line: startPos.line + 1,
+    column: startPos.character + 1,
+    endLine: endPos.line + 1,
+    endColumn: endPos.character + 1,
+    start,
+    end,
+  };
+}
+
+export function analyzeCode(code: string, fileName = 'snippet.ts'): CodeAnalysis {
+  const scriptKind = /\.[jt]sx$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, scriptKind);
+
+  const analysis: CodeAnalysis = {
+    code,
+    sourceFile,
+    imports: collectImports(sourceFile),
+    entities: new Map(),
+    componentUsages: [],
+    systemRegistrations: [],
+    worldCreate: null,
+    systemClasses: [],
+    meshes: [],
+    referencedNames: new Set(),
+    references: new Map(),
+    localDeclarations: new Set(),
+    syntaxErrors: collectSyntaxErrors(code, fileName, sourceFile),
+  };
+
+  // First pass: entity variables, so usages found later resolve to their creation
+  const visitDeclarations = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      registerEntityCreation(analysis, node.name.getText(sourceFile), node.initializer);
+    } else if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.EqualsToken
+    ) {
+      registerEntityCreation(analysis, node.left.getText(sourceFile), node.right);
+    }
+    ts.forEachChild(node, visitDeclarations);
+  };
+  visitDeclarations(sourceFile);
+
+  // Second pass: usages
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) {
+      return;
+    }
+
+    if (ts.isIdentifier(node)) {
+      if (isDeclarationName(node)) {
+        if (!ts.isPropertyAccessExpression(node.parent) && !ts.isPropertyAssignment(node.parent)) {
+          analysis.localDeclarations.add(node.text);
+        }
+      } else {
+        analysis.referencedNames.add(resolveSymbol(analysis, node)?.name ?? node.text);
+        const locations = analysis.references.get(node.text) || [];
+        locations.push(getLocation(sourceFile, node));
+        analysis.references.set(node.text, locations);
+      }
+    }
+
+    if (ts.isCallExpression(node)) {
+      visitCall(analysis, node);
+    }
+
+    if (ts.isNewExpression(node)) {
+      visitNew(analysis, node);
+    }
+
+    if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+      visitClass(analysis, node);
+    }
+
+    if (ts.isPropertyAccessExpression(node)) {
+      visitPropertyAccess(analysis, node);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  markMeshesAddedToScene(analysis);
+
+  return analysis;
+}
+
+function collectImports(sourceFile: ts.SourceFile): ImportBinding[] {
+  const imports: ImportBinding[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+
+    const module = statement.moduleSpecifier.text;
+    const moduleLocation = getLocation(sourceFile, statement.moduleSpecifier);
+    const clause = statement.importClause;
+    if (!clause) continue;
+
+    if (clause.name) {
+      imports.push({
+        local: clause.name.text,
+        imported: 'default',
+        module,
+        typeOnly: clause.isTypeOnly,
+        location: getLocation(sourceFile, clause.name),
+        importedLocation: getLocation(sourceFile, clause.name),
+        moduleLocation,
+      });
+    }
+
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings)) {
+      imports.push({
+        local: bindings.name.text,
+        imported: '*',
+        module,
+        typeOnly: clause.isTypeOnly,
+        location: getLocation(sourceFile, bindings.name),
+        importedLocation: getLocation(sourceFile, bindings.name),
+        moduleLocation,
+      });
+    } else if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        imports.push({
+          local: element.name.text,
+          imported: (element.propertyName ?? element.name).text,
+          module,
+          typeOnly: clause.isTypeOnly || element.isTypeOnly,
+          location: getLocation(sourceFile, element),
+          importedLocation: getLocation(sourceFile, element.propertyName ?? element.name),
+          moduleLocation,
+        });
+      }
+    }
+  }
+
+  return imports;
+}
+
+function collectSyntaxErrors(code: string, fileName: string, sourceFile: ts.SourceFile): ParseError[] {
+  const output = ts.transpileModule(code, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext, jsx: ts.JsxEmit.Preserve },
+  });
+
+  return (output.diagnostics || []).map(diagnostic => {
+    const start = diagnostic.start ?? 0;
+    return {
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      location: locationFromRange(sourceFile, start, start + (diagnostic.length ?? 0)),
+    };
+  });
+}
+
+/**
+ * Resolve an identifier or namespace access (`IWSDK.Interactable`) to the name
+ * it was imported as.
+ */
+export function resolveSymbol(analysis: CodeAnalysis, expression: ts.Expression): ResolvedSymbol | null {
+  const node = skipWrappers(expression);
+
+  if (ts.isIdentifier(node)) {
+    const binding = analysis.imports.find(i => i.local === node.text);
+    if (!binding || binding.imported === '*') {
+      return { name: node.text, module: binding?.module };
+    }
+    return { name: binding.imported, module: binding.module };
+  }
+
+  if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression)) {
+    const namespace = node.expression.text;
+    const binding = analysis.imports.find(i => i.local === namespace && i.imported === '*');
+    if (binding) {
+      return { name: node.name.text, module: binding.module };
+    }
+  }
+
+  return null;
+}
+
+export function skipWrappers(expression: ts.Expression): ts.Expression {
+  let node = expression;
+  while (
+    ts.isParenthesizedExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isTypeAssertionExpression(node) ||
+    ts.isAwaitExpression(node)
+  ) {
+    node = node.expression;
+  }
+  return node;
+}
+
+function isDeclarationName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+    (ts.isPropertyAssignment(parent) && parent.name === node) ||
+    ((ts.isVariableDeclaration(parent) ||
+      ts.isFunctionDeclaration(parent) ||
+      ts.isClassDeclaration(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isParameter(parent) ||
+      ts.isBindingElement(parent) ||
+      ts.isEnumDeclaration(parent) ||
+      ts.isInterfaceDeclaration(parent) ||
+      ts.isTypeAliasDeclaration(parent) ||
+      ts.isPropertyDeclaration(parent)) &&
+      parent.name === node)
+  );
+}
+
+function methodName(call: ts.CallExpression): string | null {
+  const callee = skipWrappers(call.expression);
+  if (ts.isPropertyAccessExpression(callee)) {
+    return callee.name.text;
+  }
+  return null;
+}
+
+/**
+ * Follow an addComponent chain (`world.createTransformEntity().addComponent(A)`)
+ * down to the call that created the entity.
+ */
+function chainRoot(expression: ts.Expression): ts.Expression {
+  let node = skipWrappers(expression);
+  while (ts.isCallExpression(node) && COMPONENT_METHODS.has(methodName(node) || '')) {
+    node = skipWrappers((skipWrappers(node.expression) as ts.PropertyAccessExpression).expression);
+  }
+  return node;
+}
+
+function registerEntityCreation(analysis: CodeAnalysis, name: string, initializer: ts.Expression) {
+  const root = chainRoot(initializer);
+  if (!ts.isCallExpression(root)) return;
+
+  const factory = methodName(root);
+  if (!factory || !ENTITY_FACTORIES.has(factory)) return;
+
+  const entity = ensureEntity(analysis, name);
+  entity.createdBy = factory as EntityInfo['createdBy'];
+  entity.creation = root;
+  entity.location = getLocation(analysis.sourceFile, root);
+}
+
+function ensureEntity(analysis: CodeAnalysis, name: string): EntityInfo {
+  let entity = analysis.entities.get(name);
+  if (!entity) {
+    entity = { name, createdBy: null, components: [], object3DAccesses: [], handlers: [] };
+    analysis.entities.set(name, entity);
+  }
+  return entity;
+}
+
+/**
+ * Name of the entity an expression refers to: a variable or property path, or
+ * the variable an inline creation call is assigned to.
+ */
+function entityName(analysis: CodeAnalysis, expression: ts.Expression): string {
+  const root = chainRoot(expression);
+  const sourceFile = analysis.sourceFile;
+
+  if (ts.isCallExpression(root)) {
+    for (const entity of analysis.entities.values()) {
+      if (entity.creation === root) {
+        return entity.name;
+      }
+    }
+
+    const factory = methodName(root);
+    const name = `<entity at line ${getLocation(sourceFile, root).line}>`;
+    if (factory && ENTITY_FACTORIES.has(factory) && !analysis.entities.has(name)) {
+      const entity = ensureEntity(analysis, name);
+      entity.createdBy = factory as EntityInfo['createdBy'];
+      entity.creation = root;
+      entity.location = getLocation(sourceFile, root);
+    }
+    return name;
+  }
+
+  return root.getText(sourceFile);
+}
+
+function visitCall(analysis: CodeAnalysis, call: ts.CallExpression) {
+  const method = methodName(call);
+  const callee = skipWrappers(call.expression);
+  const sourceFile = analysis.sourceFile;
+
+  if (method && COMPONENT_METHODS.has(method) && call.arguments.length > 0) {
+    const receiver = (callee as ts.PropertyAccessExpression).expression;
+    const name = entityName(analysis, receiver);
+    const component = resolveSymbol(analysis, call.arguments[0]) ?? {
+      name: call.arguments[0].getText(sourceFile),
+    };
+
+    const usage: ComponentUsage = {
+      entity: name,
+      component,
+      method: method as ComponentUsage['method'],
+      data: call.arguments[1],
+      call,
+      location: getLocation(sourceFile, call.arguments[0]),
+    };
+
+    analysis.componentUsages.push(usage);
+    ensureEntity(analysis, name).components.push(usage);
+    return;
+  }
+
+  if (method === 'registerSystem' && call.arguments.length > 0) {
+    analysis.systemRegistrations.push({
+      system: resolveSymbol(analysis, call.arguments[0]) ?? { name: call.arguments[0].getText(sourceFile) },
+      call,
+      location: getLocation(sourceFile, call.arguments[0]),
+    });
+    return;
+  }
+
+  if (method === 'create' && ts.isPropertyAccessExpression(callee)) {
+    const target = resolveSymbol(analysis, callee.expression);
+    if (target?.name === 'World' && (!target.module || isIwsdkModule(target.module))) {
+      analysis.worldCreate = parseWorldCreate(analysis, call);
+    }
+  }
+}
+
+function parseWorldCreate(analysis: CodeAnalysis, call: ts.CallExpression): WorldCreateCall {
+  const sourceFile = analysis.sourceFile;
+  const optionsArg = call.arguments[1] ? skipWrappers(call.arguments[1]) : undefined;
+  const options = optionsArg && ts.isObjectLiteralExpression(optionsArg) ? optionsArg : undefined;
+
+  const result: WorldCreateCall = {
+    call,
+    options,
+    featureSettings: {},
+    location: getLocation(sourceFile, call),
+  };
+
+  const featuresProperty = options?.properties.find(
+    p => ts.isPropertyAssignment(p) && p.name.getText(sourceFile) === 'features'
+  ) as ts.PropertyAssignment | undefined;
+
+  if (featuresProperty && ts.isObjectLiteralExpression(featuresProperty.initializer)) {
+    result.features = featuresProperty.initializer;
+
+    for (const property of featuresProperty.initializer.properties) {
+      const name = property.name?.getText(sourceFile);
+      if (!name) continue;
+
+      let value: FeatureSetting['value'] = 'unknown';
+      if (ts.isPropertyAssignment(property)) {
+        const initializer = skipWrappers(property.initializer);
+        if (initializer.kind === ts.SyntaxKind.TrueKeyword) value = 'true';
+        else if (initializer.kind === ts.SyntaxKind.FalseKeyword) value = 'false';
+        else if (ts.isObjectLiteralExpression(initializer)) value = 'object';
+      }
+
+      result.featureSettings[name] = {
+        name,
+        value,
+        node: property,
+        location: getLocation(sourceFile, property),
+      };
+    }
+  }
+
+  return result;
+}
+
+function visitClass(analysis: CodeAnalysis, node: ts.ClassLikeDeclaration) {
+  const base = node.heritageClauses
+    ?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)
+    ?.types[0]?.expression;
+  if (!base || !ts.isCallExpression(base)) return;
+
+  const factory = resolveSymbol(analysis, base.expression);
+  if (factory?.name !== 'createSystem' || (factory.module && !isIwsdkModule(factory.module))) return;
+
+  let update: ts.ConciseBody | undefined;
+  for (const member of node.members) {
+    if (member.name?.getText(analysis.sourceFile) !== 'update') continue;
+    if (ts.isMethodDeclaration(member) && member.body) {
+      update = member.body;
+    } else if (
+      ts.isPropertyDeclaration(member) &&
+      member.initializer &&
+      (ts.isArrowFunction(member.initializer) || ts.isFunctionExpression(member.initializer))
+    ) {
+      update = member.initializer.body;
+    }
+  }
+
+  analysis.systemClasses.push({
+    name: node.name?.text ?? '<anonymous system>',
+    node,
+    update,
+    location: getLocation(analysis.sourceFile, node.name ?? node),
+  });
+}
+
+function visitNew(analysis: CodeAnalysis, node: ts.NewExpression) {
+  const constructor = resolveSymbol(analysis, node.expression);
+  const isMesh =
+    (constructor?.name === 'Mesh' && constructor.module === 'three') ||
+    node.expression.getText(analysis.sourceFile) === 'THREE.Mesh';
+  if (!isMesh) return;
+
+  const parent = node.parent;
+  const variable = ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name) ? parent.name.text : null;
+
+  analysis.meshes.push({
+    node,
+    variable,
+    // An inline `new Mesh()` passed straight to a call is attached by that call
+    addedToScene: ts.isCallExpression(parent) && SCENE_ATTACH_METHODS.has(methodName(parent) || ''),
+    location: getLocation(analysis.sourceFile, node),
+  });
+}
+
+function visitPropertyAccess(analysis: CodeAnalysis, node: ts.PropertyAccessExpression) {
+  const property = node.name.text;
+  if (property !== 'object3D' && !/^on[A-Z]/.test(property)) return;
+
+  const name = entityName(analysis, node.expression);
+  const entity = analysis.entities.get(name);
+  if (!entity) return;
+
+  if (property === 'object3D') {
+    entity.object3DAccesses.push(getLocation(analysis.sourceFile, node));
+  } else {
+    entity.handlers.push(property);
+  }
+}
+
+function markMeshesAddedToScene(analysis: CodeAnalysis) {
+  const attached = new Set<string>();
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && SCENE_ATTACH_METHODS.has(methodName(node) || '')) {
+      for (const arg of node.arguments) {
+        const value = skipWrappers(arg);
+        if (ts.isIdentifier(value)) {
+          attached.add(value.text);
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(analysis.sourceFile);
+
+  for (const mesh of analysis.meshes) {
+    if (mesh.variable && attached.has(mesh.variable)) {
+      mesh.addedToScene = true;
+    }
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Applies the text edits attached to validation findings and renders the
+ * result as a unified diff.
+ */
+
+import { validateSource, type Finding, type TextEdit } from './code-validator.js';
+
+// A fix can expose new findings (a renamed component now needs its requirements)
+const MAX_FIX_PASSES = 3;
+const DIFF_CONTEXT_LINES = 3;
+
+export interface FixResult {
+  original: string;
+  code: string;
+  /** Findings whose fix was applied, in the pass they were applied */
+  applied: Finding[];
+  /** Findings still reported by the fixed code */
+  remaining: Finding[];
+}
+
+function sameEdit(a: TextEdit, b: TextEdit): boolean {
+  return a.start === b.start && a.end === b.end && a.newText === b.newText;
+}
+
+function overlaps(a: TextEdit, b: TextEdit): boolean {
+  if (a.start === a.end && b.start === b.end) {
+    return a.start === b.start;
+  }
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Apply edits to `code`. Offsets refer to the original text; insertions at the
+ * same offset keep the order they are given in.
+ */
+export function applyEdits(code: string, edits: TextEdit[]): string {
+  const ordered = edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) =>
+      b.edit.start - a.edit.start ||
+      (b.edit.end - b.edit.start) - (a.edit.end - a.edit.start) ||
+      b.index - a.index
+    );
+
+  let result = code;
+  for (const { edit } of ordered) {
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Pick the fixes that can be applied together. Identical edits from different
+ * findings (two grabbables needing the same Interactable) are applied once; a
+ * fix that conflicts with an earlier one waits for the next pass.
+ */
+function selectFixes(findings: Finding[]): { fixes: Finding[]; edits: TextEdit[] } {
+  const fixes: Finding[] = [];
+  const edits: TextEdit[] = [];
+
+  for (const finding of findings) {
+    if (!finding.fix || finding.fix.edits.length === 0) continue;
+
+    const added = finding.fix.edits.filter(edit => !edits.some(existing => sameEdit(existing, edit)));
+    if (added.length === 0) continue;
+    if (added.some(edit => edits.some(existing => overlaps(existing, edit)))) continue;
+
+    fixes.push(finding);
+    edits.push(...added);
+  }
+
+  return { fixes, edits };
+}
+
+export async function fixSource(code: string, fileName?: string): Promise<FixResult> {
+  const applied: Finding[] = [];
+  let current = code;
+
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    const { findings } = await validateSource(current, fileName);
+    const { fixes, edits } = selectFixes(findings);
+    if (fixes.length === 0) break;
+
+    current = applyEdits(current, edits);
+    applied.push(...fixes);
+  }
+
+  const { findings: remaining } = await validateSource(current, fileName);
+  return { original: code, code: current, applied, remaining };
+}
+
+type DiffLine = { kind: ' ' | '-' | '+'; text: string; oldLine: number; newLine: number };
+
+/**
+ * Line diff from the longest common subsequence of the two texts.
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const n = before.length;
+  const m = after.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      lines.push({ kind: ' ', text: before[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ kind: '-', text: before[i], oldLine: i + 1, newLine: j });
+      i++;
+    } else {
+      lines.push({ kind: '+', text: after[j], oldLine: i, newLine: j + 1 });
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Unified diff of two versions of a file, empty when they are identical.
+ */
+export function createUnifiedDiff(before: string, after: string, fileName = 'snippet.ts'): string {
+  if (before === after) return '';
+
+  const lines = diffLines(before.split('\n'), after.split('\n'));
+  const changed = lines.map((line, index) => (line.kind !== ' ' ? index : -1)).filter(index => index >= 0);
+
+  // Group changes whose context windows touch into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - DIFF_CONTEXT_LINES);
+    const end = Math.min(lines.length - 1, index + DIFF_CONTEXT_LINES);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  let diff = `--- a/${fileName}\n+++ b/${fileName}\n`;
+  for (const [start, end] of hunks) {
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter(line => line.kind !== '+').length;
+    const newCount = hunk.filter(line => line.kind !== '-').length;
+    const first = hunk[0];
+    const oldStart = first.kind === '+' ? first.oldLine + 1 : first.oldLine;
+    const newStart = first.kind === '-' ? first.newLine + 1 : first.newLine;
+
+    diff += `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@\n`;
+    diff += hunk.map(line => `${line.kind}${line.text}`).join('\n') + '\n';
+  }
+
+  return diff;
+}
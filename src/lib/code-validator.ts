@@ -0,0 +1,1639 @@
+/**
+ * Validation rules for IWSDK code, run over the facts collected by
+ * `analyzeCode`. Each rule returns findings anchored to a line and column of
+ * the snippet and, where it applies, to the entity variable involved.
+ */
+
+import * as ts from 'typescript';
+import {
+  analyzeCode,
+  getLocation,
+  isIwsdkModule,
+  resolveSymbol,
+  skipWrappers,
+  type CodeAnalysis,
+  type ComponentUsage,
+  type ImportBinding,
+  type SourceLocation,
+  type SystemClass,
+  type WorldCreateCall,
+} from './code-analysis.js';
+import {
+  getComponent,
+  getComponentRequirements,
+  getOrderingConstraints,
+  getSymbolAliases,
+  getWorldFeatures,
+  loadEnhancedCache,
+  type ComponentDefinition,
+  type WorldFeature,
+} from './cache-loader.js';
+import type { PackageExports } from './types.js';
+import { closestMatch, levenshtein } from './suggestions.js';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+export interface TextEdit {
+  /** 0-based character offsets into the snippet */
+  start: number;
+  end: number;
+  newText: string;
+}
+
+export interface Finding {
+  ruleId: string;
+  severity: Severity;
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  entity?: string;
+  fix?: {
+    description: string;
+    edits: TextEdit[];
+  };
+}
+
+export interface ValidationResult {
+  analysis: CodeAnalysis;
+  findings: Finding[];
+}
+
+/**
+ * A rule checks one file. `project` holds the analyses of every file validated
+ * together (just `analysis` for a snippet), for checks that span files.
+ */
+export type Rule = (analysis: CodeAnalysis, project: CodeAnalysis[]) => Promise<Finding[]> | Finding[];
+
+/** Short description of every rule id, used by the JSON and SARIF outputs */
+export const RULE_DESCRIPTIONS: Record<string, string> = {
+  'syntax-error': 'The code does not parse',
+  'unknown-iwsdk-module': 'Import from an @iwsdk package that does not exist',
+  'unknown-iwsdk-symbol': 'Import of a name the @iwsdk package does not export',
+  'wrong-iwsdk-package': 'Import of a name from the wrong @iwsdk package',
+  'deprecated-iwsdk-symbol': 'Use of a deprecated @iwsdk export',
+  'unknown-component': 'addComponent() with a component that does not exist',
+  'unknown-system': 'registerSystem() with a system that does not exist',
+  'not-a-component': 'addComponent() with something that is not a component',
+  'not-a-system': 'registerSystem() with something that is not a system',
+  'create-entity-object3d': 'object3D accessed on an entity created with createEntity()',
+  'missing-required-component': 'Component added without the components it requires',
+  'component-order': 'Component added before a component it requires',
+  'unknown-component-field': 'Component data with a field the schema does not define',
+  'internal-component-field': 'Component data setting an internal field',
+  'component-field-type': 'Component field value of the wrong type',
+  'invalid-enum-value': 'Enum field value that is not a member of its enum',
+  'feature-not-enabled': 'Component whose system needs a World.create feature that is off',
+  'system-not-registered': 'Component whose system is neither enabled by a feature nor registered',
+  'mesh-not-added': 'THREE.Mesh created but never added to the scene',
+  'interactable-without-interaction': 'Interactable entity that nothing reacts to',
+  'prefer-locomotion-feature': 'LocomotionSystem registered by hand instead of the locomotion feature',
+  'allocation-in-update': 'Three.js object allocated in a system update()',
+  'component-churn-in-update': 'addComponent/removeComponent in a system update()',
+  'entity-creation-in-update': 'Entity created in a system update()',
+  'entity-scan-in-update': 'Scene graph walk, query creation or hasComponent filtering in a system update()',
+  'console-in-update': 'console output in a system update()',
+};
+
+const CORE_PACKAGE = '@iwsdk/core';
+const GRAB_COMPONENTS = ['OneHandGrabbable', 'TwoHandsGrabbable', 'DistanceGrabbable'];
+const INTERACTION_STATE_COMPONENTS = ['Hovered', 'Pressed', 'Grabbed'];
+
+// Per-frame checks for update() bodies
+const THREE_MATH_TYPES = new Set([
+  'Vector2', 'Vector3', 'Vector4', 'Quaternion', 'Euler', 'Matrix3', 'Matrix4',
+  'Color', 'Box3', 'Sphere', 'Plane', 'Ray', 'Raycaster', 'Spherical',
+]);
+const THREE_SCENE_TYPES = /^(Object3D|Group|Mesh|InstancedMesh|SkinnedMesh|Line|LineSegments|Points|Sprite|\w+Geometry|\w+Material|\w*Texture|\w+Light)$/;
+// Calls that put a reused math object back in the state `new X()` gives it
+const MATH_RESETS: Record<string, string> = {
+  Vector2: 'set(0, 0)', Vector3: 'set(0, 0, 0)', Vector4: 'set(0, 0, 0, 1)',
+  Quaternion: 'identity()', Euler: 'set(0, 0, 0)', Matrix3: 'identity()', Matrix4: 'identity()',
+  Color: 'setRGB(1, 1, 1)', Box3: 'makeEmpty()', Sphere: 'makeEmpty()', Spherical: 'set(1, 0, 0)',
+};
+const SCENE_SCAN_METHODS = new Set(['traverse', 'traverseVisible', 'getObjectByName', 'getObjectById', 'getObjectByProperty', 'getObjectsByProperty']);
+const LOG_METHODS = new Set(['log', 'info', 'debug', 'trace', 'warn', 'table']);
+
+const INTEGER_TYPES = new Set(['Int8', 'Int16', 'Int32', 'Uint8', 'Uint16', 'Uint32']);
+const NUMBER_TYPES = new Set([...INTEGER_TYPES, 'Float32', 'Float64']);
+const STRING_TYPES = new Set(['String', 'FilePath']);
+const VECTOR_LENGTHS: Record<string, number> = { Vec2: 2, Vec3: 3, Vec4: 4, Color: 4 };
+
+// Requirements not always captured by relationship extraction
+const FALLBACK_REQUIREMENTS: Record<string, string[]> = {
+  PhysicsBody: ['PhysicsShape'],
+};
+
+function finding(
+  ruleId: string,
+  severity: Severity,
+  message: string,
+  location: SourceLocation,
+  extra: Partial<Pick<Finding, 'entity' | 'fix'>> = {}
+): Finding {
+  // A fix is what fix_code applies; when no edit could be built the message carries the advice
+  const { fix, ...rest } = extra;
+  return {
+    ruleId,
+    severity,
+    message,
+    line: location.line,
+    column: location.column,
+    endLine: location.endLine,
+    endColumn: location.endColumn,
+    ...rest,
+    ...(fix && fix.edits.length > 0 ? { fix } : {}),
+  };
+}
+
+/**
+ * A name plus its aliases in both directions: Interactable <-> RayInteractable.
+ */
+export function equivalentNames(name: string, aliases: Record<string, string>): string[] {
+  const names = [name];
+  if (Object.hasOwn(aliases, name)) {
+    names.push(aliases[name]);
+  }
+  for (const [alias, canonical] of Object.entries(aliases)) {
+    if (canonical === name) {
+      names.push(alias);
+    }
+  }
+  return names;
+}
+
+function registersSystem(project: CodeAnalysis[], name: string) {
+  return project.some(analysis => analysis.systemRegistrations.some(r => r.system.name === name));
+}
+
+function lineIndent(code: string, offset: number): string {
+  const lineStart = code.lastIndexOf('\n', offset - 1) + 1;
+  return code.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+/**
+ * How to refer to an @iwsdk/core export in the snippet, plus the edit that
+ * imports it when needed. Snippets without @iwsdk imports get the bare name.
+ */
+function importName(analysis: CodeAnalysis, name: string): { local: string; edits: TextEdit[] } {
+  const iwsdkImports = analysis.imports.filter(i => isIwsdkModule(i.module));
+  const existing = iwsdkImports.find(i => i.imported === name && !i.typeOnly);
+  if (existing) return { local: existing.local, edits: [] };
+
+  const namespace = iwsdkImports.find(i => i.imported === '*' && i.module === CORE_PACKAGE);
+  if (namespace) return { local: `${namespace.local}.${name}`, edits: [] };
+  if (iwsdkImports.length === 0) return { local: name, edits: [] };
+
+  const declarations = analysis.sourceFile.statements.filter(ts.isImportDeclaration);
+  const coreImport = declarations.find(d =>
+    ts.isStringLiteral(d.moduleSpecifier) &&
+    d.moduleSpecifier.text === CORE_PACKAGE &&
+    !d.importClause?.isTypeOnly &&
+    d.importClause?.namedBindings &&
+    ts.isNamedImports(d.importClause.namedBindings) &&
+    d.importClause.namedBindings.elements.length > 0
+  );
+
+  if (coreImport) {
+    const elements = (coreImport.importClause!.namedBindings as ts.NamedImports).elements;
+    const end = elements[elements.length - 1].getEnd();
+    return { local: name, edits: [{ start: end, end, newText: `, ${name}` }] };
+  }
+
+  const end = declarations[declarations.length - 1].getEnd();
+  return { local: name, edits: [{ start: end, end, newText: `\nimport { ${name} } from '${CORE_PACKAGE}';` }] };
+}
+
+/**
+ * Edits that add `component` to an entity just before an existing addComponent
+ * call: a new statement for `entity.addComponent(...)` statements, otherwise a
+ * link inserted into the chain.
+ */
+function addComponentEdits(analysis: CodeAnalysis, usage: ComponentUsage, component: string): TextEdit[] {
+  const callee = usage.call.expression;
+  if (!ts.isPropertyAccessExpression(callee)) return [];
+
+  const { local, edits } = importName(analysis, component);
+  const receiver = callee.expression;
+  const statement = usage.call.parent;
+
+  if (ts.isExpressionStatement(statement) && ts.isIdentifier(receiver)) {
+    const start = statement.getStart(analysis.sourceFile);
+    edits.push({
+      start,
+      end: start,
+      newText: `${receiver.text}.addComponent(${local});\n${lineIndent(analysis.code, start)}`,
+    });
+  } else {
+    edits.push({ start: receiver.getEnd(), end: receiver.getEnd(), newText: `.addComponent(${local})` });
+  }
+
+  return edits;
+}
+
+/**
+ * A function that takes an entity and adds components to it, like
+ * `function makeGrabbable(entity) { entity.addComponent(...) }`.
+ */
+interface HelperFunction {
+  name: string;
+  body: ts.Node;
+  parameters: string[];
+}
+
+/** One addComponent/removeComponent in the order it runs for an entity */
+interface OrderStep {
+  usage: ComponentUsage;
+  /** Outermost helper call the step runs through, when it runs inside a helper */
+  via?: ts.CallExpression;
+}
+
+function collectHelpers(sourceFile: ts.SourceFile): Map<string, HelperFunction> {
+  const helpers = new Map<string, HelperFunction>();
+  const parameterNames = (parameters: ts.NodeArray<ts.ParameterDeclaration>) =>
+    parameters.map(p => (ts.isIdentifier(p.name) ? p.name.text : ''));
+
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionDeclaration(node) && node.name && node.body) {
+      helpers.set(node.name.text, { name: node.name.text, body: node.body, parameters: parameterNames(node.parameters) });
+    } else if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer &&
+      (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer))
+    ) {
+      const fn = node.initializer;
+      helpers.set(node.name.text, { name: node.name.text, body: fn.body, parameters: parameterNames(fn.parameters) });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return helpers;
+}
+
+function within(node: ts.Node, scope: ts.Node): boolean {
+  return node.getStart() >= scope.getStart() && node.getEnd() <= scope.getEnd();
+}
+
+/**
+ * The component steps `name` goes through inside `scope`, in execution order,
+ * with helper calls that receive it expanded in place.
+ */
+function orderSteps(
+  analysis: CodeAnalysis,
+  helpers: Map<string, HelperFunction>,
+  name: string,
+  scope: ts.Node,
+  stack: HelperFunction[] = []
+): OrderStep[] {
+  // A helper parameter with the same name is a different variable
+  const shadowed = (node: ts.Node) =>
+    [...helpers.values()].some(h => h.parameters.includes(name) && within(node, h.body) && !stack.includes(h) && h.body !== scope);
+
+  const events: Array<{ position: number; steps: () => OrderStep[] }> = [];
+
+  for (const usage of analysis.componentUsages) {
+    if (usage.entity !== name || !within(usage.call, scope) || shadowed(usage.call)) continue;
+    // Chained calls run inner first, and the inner method name comes first in the text
+    const callee = skipWrappers(usage.call.expression) as ts.PropertyAccessExpression;
+    events.push({ position: callee.name.getStart(), steps: () => [{ usage }] });
+  }
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && !shadowed(node)) {
+      const helper = helpers.get(node.expression.text);
+      const index = node.arguments.findIndex(arg => skipWrappers(arg).getText() === name);
+
+      if (helper && index >= 0 && helper.parameters[index] && !stack.includes(helper)) {
+        const call = node;
+        events.push({
+          position: call.getStart(),
+          steps: () =>
+            orderSteps(analysis, helpers, helper.parameters[index], helper.body, [...stack, helper])
+              .map(step => ({ usage: step.usage, via: call })),
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(scope);
+
+  return events.sort((a, b) => a.position - b.position).flatMap(event => event.steps());
+}
+
+/**
+ * Edits that add `component` to an entity just before `step` runs: before the
+ * addComponent call, or before the helper call the step runs through.
+ */
+function addComponentBeforeEdits(analysis: CodeAnalysis, step: OrderStep, entity: string, component: string): TextEdit[] {
+  if (!step.via) return addComponentEdits(analysis, step.usage, component);
+
+  const statement = step.via.parent;
+  if (!ts.isExpressionStatement(statement) || !/^[A-Za-z_$][\w$]*$/.test(entity)) return [];
+
+  const { local, edits } = importName(analysis, component);
+  const start = statement.getStart(analysis.sourceFile);
+  edits.push({ start, end: start, newText: `${entity}.addComponent(${local});\n${lineIndent(analysis.code, start)}` });
+  return edits;
+}
+
+function stepLocation(analysis: CodeAnalysis, step: OrderStep): SourceLocation {
+  return step.via ? getLocation(analysis.sourceFile, step.via) : step.usage.location;
+}
+
+/**
+ * Everything added to an entity, with helpers expanded. A helper parameter
+ * that some call site fills is left to the callers, who know the rest of the
+ * entity; otherwise it is a sequence of its own.
+ */
+function entitySequences(analysis: CodeAnalysis, helpers: Map<string, HelperFunction>, name: string): OrderStep[][] {
+  const sequences = [orderSteps(analysis, helpers, name, analysis.sourceFile)];
+
+  for (const helper of helpers.values()) {
+    const index = helper.parameters.indexOf(name);
+    if (index < 0) continue;
+
+    if (!calledWith(analysis.sourceFile, helper, index)) {
+      sequences.push(orderSteps(analysis, helpers, name, helper.body, [helper]));
+    }
+  }
+
+  return sequences.filter(steps => steps.length > 0);
+}
+
+function calledWith(sourceFile: ts.SourceFile, helper: HelperFunction, index: number): boolean {
+  const visit = (node: ts.Node): boolean =>
+    (ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === helper.name &&
+      node.arguments.length > index) ||
+    !!ts.forEachChild(node, visit);
+  return visit(sourceFile);
+}
+
+/**
+ * Edits that add `name: value` to an object literal, on its own line when the
+ * literal is laid out one property per line.
+ */
+function addPropertyEdits(analysis: CodeAnalysis, literal: ts.ObjectLiteralExpression, property: string): TextEdit[] {
+  const sourceFile = analysis.sourceFile;
+  const last = literal.properties[literal.properties.length - 1];
+
+  if (!last) {
+    return [{ start: literal.getStart(sourceFile), end: literal.getEnd(), newText: `{ ${property} }` }];
+  }
+
+  const multiline = sourceFile.getLineAndCharacterOfPosition(last.getStart(sourceFile)).line !==
+    sourceFile.getLineAndCharacterOfPosition(literal.getStart(sourceFile)).line;
+  const separator = multiline ? `,\n${lineIndent(analysis.code, last.getStart(sourceFile))}` : ', ';
+  return [{ start: last.getEnd(), end: last.getEnd(), newText: `${separator}${property}` }];
+}
+
+/**
+ * Edits that turn a World.create feature on, creating the `features` object
+ * (and the options argument) when the call does not have them yet.
+ */
+function enableFeatureEdits(analysis: CodeAnalysis, feature: string): TextEdit[] {
+  const world = analysis.worldCreate;
+  if (!world) return [];
+
+  const setting = world.featureSettings[feature];
+  if (setting) {
+    const sourceFile = analysis.sourceFile;
+    return [{ start: setting.node.getStart(sourceFile), end: setting.node.getEnd(), newText: `${feature}: true` }];
+  }
+  if (world.features) {
+    return addPropertyEdits(analysis, world.features, `${feature}: true`);
+  }
+  if (world.options) {
+    return addPropertyEdits(analysis, world.options, `features: { ${feature}: true }`);
+  }
+
+  const args = world.call.arguments;
+  if (args.length !== 1) return [];
+  return [{ start: args[0].getEnd(), end: args[0].getEnd(), newText: `, { features: { ${feature}: true } }` }];
+}
+
+/** The `const x = ...` statement declaring `node`, if that is what it is part of */
+function declaringStatement(node: ts.Node): ts.VariableStatement | null {
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    if (ts.isVariableStatement(current)) return current;
+    if (ts.isStatement(current)) return null;
+  }
+  return null;
+}
+
+function insertAfterStatementEdits(analysis: CodeAnalysis, statement: ts.Statement, text: string): TextEdit[] {
+  const end = statement.getEnd();
+  return [{ start: end, end, newText: `\n${lineIndent(analysis.code, statement.getStart(analysis.sourceFile))}${text}` }];
+}
+
+/**
+ * How code at `node` reaches the World: `this.world` inside a system class,
+ * or the variable World.create() is assigned to in this file.
+ */
+function worldReference(analysis: CodeAnalysis, node: ts.Node): string | null {
+  if (analysis.systemClasses.some(system => system.node.pos <= node.pos && node.end <= system.node.end)) {
+    return 'this.world';
+  }
+
+  let current: ts.Node | undefined = analysis.worldCreate?.call;
+  while (current && (ts.isAwaitExpression(current.parent) || ts.isParenthesizedExpression(current.parent))) {
+    current = current.parent;
+  }
+  const declaration = current?.parent;
+  return declaration && ts.isVariableDeclaration(declaration) && ts.isIdentifier(declaration.name)
+    ? declaration.name.text
+    : null;
+}
+
+const syntaxErrors: Rule = (analysis) =>
+  analysis.syntaxErrors.map(error =>
+    finding('syntax-error', 'error', `Syntax error: ${error.message}`, error.location)
+  );
+
+const createEntityWithObject3D: Rule = (analysis) => {
+  const findings: Finding[] = [];
+
+  for (const entity of analysis.entities.values()) {
+    if (entity.createdBy !== 'createEntity' || entity.object3DAccesses.length === 0) continue;
+
+    const callee = entity.creation!.expression;
+    const nameLocation = getLocation(analysis.sourceFile, ts.isPropertyAccessExpression(callee) ? callee.name : callee);
+
+    findings.push(finding(
+      'create-entity-object3d',
+      'error',
+      `\`${entity.name}\` is created with createEntity() but its object3D is accessed - createEntity() entities have no Object3D`,
+      entity.object3DAccesses[0],
+      {
+        entity: entity.name,
+        fix: {
+          description: 'Use world.createTransformEntity() instead of world.createEntity()',
+          edits: [{ start: nameLocation.start, end: nameLocation.end, newText: 'createTransformEntity' }],
+        },
+      }
+    ));
+  }
+
+  return findings;
+};
+
+const interactableWithoutInteraction: Rule = async (analysis, project) => {
+  const findings: Finding[] = [];
+  // A system in another file may be the one reading Hovered/Pressed
+  const readsInteractionState = project.some(a => INTERACTION_STATE_COMPONENTS.some(name => a.referencedNames.has(name)));
+  const interactableNames = equivalentNames('Interactable', await getSymbolAliases());
+  const helpers = collectHelpers(analysis.sourceFile);
+
+  for (const entity of analysis.entities.values()) {
+    for (const steps of entitySequences(analysis, helpers, entity.name)) {
+      const interactable = steps.find(s => s.usage.method === 'addComponent' && interactableNames.includes(s.usage.component.name));
+      if (!interactable) continue;
+
+      const grabbable = steps.some(s => GRAB_COMPONENTS.includes(s.usage.component.name));
+      if (grabbable || entity.handlers.length > 0 || readsInteractionState) continue;
+
+      findings.push(finding(
+        'interactable-without-interaction',
+        'info',
+        `\`${entity.name}\` is ${interactable.usage.component.name} but nothing reacts to it - add a grabbing component or query Hovered/Pressed in a system`,
+        stepLocation(analysis, interactable),
+        { entity: entity.name }
+      ));
+    }
+  }
+
+  return findings;
+};
+
+const missingRequiredComponents: Rule = async (analysis) => {
+  const findings: Finding[] = [];
+  const aliases = await getSymbolAliases();
+  const helpers = collectHelpers(analysis.sourceFile);
+
+  for (const entity of analysis.entities.values()) {
+    for (const steps of entitySequences(analysis, helpers, entity.name)) {
+      const added = new Set(
+        steps
+          .filter(s => s.usage.method === 'addComponent')
+          .flatMap(s => equivalentNames(s.usage.component.name, aliases))
+      );
+      const missing: Array<{ step: OrderStep; required: string }> = [];
+      const checked = new Set<string>();
+
+      for (const step of steps) {
+        const component = step.usage.component.name;
+        if (step.usage.method !== 'addComponent' || checked.has(component)) continue;
+        checked.add(component);
+
+        const requirements = new Set<string>();
+        for (const name of equivalentNames(component, aliases)) {
+          for (const required of [...await getComponentRequirements(name), ...(Object.hasOwn(FALLBACK_REQUIREMENTS, name) ? FALLBACK_REQUIREMENTS[name] : [])]) {
+            // Name the current export, not a deprecated alias
+            requirements.add(aliases[required] ?? required);
+          }
+        }
+
+        for (const required of requirements) {
+          if (!equivalentNames(required, aliases).some(name => added.has(name))) {
+            missing.push({ step, required });
+          }
+        }
+      }
+
+      for (const { step, required } of missing) {
+        // Insert once, ahead of the first component that needs it, so the ordering constraint holds for all of them
+        const first = missing.find(m => m.required === required)!;
+        const component = step.usage.component.name;
+        const through = step.via ? ` (in ${step.via.expression.getText()}())` : '';
+
+        findings.push(finding(
+          'missing-required-component',
+          'error',
+          `\`${entity.name}\` has ${component}${through} but not ${required}, which ${component} requires`,
+          stepLocation(analysis, step),
+          {
+            entity: entity.name,
+            fix: {
+              description: `Add ${required} to \`${entity.name}\` before ${first.step.usage.component.name}`,
+              edits: addComponentBeforeEdits(analysis, first.step, entity.name, required),
+            },
+          }
+        ));
+      }
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * Edits that move a whole `entity.addComponent(...)` statement, line and all,
+ * in front of another statement.
+ */
+function moveStatementEdits(analysis: CodeAnalysis, moving: ts.Statement, target: ts.Statement): TextEdit[] {
+  const insert = {
+    start: target.getStart(),
+    end: target.getStart(),
+    newText: `${moving.getText()}\n${lineIndent(analysis.code, target.getStart())}`,
+  };
+
+  return [insert, ...removeStatementEdits(analysis, moving)];
+}
+
+/**
+ * Edit that deletes a statement, and its line when nothing else is on it.
+ */
+function removeStatementEdits(analysis: CodeAnalysis, statement: ts.Statement): TextEdit[] {
+  const code = analysis.code;
+  const start = statement.getStart();
+  const end = statement.getEnd();
+
+  // The body of an if, else or loop: deleting it would make the next
+  // statement the body, so leave an empty block in its place
+  const parent = statement.parent;
+  if (!ts.isBlock(parent) && !ts.isSourceFile(parent) && !ts.isCaseOrDefaultClause(parent) && !ts.isModuleBlock(parent)) {
+    return [{ start, end, newText: '{}' }];
+  }
+  const lineStart = code.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = code.indexOf('\n', end);
+  const ownLine = !code.slice(lineStart, start).trim() && !code.slice(end, lineEnd < 0 ? code.length : lineEnd).trim();
+
+  return [ownLine
+    ? { start: lineStart, end: lineEnd < 0 ? code.length : lineEnd + 1, newText: '' }
+    : { start, end, newText: '' }];
+}
+
+function standaloneStatement(usage: ComponentUsage): ts.ExpressionStatement | undefined {
+  const parent = usage.call.parent;
+  return ts.isExpressionStatement(parent) && ts.isIdentifier(skipWrappers((usage.call.expression as ts.PropertyAccessExpression).expression))
+    ? parent
+    : undefined;
+}
+
+const componentOrder: Rule = async (analysis) => {
+  const findings: Finding[] = [];
+  const [constraints, aliases] = await Promise.all([getOrderingConstraints(), getSymbolAliases()]);
+  const helpers = collectHelpers(analysis.sourceFile);
+
+  const sequences: Array<{ entity: string; steps: OrderStep[] }> = [];
+  for (const entity of analysis.entities.values()) {
+    sequences.push({ entity: entity.name, steps: orderSteps(analysis, helpers, entity.name, analysis.sourceFile) });
+    for (const helper of helpers.values()) {
+      if (helper.parameters.includes(entity.name)) {
+        sequences.push({ entity: entity.name, steps: orderSteps(analysis, helpers, entity.name, helper.body, [helper]) });
+      }
+    }
+  }
+
+  const reported = new Set<string>();
+  for (const { entity, steps } of sequences) {
+    const present = new Set<string>();
+
+    steps.forEach((step, index) => {
+      const component = step.usage.component.name;
+      if (step.usage.method === 'removeComponent') {
+        present.delete(component);
+        return;
+      }
+      present.add(component);
+
+      const names = equivalentNames(component, aliases);
+      for (const constraint of constraints.filter(c => names.includes(c.before))) {
+        const required = equivalentNames(constraint.after, aliases);
+        if (required.some(name => present.has(name))) continue;
+
+        // Never added at all is missing-required-component's finding
+        const later = steps.slice(index + 1).find(s => s.usage.method === 'addComponent' && required.includes(s.usage.component.name));
+        if (!later) continue;
+        // Both inside the same helper call: reported against the helper itself
+        if (step.via && later.via === step.via) continue;
+
+        const key = `${step.usage.call.getStart()}:${later.usage.call.getStart()}`;
+        if (reported.has(key)) continue;
+        reported.add(key);
+
+        const requiredName = later.usage.component.name;
+        const through = (s: OrderStep) => (s.via ? ` (in ${s.via.expression.getText()}())` : '');
+        const moving = later.via ? undefined : standaloneStatement(later.usage);
+        const target = step.via
+          ? (ts.isExpressionStatement(step.via.parent) ? step.via.parent : undefined)
+          : standaloneStatement(step.usage);
+
+        findings.push(finding(
+          'component-order',
+          'error',
+          `\`${entity}\` gets ${component}${through(step)} before ${requiredName}${through(later)} - ${component} requires ${requiredName} to be added first`,
+          stepLocation(analysis, step),
+          {
+            entity,
+            fix: {
+              description: `Add ${requiredName} before ${component}`,
+              edits: moving && target && moving.parent === target.parent ? moveStatementEdits(analysis, moving, target) : [],
+            },
+          }
+        ));
+      }
+    });
+  }
+
+  return findings;
+};
+
+type FieldValue =
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'boolean' }
+  /** `nonNumeric`: elements that are literals of another type; identifiers and expressions may be numbers */
+  | { kind: 'array'; length: number; nonNumeric: number }
+  | { kind: 'object' }
+  | { kind: 'null' }
+  | { kind: 'member'; object: string; member: string; node: ts.Node }
+  | { kind: 'unknown' };
+
+function describeValue(value: FieldValue): string {
+  switch (value.kind) {
+    case 'string': return `the string ${JSON.stringify(value.value)}`;
+    case 'number': return `the number ${value.value}`;
+    case 'boolean': return 'a boolean';
+    case 'array': return `an array of ${value.length}${value.nonNumeric > 0 ? ` with ${value.nonNumeric} non-numeric ${value.nonNumeric === 1 ? 'element' : 'elements'}` : ''}`;
+    case 'object': return 'an object';
+    case 'null': return 'null';
+    case 'member': return `${value.object}.${value.member}`;
+    default: return 'an unknown value';
+  }
+}
+
+function fieldValue(analysis: CodeAnalysis, expression: ts.Expression): FieldValue {
+  if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+    return { kind: 'string', value: expression.text };
+  }
+  if (ts.isTemplateExpression(expression)) {
+    return { kind: 'string', value: expression.getText(analysis.sourceFile) };
+  }
+  if (ts.isNumericLiteral(expression)) {
+    return { kind: 'number', value: Number(expression.text) };
+  }
+  if (
+    ts.isPrefixUnaryExpression(expression) &&
+    expression.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(expression.operand)
+  ) {
+    return { kind: 'number', value: -Number(expression.operand.text) };
+  }
+  if (ts.isIdentifier(expression) && expression.text === 'Infinity') {
+    return { kind: 'number', value: Infinity };
+  }
+  if (expression.kind === ts.SyntaxKind.TrueKeyword || expression.kind === ts.SyntaxKind.FalseKeyword) {
+    return { kind: 'boolean' };
+  }
+  if (expression.kind === ts.SyntaxKind.NullKeyword) {
+    return { kind: 'null' };
+  }
+  if (ts.isArrayLiteralExpression(expression)) {
+    // A spread hides the length
+    if (expression.elements.some(ts.isSpreadElement)) return { kind: 'unknown' };
+    const nonNumeric = expression.elements
+      .map(element => fieldValue(analysis, element).kind)
+      .filter(kind => !['number', 'member', 'unknown'].includes(kind)).length;
+    return { kind: 'array', length: expression.elements.length, nonNumeric };
+  }
+  if (ts.isObjectLiteralExpression(expression)) {
+    return { kind: 'object' };
+  }
+  if (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.expression)) {
+    const object = resolveSymbol(analysis, expression.expression)?.name ?? expression.expression.text;
+    return { kind: 'member', object, member: expression.name.text, node: expression.name };
+  }
+  return { kind: 'unknown' };
+}
+
+/**
+ * Check a value against a field's ECS type. Returns a problem description, or
+ * null when the value fits (or cannot be judged statically).
+ */
+function checkFieldValue(
+  field: ComponentDefinition['fields'][number],
+  value: FieldValue,
+  enumNames: Set<string>
+): { severity: Severity; message: string; replacement?: string } | null {
+  const label = `${field.type} field`;
+
+  if (value.kind === 'unknown' || value.kind === 'null') {
+    return null;
+  }
+
+  if (value.kind === 'member' && enumNames.has(value.object) && value.object !== field.enum) {
+    return { severity: 'error', message: `expects ${field.enum ? `a ${field.enum} value` : `a ${label}`} but got ${describeValue(value)}` };
+  }
+
+  if (field.type === 'Enum') {
+    const values = field.enumValues;
+    if (!values) return null;
+
+    if (value.kind === 'member' && value.object === field.enum) {
+      if (Object.hasOwn(values, value.member)) return null;
+      const suggestion = closestMatch(value.member, Object.keys(values));
+      return {
+        severity: 'error',
+        message: `has no member ${field.enum}.${value.member}${suggestion
+          ? ` - did you mean ${field.enum}.${suggestion}?`
+          : `. Values: ${Object.keys(values).map(key => `${field.enum}.${key}`).join(', ')}`}`,
+        replacement: suggestion ?? undefined,
+      };
+    }
+
+    if (value.kind === 'string' || value.kind === 'number') {
+      const member = Object.keys(values).find(key => values[key] === value.value);
+      if (member) {
+        return {
+          severity: 'warning',
+          message: `is set to a raw value - use ${field.enum}.${member} instead`,
+          replacement: `${field.enum}.${member}`,
+        };
+      }
+      const suggestion = value.kind === 'string'
+        ? closestMatch(value.value, [...Object.keys(values), ...Object.values(values).map(String)])
+        : null;
+      const suggestedMember = suggestion && (Object.hasOwn(values, suggestion) ? suggestion : Object.keys(values).find(key => String(values[key]) === suggestion));
+      return {
+        severity: 'error',
+        message: `must be one of ${Object.keys(values).map(key => `${field.enum}.${key}`).join(', ')} but got ${describeValue(value)}${suggestedMember ? ` - did you mean ${field.enum}.${suggestedMember}?` : ''}`,
+        replacement: suggestedMember ? `${field.enum}.${suggestedMember}` : undefined,
+      };
+    }
+
+    if (value.kind !== 'member') {
+      return { severity: 'error', message: `expects a ${field.enum ?? 'enum'} value but got ${describeValue(value)}` };
+    }
+    return null;
+  }
+
+  if (NUMBER_TYPES.has(field.type)) {
+    if (value.kind === 'number') {
+      if (INTEGER_TYPES.has(field.type) && Number.isFinite(value.value) && !Number.isInteger(value.value)) {
+        return { severity: 'warning', message: `is an ${label} - ${value.value} will be truncated` };
+      }
+      return null;
+    }
+    if (value.kind === 'string' && value.value.trim() !== '' && !Number.isNaN(Number(value.value))) {
+      return { severity: 'error', message: `is a ${label} but got ${describeValue(value)}`, replacement: String(Number(value.value)) };
+    }
+    return value.kind === 'member' ? null : { severity: 'error', message: `is a ${label} but got ${describeValue(value)}` };
+  }
+
+  if (field.type === 'Boolean') {
+    if (value.kind === 'boolean' || value.kind === 'member') return null;
+    if (value.kind === 'string' && (value.value === 'true' || value.value === 'false')) {
+      return { severity: 'error', message: `is a ${label} but got ${describeValue(value)}`, replacement: value.value };
+    }
+    return { severity: 'error', message: `is a ${label} but got ${describeValue(value)}` };
+  }
+
+  if (STRING_TYPES.has(field.type)) {
+    return value.kind === 'string' || value.kind === 'member'
+      ? null
+      : { severity: 'error', message: `is a ${label} but got ${describeValue(value)}` };
+  }
+
+  const length = VECTOR_LENGTHS[field.type];
+  if (length) {
+    if (value.kind === 'member' || value.kind === 'object') return null;
+    if (value.kind !== 'array' || value.nonNumeric > 0) {
+      return { severity: 'error', message: `is a ${label} and expects an array of ${length} numbers but got ${describeValue(value)}` };
+    }
+    if (value.length !== length) {
+      return { severity: 'error', message: `is a ${label} and expects ${length} numbers but got ${value.length}` };
+    }
+  }
+
+  return null;
+}
+
+const componentFieldValues: Rule = async (analysis) => {
+  const findings: Finding[] = [];
+  const sourceFile = analysis.sourceFile;
+  const cache = await loadEnhancedCache();
+  const enumNames = new Set(
+    Object.values(cache.components).flatMap(c => c.fields.map(f => f.enum).filter((e): e is string => !!e))
+  );
+
+  for (const usage of analysis.componentUsages) {
+    if (usage.method !== 'addComponent' || !usage.data || !ts.isObjectLiteralExpression(usage.data)) continue;
+
+    const component = await getComponent(usage.component.name)
+      ?? await getComponent((await getSymbolAliases())[usage.component.name] ?? '');
+    if (!component) continue;
+
+    const fields = new Map(component.fields.map(f => [f.name, f]));
+    const publicFields = component.fields.filter(f => !f.name.startsWith('_')).map(f => f.name);
+    const setFields = new Set(
+      usage.data.properties.flatMap(p => p.name ? [p.name.getText(sourceFile).replace(/['"]/g, '')] : [])
+    );
+
+    for (const property of usage.data.properties) {
+      if (!ts.isPropertyAssignment(property) && !ts.isShorthandPropertyAssignment(property)) continue;
+
+      const nameNode = property.name;
+      const name = nameNode.getText(sourceFile).replace(/['"]/g, '');
+      const nameLocation = getLocation(sourceFile, nameNode);
+      const field = fields.get(name);
+
+      if (!field) {
+        const suggestion = closestMatch(name, publicFields);
+        findings.push(finding(
+          'unknown-component-field',
+          'error',
+          `${component.name} has no field \`${name}\`${suggestion ? ` - did you mean \`${suggestion}\`?` : ''} Fields: ${publicFields.join(', ') || '(none)'}`,
+          nameLocation,
+          {
+            entity: usage.entity,
+            // Renaming onto a field that is already set would duplicate the key
+            fix: suggestion && !setFields.has(suggestion)
+              ? {
+                  description: `Rename \`${name}\` to \`${suggestion}\``,
+                  edits: ts.isShorthandPropertyAssignment(property)
+                    ? [{ start: nameLocation.start, end: nameLocation.end, newText: `${suggestion}: ${name}` }]
+                    : [{ start: nameLocation.start, end: nameLocation.end, newText: suggestion }],
+                }
+              : undefined,
+          }
+        ));
+        continue;
+      }
+
+      if (name.startsWith('_')) {
+        findings.push(finding(
+          'internal-component-field',
+          'warning',
+          `${component.name}.${name} is internal state managed by the SDK and should not be set`,
+          nameLocation,
+          { entity: usage.entity }
+        ));
+        continue;
+      }
+
+      if (!ts.isPropertyAssignment(property)) continue;
+
+      const value = fieldValue(analysis, property.initializer);
+      const problem = checkFieldValue(field, value, enumNames);
+      if (!problem) continue;
+
+      const valueLocation = getLocation(sourceFile, property.initializer);
+      const replacementLocation = value.kind === 'member' ? getLocation(sourceFile, value.node) : valueLocation;
+
+      findings.push(finding(
+        field.type === 'Enum' ? 'invalid-enum-value' : 'component-field-type',
+        problem.severity,
+        `${component.name}.${name} ${problem.message}`,
+        valueLocation,
+        {
+          entity: usage.entity,
+          fix: problem.replacement
+            ? {
+                description: `Use ${problem.replacement}`,
+                edits: [{ start: replacementLocation.start, end: replacementLocation.end, newText: problem.replacement }],
+              }
+            : undefined,
+        }
+      ));
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * Every name a package exports, including packages and resolved third-party
+ * modules it re-exports wholesale.
+ */
+function exportedNames(exports: PackageExports, packages: Record<string, PackageExports>, seen = new Set<string>()): string[] {
+  seen.add(exports.packageName);
+  const names = [
+    ...exports.classes,
+    ...exports.functions,
+    ...exports.types,
+    ...exports.components,
+    ...exports.systems,
+    ...(exports.values || []),
+    ...Object.keys(exports.aliases || {}),
+  ];
+
+  for (const module of exports.reexports || []) {
+    if (packages[module] && !seen.has(module)) {
+      names.push(...exportedNames(packages[module], packages, seen));
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Re-exported modules whose names are unknown, so a missing name may still be valid.
+ */
+function unresolvedReexports(exports: PackageExports, packages: Record<string, PackageExports>): string[] {
+  return (exports.reexports || []).filter(module => !packages[module] && !exports.external?.[module]);
+}
+
+/**
+ * Edits that rename a symbol everywhere in the snippet. An aliased import
+ * (`{ Foo as Bar }`) only needs the imported name changed.
+ */
+function renameEdits(analysis: CodeAnalysis, local: string, newName: string, binding?: ImportBinding): TextEdit[] {
+  if (binding && binding.local !== binding.imported) {
+    return [{ start: binding.importedLocation.start, end: binding.importedLocation.end, newText: newName }];
+  }
+
+  const edits: TextEdit[] = binding
+    ? [{ start: binding.importedLocation.start, end: binding.importedLocation.end, newText: newName }]
+    : [];
+  for (const location of analysis.references.get(local) || []) {
+    edits.push({ start: location.start, end: location.end, newText: newName });
+  }
+  return edits;
+}
+
+/**
+ * Edits that import a binding from another module. Only single-name imports
+ * are rewritten; splitting a declaration is left to the user.
+ */
+function moveImportEdits(analysis: CodeAnalysis, binding: ImportBinding, module: string): TextEdit[] {
+  const declaration = analysis.sourceFile.statements.find(
+    (s): s is ts.ImportDeclaration =>
+      ts.isImportDeclaration(s) && s.moduleSpecifier.getStart(analysis.sourceFile) === binding.moduleLocation.start
+  );
+  const bindings = declaration?.importClause?.namedBindings;
+  if (!bindings || !ts.isNamedImports(bindings) || bindings.elements.length !== 1 || declaration.importClause?.name) {
+    return [];
+  }
+
+  const quote = analysis.code[binding.moduleLocation.start];
+  return [{ start: binding.moduleLocation.start, end: binding.moduleLocation.end, newText: `${quote}${module}${quote}` }];
+}
+
+const unknownIwsdkSymbols: Rule = async (analysis) => {
+  const findings: Finding[] = [];
+  const cache = await loadEnhancedCache();
+  const packages = cache.packageExports;
+  if (Object.keys(packages).length === 0) return findings;
+
+  const packageOf = new Map<string, string>();
+  for (const [packageName, exports] of Object.entries(packages)) {
+    for (const name of exportedNames(exports, {})) {
+      if (!packageOf.has(name)) {
+        packageOf.set(name, packageName);
+      }
+    }
+  }
+
+  for (const binding of analysis.imports) {
+    if (!isIwsdkModule(binding.module)) continue;
+
+    const exports = packages[binding.module];
+    if (!exports) {
+      const suggestion = closestMatch(binding.module, Object.keys(packages));
+      const quote = analysis.code[binding.moduleLocation.start];
+      findings.push(finding(
+        'unknown-iwsdk-module',
+        'error',
+        `Package ${binding.module} does not exist${suggestion ? ` - did you mean ${suggestion}?` : `. Packages: ${Object.keys(packages).join(', ')}`}`,
+        binding.moduleLocation,
+        {
+          fix: suggestion
+            ? {
+                description: `Import from ${suggestion}`,
+                edits: [{ start: binding.moduleLocation.start, end: binding.moduleLocation.end, newText: `${quote}${suggestion}${quote}` }],
+              }
+            : undefined,
+        }
+      ));
+      continue;
+    }
+
+    const name = binding.imported;
+    if (name === '*' || name === 'default') continue;
+
+    const names = exportedNames(exports, packages);
+    const external = Object.values(exports.external || {}).flat();
+    if (names.includes(name) || external.includes(name)) {
+      const deprecation = exports.deprecated?.[name];
+      if (deprecation !== undefined) {
+        const replacement = exports.aliases?.[name];
+        findings.push(finding(
+          'deprecated-iwsdk-symbol',
+          'warning',
+          `${name} is deprecated${deprecation ? `: ${deprecation}` : ''}`,
+          binding.importedLocation,
+          {
+            fix: replacement
+              ? { description: `Use ${replacement} instead`, edits: renameEdits(analysis, binding.local, replacement, binding) }
+              : undefined,
+          }
+        ));
+      }
+      continue;
+    }
+
+    const otherPackage = packageOf.get(name);
+    if (otherPackage) {
+      findings.push(finding(
+        'wrong-iwsdk-package',
+        'error',
+        `${name} is exported from ${otherPackage}, not ${binding.module}`,
+        binding.importedLocation,
+        { fix: { description: `Import ${name} from '${otherPackage}'`, edits: moveImportEdits(analysis, binding, otherPackage) } }
+      ));
+      continue;
+    }
+
+    const reexports = unresolvedReexports(exports, packages);
+    const suggestion = closestMatch(name, [...names, ...external]);
+
+    // Without three.js' export list, only near-identical names are confidently wrong
+    const nearIdentical = suggestion !== null &&
+      levenshtein(name.toLowerCase(), suggestion.toLowerCase()) <= Math.max(1, Math.floor(name.length / 5));
+    if (reexports.length > 0 && !nearIdentical) continue;
+
+    findings.push(finding(
+      'unknown-iwsdk-symbol',
+      reexports.length > 0 ? 'warning' : 'error',
+      `${binding.module} has no export \`${name}\`${suggestion ? ` - did you mean \`${suggestion}\`?` : ''}` +
+        (reexports.length > 0 ? ` (unless it comes from the re-exported ${reexports.join(', ')})` : ''),
+      binding.importedLocation,
+      {
+        fix: suggestion
+          ? { description: `Use ${suggestion}`, edits: renameEdits(analysis, binding.local, suggestion, binding) }
+          : undefined,
+      }
+    ));
+  }
+
+  // Components and systems referenced without an import (common in snippets)
+  const aliases = await getSymbolAliases();
+  const componentNames = Object.keys(cache.components);
+  const systemNames = Object.keys(cache.systems);
+  const reported = new Set<string>();
+
+  const checkUsage = (
+    symbol: { name: string; module?: string },
+    location: SourceLocation,
+    kind: 'component' | 'system',
+    entity?: string
+  ) => {
+    const known = kind === 'component' ? componentNames : systemNames;
+    const other = kind === 'component' ? systemNames : componentNames;
+    const name = symbol.name;
+    const canonical = aliases[name] ?? name;
+
+    if (!/^[A-Za-z_$][\w$]*$/.test(name) || reported.has(name)) return;
+    if (symbol.module && !isIwsdkModule(symbol.module)) return;
+    if (!symbol.module && analysis.localDeclarations.has(name)) return;
+    if (known.includes(canonical)) return;
+
+    // Imported names that do not exist are already reported above
+    if (symbol.module && !packageOf.has(name)) return;
+    reported.add(name);
+
+    if (other.includes(canonical) || packageOf.has(name)) {
+      findings.push(finding(
+        kind === 'component' ? 'not-a-component' : 'not-a-system',
+        'error',
+        `${name} is ${other.includes(canonical) ? `a ${kind === 'component' ? 'system' : 'component'}` : `not a ${kind}`} - ${kind === 'component' ? 'addComponent() takes components' : 'registerSystem() takes systems'}`,
+        location,
+        { entity }
+      ));
+      return;
+    }
+
+    const suggestion = closestMatch(name, known);
+    findings.push(finding(
+      kind === 'component' ? 'unknown-component' : 'unknown-system',
+      'error',
+      `${name} is not an IWSDK ${kind} and is not defined in this code${suggestion ? ` - did you mean ${suggestion}?` : ''}`,
+      location,
+      {
+        entity,
+        fix: suggestion
+          ? { description: `Use ${suggestion}`, edits: renameEdits(analysis, name, suggestion) }
+          : undefined,
+      }
+    ));
+  };
+
+  for (const usage of analysis.componentUsages) {
+    checkUsage(usage.component, usage.location, 'component', usage.entity);
+  }
+  for (const registration of analysis.systemRegistrations) {
+    checkUsage(registration.system, registration.location, 'system');
+  }
+
+  return findings;
+};
+
+/**
+ * Whether World.create turns a feature on. Options the analysis cannot read,
+ * like `features: config.features` or a spread, count as on.
+ */
+function featureEnabled(world: WorldCreateCall, feature: WorldFeature): boolean {
+  const setting = world.featureSettings[feature.name];
+  if (setting) return setting.value !== 'false';
+
+  const optionsUnknown = world.call.arguments.length > 1 && !world.options;
+  const featuresUnknown =
+    !world.features && world.options?.properties.some(p => p.name && ts.isIdentifier(p.name) && p.name.text === 'features');
+  const spread = [world.options, world.features].some(literal => literal?.properties.some(p => ts.isSpreadAssignment(p)));
+
+  return feature.enabledByDefault || optionsUnknown || !!featuresUnknown || spread;
+}
+
+/**
+ * Components whose SDK system never runs: the feature that registers it is
+ * off in World.create and the system is not registered by hand. Reported in
+ * the file with World.create, which is where the fix goes.
+ */
+const featureNotEnabled: Rule = async (analysis, project) => {
+  const world = analysis.worldCreate;
+  // Fragments without World.create may enable the feature elsewhere
+  if (!world) return [];
+
+  const [{ features, subsystems }, cache, aliases] = await Promise.all([
+    getWorldFeatures(),
+    loadEnhancedCache(),
+    getSymbolAliases(),
+  ]);
+  const queriedBy = (system: string) =>
+    [system, ...(subsystems[system] ?? [])].flatMap(s => cache.systems[s]?.queriesComponents ?? []);
+
+  const missing = new Map<WorldFeature, string[]>();
+  for (const usage of project.flatMap(a => a.componentUsages)) {
+    const name = usage.component.name;
+    if (usage.method !== 'addComponent' || (usage.component.module && !isIwsdkModule(usage.component.module))) continue;
+
+    const canonical = aliases[name] ?? name;
+    const owners = Object.values(features).filter(feature =>
+      feature.components.includes(canonical) || feature.systems.some(system => queriedBy(system).includes(canonical))
+    );
+    if (owners.length === 0) continue;
+    if (owners.some(feature =>
+      featureEnabled(world, feature) || feature.systems.some(system => registersSystem(project, system))
+    )) continue;
+
+    const names = missing.get(owners[0]) ?? [];
+    if (!names.includes(name)) names.push(name);
+    missing.set(owners[0], names);
+  }
+
+  return [...missing].map(([feature, components]) => {
+    const setting = world.featureSettings[feature.name];
+    const system = feature.systems.find(s => queriedBy(s).some(c => components.includes(c))) ?? feature.systems[0];
+    return finding(
+      'feature-not-enabled',
+      'error',
+      `${components.join(', ')} ${components.length > 1 ? 'are' : 'is'} used but ${feature.name} is ${setting ? 'disabled' : 'not enabled'} in World.create, so ${system} never runs`,
+      setting?.location ?? world.location,
+      {
+        fix: {
+          description: `Set features: { ${feature.name}: true } in World.create()`,
+          edits: enableFeatureEdits(analysis, feature.name),
+        },
+      }
+    );
+  });
+};
+
+/**
+ * Components only processed by SDK systems that no feature registers, such
+ * as DepthOccludable and DepthSensingSystem, when the system is never
+ * registered. Needs a World.create in the project to know the app is whole.
+ */
+const systemNotRegistered: Rule = async (analysis, project) => {
+  if (!project.some(a => a.worldCreate)) return [];
+
+  const [{ features, builtInSystems, subsystems }, cache, aliases] = await Promise.all([
+    getWorldFeatures(),
+    loadEnhancedCache(),
+    getSymbolAliases(),
+  ]);
+  const featureSystems = Object.values(features).flatMap(feature => feature.systems);
+  const enabled = new Set([
+    ...builtInSystems,
+    ...featureSystems,
+    ...Object.entries(subsystems).flatMap(([system, children]) => [system, ...children]),
+  ]);
+
+  const findings: Finding[] = [];
+  const reported = new Set<string>();
+  for (const usage of analysis.componentUsages) {
+    const name = usage.component.name;
+    if (usage.method !== 'addComponent' || reported.has(name)) continue;
+    if (usage.component.module && !isIwsdkModule(usage.component.module)) continue;
+
+    const canonical = aliases[name] ?? name;
+    const owners = Object.values(cache.systems)
+      .filter(system => system.queriesComponents.includes(canonical))
+      .map(system => system.name);
+    // Components of a feature are checked by featureNotEnabled
+    if (owners.length === 0 || owners.some(system => enabled.has(system) || registersSystem(project, system))) continue;
+
+    reported.add(name);
+    findings.push(finding(
+      'system-not-registered',
+      'warning',
+      `${name} is processed by ${owners.join(' or ')}, which is never registered - call world.registerSystem(${owners[0]})`,
+      usage.location,
+      { entity: usage.entity, fix: { description: `Register ${owners[0]} with world.registerSystem(${owners[0]})`, edits: registerSystemEdits(analysis, owners[0]) } }
+    ));
+  }
+
+  return findings;
+};
+
+/** Edits that register an SDK system right after World.create(), when it is in this file */
+function registerSystemEdits(analysis: CodeAnalysis, system: string): TextEdit[] {
+  const world = analysis.worldCreate && worldReference(analysis, analysis.worldCreate.call);
+  const statement = analysis.worldCreate && declaringStatement(analysis.worldCreate.call);
+  if (!world || !statement) return [];
+
+  const { local, edits } = importName(analysis, system);
+  return [...edits, ...insertAfterStatementEdits(analysis, statement, `${world}.registerSystem(${local});`)];
+}
+
+const preferLocomotionFeature: Rule = (analysis) =>
+  analysis.systemRegistrations
+    .filter(r => r.system.name === 'LocomotionSystem')
+    .map(r => finding(
+      'prefer-locomotion-feature',
+      'info',
+      'LocomotionSystem is registered by hand - features: { locomotion: true } in World.create() also sets up its subsystems',
+      r.location
+    ));
+
+const meshNotAdded: Rule = (analysis) =>
+  analysis.meshes
+    .filter(mesh => !mesh.addedToScene)
+    .map(mesh => {
+      const world = worldReference(analysis, mesh.node);
+      const statement = ts.isVariableDeclaration(mesh.node.parent) ? declaringStatement(mesh.node) : null;
+
+      return finding(
+        'mesh-not-added',
+        'warning',
+        `${mesh.variable ? `Mesh \`${mesh.variable}\`` : 'A THREE.Mesh'} is created but never added to an entity or the scene - ` +
+          `pass it to world.createTransformEntity() or add it to an entity's object3D`,
+        mesh.location,
+        {
+          fix: {
+            description: `Give it an entity: ${world ?? 'world'}.createTransformEntity(${mesh.variable ?? 'mesh'})`,
+            edits: world && mesh.variable && statement
+              ? insertAfterStatementEdits(analysis, statement, `${world}.createTransformEntity(${mesh.variable});`)
+              : [],
+          },
+        }
+      );
+    });
+
+/** A node inside a system's update(), which runs once per frame */
+interface FrameNode {
+  node: ts.Node;
+  system: SystemClass;
+  /** Behind an if, ternary, `&&`/`||`, switch case or early return, so maybe not every frame */
+  conditional: boolean;
+  /** Inside a loop or an iteration callback such as forEach */
+  inLoop: boolean;
+}
+
+const ITERATION_METHODS = new Set(['forEach', 'map', 'filter', 'some', 'every', 'find', 'reduce']);
+
+/** Whether a statement always leaves its block: `return;`, `{ continue; }`, ... */
+function alwaysExits(statement: ts.Statement): boolean {
+  if (ts.isBlock(statement)) {
+    const last = statement.statements[statement.statements.length - 1];
+    return last !== undefined && alwaysExits(last);
+  }
+  return ts.isReturnStatement(statement) || ts.isThrowStatement(statement) ||
+    ts.isContinueStatement(statement) || ts.isBreakStatement(statement);
+}
+
+function frameNodes(analysis: CodeAnalysis): FrameNode[] {
+  const nodes: FrameNode[] = [];
+
+  for (const system of analysis.systemClasses) {
+    if (!system.update) continue;
+
+    const visit = (node: ts.Node, conditional: boolean, inLoop: boolean) => {
+      nodes.push({ node, system, conditional, inLoop });
+
+      // Statements after `if (!input) return;` only run when the check passes
+      let pastEarlyExit = false;
+      ts.forEachChild(node, child => {
+        const guarded =
+          (ts.isIfStatement(node) && child !== node.expression) ||
+          (ts.isConditionalExpression(node) && child !== node.condition) ||
+          (ts.isBinaryExpression(node) && child === node.right && [
+            ts.SyntaxKind.AmpersandAmpersandToken,
+            ts.SyntaxKind.BarBarToken,
+            ts.SyntaxKind.QuestionQuestionToken,
+          ].includes(node.operatorToken.kind)) ||
+          ts.isCaseClause(node) ||
+          ts.isCatchClause(node);
+        const loop =
+          ((ts.isForStatement(node) || ts.isForOfStatement(node) || ts.isForInStatement(node) ||
+            ts.isWhileStatement(node) || ts.isDoStatement(node)) && child === node.statement) ||
+          (ts.isCallExpression(node) &&
+            node.arguments.includes(child as ts.Expression) &&
+            ITERATION_METHODS.has(ts.isPropertyAccessExpression(node.expression) ? node.expression.name.text : ''));
+
+        visit(child, conditional || guarded || pastEarlyExit, inLoop || loop);
+        if (ts.isBlock(node) && ts.isIfStatement(child) && alwaysExits(child.thenStatement)) pastEarlyExit = true;
+      });
+    };
+    visit(system.update, false, false);
+  }
+
+  return nodes;
+}
+
+function frameWhere(frame: FrameNode): string {
+  return `${frame.system.name}.update()${frame.inLoop ? ' (inside a loop)' : ''}`;
+}
+
+/**
+ * Edits that hoist `const x = new Vector3(...)` in update() to a field
+ * created once and reset in place every frame. `fields` holds the class's
+ * member names, so two hoists never pick the same one.
+ */
+function hoistAllocationEdits(analysis: CodeAnalysis, frame: FrameNode, type: string, fields: Set<string>): TextEdit[] {
+  const node = frame.node as ts.NewExpression;
+  const declaration = node.parent;
+  const sourceFile = analysis.sourceFile;
+  // An object stored anywhere but a local would be shared between frames
+  if (!ts.isVariableDeclaration(declaration) || !ts.isIdentifier(declaration.name)) return [];
+  for (let current: ts.Node = declaration; current !== frame.system.update; current = current.parent) {
+    // `this` is only the system outside nested functions
+    if (ts.isFunctionExpression(current) || ts.isFunctionDeclaration(current)) return [];
+  }
+
+  const args = (node.arguments ?? []).map(arg => arg.getText(sourceFile));
+  const reset = args.length === 0
+    ? MATH_RESETS[type]
+    : type === 'Raycaster' && args.length > 2 ? undefined : `set(${args.join(', ')})`;
+  if (!reset) return [];
+
+  const base = `tmp${declaration.name.text[0].toUpperCase()}${declaration.name.text.slice(1)}`;
+  let field = base;
+  for (let i = 2; fields.has(field); i++) field = `${base}${i}`;
+  fields.add(field);
+
+  // Just above update(), so fields hoisted in later passes stay in source order
+  const update = frame.system.node.members.find(member => member.pos <= node.pos && node.end <= member.end)!;
+  const updateStart = update.getStart(sourceFile, true);
+  const lineStart = analysis.code.lastIndexOf('\n', updateStart - 1) + 1;
+  const modifiers = /\.[cm]?jsx?$/.test(sourceFile.fileName) ? '' : 'private readonly ';
+  return [
+    {
+      start: lineStart,
+      end: lineStart,
+      newText: `${lineIndent(analysis.code, updateStart)}${modifiers}${field} = new ${node.expression.getText(sourceFile)}();\n`,
+    },
+    { start: node.getStart(sourceFile), end: node.getEnd(), newText: `this.${field}.${reset}` },
+  ];
+}
+
+const allocationInUpdate: Rule = (analysis) => {
+  const fields = new Map<SystemClass, Set<string>>();
+  const fieldsOf = (system: SystemClass) => {
+    if (!fields.has(system)) {
+      fields.set(system, new Set(system.node.members.flatMap(member => member.name ? [member.name.getText(analysis.sourceFile)] : [])));
+    }
+    return fields.get(system)!;
+  };
+
+  return frameNodes(analysis).flatMap(frame => {
+    if (!ts.isNewExpression(frame.node)) return [];
+
+    // `THREE` is often a global or a CDN namespace rather than an import
+    const callee = frame.node.expression.getText(analysis.sourceFile);
+    const symbol = resolveSymbol(analysis, frame.node.expression) ??
+      (/^THREE\.\w+$/.test(callee) ? { name: callee.slice('THREE.'.length), module: 'three' } : null);
+    if (!symbol || (symbol.module && symbol.module !== 'three' && !isIwsdkModule(symbol.module))) return [];
+    if (!symbol.module && analysis.localDeclarations.has(symbol.name)) return [];
+
+    const location = getLocation(analysis.sourceFile, frame.node);
+    if (THREE_MATH_TYPES.has(symbol.name)) {
+      return [finding(
+        'allocation-in-update',
+        'warning',
+        `new ${symbol.name}() in ${frameWhere(frame)} allocates every frame and feeds the garbage collector - create it once as a class field or module constant and reuse it`,
+        location,
+        { fix: { description: `Hoist the ${symbol.name} to a field and reset it each frame`, edits: hoistAllocationEdits(analysis, frame, symbol.name, fieldsOf(frame.system)) } }
+      )];
+    }
+    if (THREE_SCENE_TYPES.test(symbol.name)) {
+      // Spawning on an event is fine; unconditional creation is not
+      return [finding(
+        'allocation-in-update',
+        frame.conditional ? 'info' : 'warning',
+        `new ${symbol.name}() in ${frameWhere(frame)} creates scene and GPU resources ${frame.conditional ? 'whenever the condition holds' : 'every frame'} - create it in init() and toggle visibility, reuse or pool it`,
+        location
+      )];
+    }
+    return [];
+  });
+};
+
+const componentChurnInUpdate: Rule = (analysis) => {
+  const frames = new Map(frameNodes(analysis).map(frame => [frame.node, frame]));
+
+  return analysis.componentUsages.flatMap(usage => {
+    const frame = frames.get(usage.call);
+    if (!frame) return [];
+
+    return [finding(
+      'component-churn-in-update',
+      frame.conditional ? 'info' : 'warning',
+      `${usage.method}(${usage.component.name}) in ${frameWhere(frame)} ${frame.conditional ? 'may run' : 'runs'} every frame - each call moves \`${usage.entity}\` between archetypes and re-evaluates queries; change a component field or only add/remove on state changes`,
+      usage.location,
+      { entity: usage.entity }
+    )];
+  });
+};
+
+const entityCreationInUpdate: Rule = (analysis) =>
+  frameNodes(analysis).flatMap(frame => {
+    if (!ts.isCallExpression(frame.node) || !ts.isPropertyAccessExpression(frame.node.expression)) return [];
+
+    const method = frame.node.expression.name.text;
+    if (method !== 'createTransformEntity' && method !== 'createEntity') return [];
+
+    return [finding(
+      'entity-creation-in-update',
+      frame.conditional ? 'info' : 'warning',
+      `${method}() in ${frameWhere(frame)} ${frame.conditional ? 'creates entities whenever the condition holds' : 'creates an entity every frame'} - create entities up front or pool them and toggle Visibility`,
+      getLocation(analysis.sourceFile, frame.node)
+    )];
+  });
+
+const entityScanInUpdate: Rule = (analysis) =>
+  frameNodes(analysis).flatMap(frame => {
+    const node = frame.node;
+    if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return [];
+
+    const method = node.expression.name.text;
+    const location = getLocation(analysis.sourceFile, node);
+
+    if (SCENE_SCAN_METHODS.has(method)) {
+      return [finding(
+        'entity-scan-in-update',
+        'warning',
+        `${method}() in ${frameWhere(frame)} walks the scene graph every frame - keep the objects you need in a system query or cache them in init()`,
+        location
+      )];
+    }
+    if (method === 'registerQuery' || method === 'createQuery') {
+      return [finding(
+        'entity-scan-in-update',
+        'warning',
+        `${method}() in ${frameWhere(frame)} builds a query every frame - declare it in createSystem({ ... }) and read this.queries.<name>.entities`,
+        location
+      )];
+    }
+    if (method === 'hasComponent' && frame.inLoop) {
+      const component = node.arguments[0] ? resolveSymbol(analysis, node.arguments[0])?.name : undefined;
+      return [finding(
+        'entity-scan-in-update',
+        'info',
+        `hasComponent(${component ?? ''}) filters entities in a loop in ${frame.system.name}.update() - add ${component ?? 'the component'} to a query's required list so the ECS tracks matching entities for you`,
+        location
+      )];
+    }
+    return [];
+  });
+
+const consoleInUpdate: Rule = (analysis) =>
+  frameNodes(analysis).flatMap(frame => {
+    const node = frame.node;
+    if (
+      !ts.isCallExpression(node) ||
+      !ts.isPropertyAccessExpression(node.expression) ||
+      !ts.isIdentifier(node.expression.expression) ||
+      node.expression.expression.text !== 'console' ||
+      !LOG_METHODS.has(node.expression.name.text)
+    ) return [];
+
+    const statement = node.parent;
+    const edits = ts.isExpressionStatement(statement) ? removeStatementEdits(analysis, statement) : [];
+    return [finding(
+      'console-in-update',
+      'warning',
+      `console.${node.expression.name.text}() in ${frameWhere(frame)} ${frame.conditional ? 'can log' : 'logs'} every frame - formatting and DevTools output cost frame time on Quest; remove it or log on state changes`,
+      getLocation(analysis.sourceFile, node),
+      { fix: { description: 'Remove the console call', edits } }
+    )];
+  });
+
+const RULES: Rule[] = [
+  syntaxErrors,
+  unknownIwsdkSymbols,
+  createEntityWithObject3D,
+  missingRequiredComponents,
+  componentOrder,
+  componentFieldValues,
+  featureNotEnabled,
+  systemNotRegistered,
+  meshNotAdded,
+  interactableWithoutInteraction,
+  preferLocomotionFeature,
+  allocationInUpdate,
+  componentChurnInUpdate,
+  entityCreationInUpdate,
+  entityScanInUpdate,
+  consoleInUpdate,
+];
+
+const SEVERITY_ORDER: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+
+async function runRules(analysis: CodeAnalysis, project: CodeAnalysis[], extraRules: Rule[]): Promise<Finding[]> {
+  const findings: Finding[] = [];
+
+  for (const rule of [...RULES, ...extraRules]) {
+    findings.push(...await rule(analysis, project));
+  }
+
+  return findings.sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.line - b.line || a.column - b.column
+  );
+}
+
+/**
+ * Validate one snippet. `extraRules` run after the built-in rules, e.g. a
+ * team's custom rules.
+ */
+export async function validateSource(code: string, fileName?: string, extraRules: Rule[] = []): Promise<ValidationResult> {
+  const analysis = analyzeCode(code, fileName);
+  return { analysis, findings: await runRules(analysis, [analysis], extraRules) };
+}
+
+/**
+ * Validate the files of one app together, so World.create in one file is
+ * checked against components and systems used in the others.
+ */
+export async function validateSources(
+  sources: Array<{ fileName: string; code: string }>,
+  extraRules: Rule[] = []
+): Promise<Array<ValidationResult & { fileName: string }>> {
+  const analyses = sources.map(source => analyzeCode(source.code, source.fileName));
+  const results: Array<ValidationResult & { fileName: string }> = [];
+
+  for (let i = 0; i < sources.length; i++) {
+    results.push({
+      fileName: sources[i].fileName,
+      analysis: analyses[i],
+      findings: await runRules(analyses[i], analyses, extraRules),
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,373 @@
+/**
+ * Team-defined validation rules loaded from `.iwsdk-mcp/rules.json` (or a
+ * rules.js / rules.mjs / rules.ts module) in the project, run by
+ * validate_code next to the built-in rules.
+ *
+ * A rule matches either entities (`{ "entity": { "hasComponent": ..., "missingHandler": ... } }`)
+ * or syntax (`{ "selector": "CallExpression[callee=console.log]" }`). Modules
+ * may also pass a function that receives the analysis and returns matches.
+ */
+
+import * as ts from 'typescript';
+import { readFile, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { getLocation, type CodeAnalysis, type EntityInfo, type SourceLocation } from './code-analysis.js';
+import { RULE_DESCRIPTIONS, type Finding, type Rule, type Severity } from './code-validator.js';
+import { getSymbolAliases } from './cache-loader.js';
+import { closestMatch } from './suggestions.js';
+
+const RULES_DIR = '.iwsdk-mcp';
+const RULES_FILES = ['rules.json', 'rules.mjs', 'rules.js', 'rules.ts'];
+const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+
+export interface EntityMatcher {
+  /** The entity has all of these components (aliases count) */
+  hasComponent?: string | string[];
+  /** ...and lacks at least one of these */
+  missingComponent?: string | string[];
+  /** ...and never sets or reads at least one of these handlers, e.g. onHoverEnter */
+  missingHandler?: string | string[];
+  createdBy?: 'createEntity' | 'createTransformEntity';
+}
+
+export interface CustomMatch {
+  node?: ts.Node;
+  location?: SourceLocation;
+  entity?: string;
+  /** Replaces the rule's message for this match */
+  message?: string;
+}
+
+export interface CustomRuleContext {
+  analysis: CodeAnalysis;
+  ts: typeof ts;
+}
+
+export interface CustomRuleConfig {
+  id: string;
+  description?: string;
+  severity?: Severity;
+  /** Supports {entity}, {component}, {name} and {text} placeholders */
+  message: string;
+  match:
+    | { entity: EntityMatcher }
+    | { selector: string }
+    | ((context: CustomRuleContext) => CustomMatch[]);
+}
+
+export interface CustomRuleSet {
+  /** Config file the rules came from, if one was found */
+  path?: string;
+  rules: Rule[];
+  descriptions: Record<string, string>;
+}
+
+interface LoadedConfig {
+  mtime: number;
+  set: CustomRuleSet;
+}
+
+const loaded = new Map<string, LoadedConfig>();
+// rules.{mjs,js,ts} run arbitrary code, so they load only when the transport
+// is trusted: stdio, or HTTP started with --allow-rule-modules
+let moduleRulesAllowed = false;
+
+export function allowModuleRules(allowed: boolean): void {
+  moduleRulesAllowed = allowed;
+}
+
+/**
+ * The rules config for a project: the nearest `.iwsdk-mcp/rules.*` at or
+ * above `startDir`.
+ */
+export function findRulesConfig(startDir: string): string | null {
+  let dir = resolve(startDir);
+
+  while (true) {
+    for (const file of RULES_FILES) {
+      const path = join(dir, RULES_DIR, file);
+      if (existsSync(path)) return path;
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+export async function loadCustomRules(startDir: string = process.cwd()): Promise<CustomRuleSet> {
+  const path = findRulesConfig(startDir);
+  if (!path) return { rules: [], descriptions: {} };
+
+  const { mtimeMs } = await stat(path);
+  const cached = loaded.get(path);
+  if (cached && cached.mtime === mtimeMs) {
+    return cached.set;
+  }
+
+  const configs = await readRulesConfig(path, mtimeMs);
+  const set: CustomRuleSet = { path, rules: [], descriptions: {} };
+
+  for (const config of configs) {
+    validateConfig(config, path, set);
+    set.rules.push(compileRule(config));
+    set.descriptions[config.id] = config.description ?? config.message;
+  }
+
+  loaded.set(path, { mtime: mtimeMs, set });
+  return set;
+}
+
+async function readRulesConfig(path: string, mtime: number): Promise<CustomRuleConfig[]> {
+  let exported: unknown;
+
+  if (path.endsWith('.json')) {
+    try {
+      exported = JSON.parse(await readFile(path, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot parse ${path}: ${(error as Error).message}`);
+    }
+  } else if (!moduleRulesAllowed) {
+    throw new Error(
+      `${path} is a code module and this server does not run rule modules over HTTP. ` +
+      `Use rules.json, or start the server with --allow-rule-modules if every client is trusted.`
+    );
+  } else if (path.endsWith('.ts')) {
+    // Relative imports are not resolved: the module is compiled and loaded on its own
+    const output = ts.transpileModule(await readFile(path, 'utf-8'), {
+      fileName: path,
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    });
+    const module = await import(`data:text/javascript;base64,${Buffer.from(output.outputText).toString('base64')}`);
+    exported = module.default ?? module.rules;
+  } else {
+    const module = await import(`${pathToFileURL(path).href}?mtime=${mtime}`);
+    exported = module.default ?? module.rules;
+  }
+
+  const rules = Array.isArray(exported) ? exported : (exported as { rules?: unknown })?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error(`${path} must export a list of rules, or an object with a "rules" list`);
+  }
+  return rules as CustomRuleConfig[];
+}
+
+function validateConfig(config: CustomRuleConfig, path: string, set: CustomRuleSet): void {
+  const id = config?.id;
+  const where = `Custom rule ${id ? `"${id}"` : 'without an id'} in ${path}`;
+
+  if (typeof id !== 'string' || !/^[\w-]+$/.test(id)) {
+    throw new Error(`${where}: "id" must be a string of letters, digits, "-" and "_"`);
+  }
+  if (RULE_DESCRIPTIONS[id] || set.descriptions[id]) {
+    throw new Error(`${where}: the id is already used by ${RULE_DESCRIPTIONS[id] ? 'a built-in rule' : 'another custom rule'}`);
+  }
+  if (typeof config.message !== 'string') {
+    throw new Error(`${where}: "message" must be a string`);
+  }
+  if (config.severity !== undefined && !SEVERITIES.includes(config.severity)) {
+    throw new Error(`${where}: "severity" must be one of ${SEVERITIES.join(', ')}`);
+  }
+
+  const match = config.match;
+  if (typeof match === 'function') return;
+  if (match && 'selector' in match && typeof match.selector === 'string') {
+    try {
+      parseSelector(match.selector);
+    } catch (error) {
+      throw new Error(`${where}: ${(error as Error).message}`);
+    }
+    return;
+  }
+  if (match && 'entity' in match && typeof match.entity === 'object' && match.entity) {
+    return;
+  }
+  throw new Error(`${where}: "match" must be { "entity": {...} }, { "selector": "..." } or a function`);
+}
+
+function compileRule(config: CustomRuleConfig): Rule {
+  const severity = config.severity ?? 'warning';
+  const match = config.match;
+
+  return async (analysis) => {
+    let matches: CustomMatch[];
+    if (typeof match === 'function') {
+      matches = match({ analysis, ts }) ?? [];
+    } else if ('selector' in match) {
+      matches = matchSelector(analysis, parseSelector(match.selector));
+    } else {
+      matches = matchEntities(analysis, match.entity, await getSymbolAliases());
+    }
+
+    return matches.map(m => {
+      const location = m.location ?? (m.node ? getLocation(analysis.sourceFile, m.node) : undefined);
+      const values: Record<string, string> = {
+        entity: m.entity ?? '',
+        name: m.node && 'name' in m.node && m.node.name ? (m.node.name as ts.Node).getText(analysis.sourceFile) : '',
+        text: m.node ? m.node.getText(analysis.sourceFile) : '',
+        component: typeof match === 'object' && 'entity' in match ? list(match.entity.hasComponent).join(', ') : '',
+      };
+      const message = (m.message ?? config.message).replace(/\{(entity|name|text|component)\}/g, (_, key) => values[key]);
+
+      const result: Finding = {
+        ruleId: config.id,
+        severity,
+        message,
+        line: location?.line ?? 1,
+        column: location?.column ?? 1,
+        endLine: location?.endLine ?? 1,
+        endColumn: location?.endColumn ?? 1,
+      };
+      if (m.entity) result.entity = m.entity;
+      return result;
+    });
+  };
+}
+
+function list(value: string | string[] | undefined): string[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function matchEntities(analysis: CodeAnalysis, matcher: EntityMatcher, aliases: Record<string, string>): CustomMatch[] {
+  const canonical = (name: string) => aliases[name] ?? name;
+  const matches: CustomMatch[] = [];
+
+  for (const entity of analysis.entities.values()) {
+    const added = entity.components.filter(u => u.method === 'addComponent');
+    const has = (name: string) => added.some(u => canonical(u.component.name) === canonical(name));
+
+    const required = list(matcher.hasComponent);
+    if (!required.every(has)) continue;
+    if (matcher.createdBy && entity.createdBy !== matcher.createdBy) continue;
+
+    const missing = list(matcher.missingComponent);
+    if (missing.length > 0 && missing.every(has)) continue;
+
+    const handlers = list(matcher.missingHandler);
+    if (handlers.length > 0 && handlers.every(handler => entity.handlers.includes(handler))) continue;
+
+    matches.push({ entity: entity.name, location: entityLocation(entity, required, canonical) });
+  }
+
+  return matches;
+}
+
+function entityLocation(entity: EntityInfo, components: string[], canonical: (name: string) => string): SourceLocation | undefined {
+  const usage = entity.components.find(u => components.some(c => canonical(c) === canonical(u.component.name)));
+  return usage?.location ?? entity.location ?? entity.components[0]?.location;
+}
+
+/**
+ * One step of a selector: `CallExpression[callee=console.log]`, with the
+ * combinator that links it to the step before.
+ */
+interface SelectorStep {
+  kind: ts.SyntaxKind | '*';
+  attributes: Array<{ name: string; value: string | RegExp }>;
+  combinator: 'descendant' | 'child';
+}
+
+const SYNTAX_KIND_NAMES = Object.keys(ts.SyntaxKind).filter(name => isNaN(Number(name)));
+
+/**
+ * Parse an AST selector: SyntaxKind names (or `*`) joined by spaces
+ * (descendant) or `>` (child), each with optional `[attribute=value]` filters.
+ * Attributes are `text`, `name` and `callee`; `/.../` values are regexes.
+ */
+export function parseSelector(selector: string): SelectorStep[] {
+  const steps: SelectorStep[] = [];
+  const source = selector.trim();
+  const pattern = /\s*(>)?\s*(\*|[A-Za-z]+)((?:\[[^\]]*\])*)/y;
+  let combinator: SelectorStep['combinator'] = 'descendant';
+  let index = 0;
+
+  while (index < source.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match) {
+      throw new Error(`invalid selector "${selector}" at "${source.slice(index)}"`);
+    }
+    index = pattern.lastIndex;
+
+    if (match[1]) combinator = 'child';
+    const kindName = match[2];
+    if (kindName !== '*' && !Object.hasOwn(ts.SyntaxKind, kindName)) {
+      const suggestion = closestMatch(kindName, SYNTAX_KIND_NAMES);
+      throw new Error(`unknown node kind "${kindName}"${suggestion ? ` - did you mean ${suggestion}?` : ''}`);
+    }
+
+    const attributes = [...match[3].matchAll(/\[\s*(\w+)\s*=\s*([^\]]*?)\s*\]/g)].map(([, name, raw]) => {
+      if (!['text', 'name', 'callee'].includes(name)) {
+        throw new Error(`unknown selector attribute "${name}" - use text, name or callee`);
+      }
+      const value = raw.replace(/^(['"])(.*)\1$/, '$2');
+      const regex = value.match(/^\/(.*)\/([a-z]*)$/);
+      return { name, value: regex ? new RegExp(regex[1], regex[2]) : value };
+    });
+
+    steps.push({
+      kind: kindName === '*' ? '*' : ts.SyntaxKind[kindName as keyof typeof ts.SyntaxKind],
+      attributes,
+      combinator: steps.length === 0 ? 'descendant' : combinator,
+    });
+    combinator = 'descendant';
+  }
+
+  if (steps.length === 0) {
+    throw new Error('empty selector');
+  }
+  return steps;
+}
+
+function attributeValue(node: ts.Node, name: string, sourceFile: ts.SourceFile): string | undefined {
+  if (name === 'text') return node.getText(sourceFile);
+  if (name === 'callee') {
+    return ts.isCallExpression(node) || ts.isNewExpression(node) ? node.expression.getText(sourceFile) : undefined;
+  }
+  const named = (node as { name?: ts.Node }).name;
+  return named ? named.getText(sourceFile) : undefined;
+}
+
+function stepMatches(node: ts.Node, step: SelectorStep, sourceFile: ts.SourceFile): boolean {
+  if (step.kind !== '*' && node.kind !== step.kind) return false;
+
+  return step.attributes.every(({ name, value }) => {
+    const actual = attributeValue(node, name, sourceFile);
+    if (actual === undefined) return false;
+    return typeof value === 'string' ? actual === value : value.test(actual);
+  });
+}
+
+/**
+ * Whether `node` matches the selector, checking steps right to left against
+ * the node and its ancestors.
+ */
+function selectorMatches(node: ts.Node, steps: SelectorStep[], index: number, sourceFile: ts.SourceFile): boolean {
+  if (!stepMatches(node, steps[index], sourceFile)) return false;
+  if (index === 0) return true;
+
+  if (steps[index].combinator === 'child') {
+    return !!node.parent && selectorMatches(node.parent, steps, index - 1, sourceFile);
+  }
+  for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+    if (selectorMatches(ancestor, steps, index - 1, sourceFile)) return true;
+  }
+  return false;
+}
+
+function matchSelector(analysis: CodeAnalysis, steps: SelectorStep[]): CustomMatch[] {
+  const matches: CustomMatch[] = [];
+  const sourceFile = analysis.sourceFile;
+
+  const visit = (node: ts.Node) => {
+    if (selectorMatches(node, steps, steps.length - 1, sourceFile)) {
+      matches.push({ node });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return matches;
+}
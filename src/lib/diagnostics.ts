@@ -0,0 +1,144 @@
+/**
+ * Machine-readable renderings of validation findings: a plain JSON diagnostics
+ * list and SARIF 2.1.0 for CI and editor integrations.
+ */
+
+import type { SourceFile } from 'typescript';
+import { RULE_DESCRIPTIONS, type Finding, type Severity, type TextEdit } from './code-validator.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_NAME = 'iwsdk-mcp';
+const TOOL_VERSION = '0.1.0';
+const DEFAULT_FILE_NAME = 'snippet.ts';
+
+export type DiagnosticsFormat = 'markdown' | 'json' | 'sarif';
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+function position(sourceFile: SourceFile, offset: number): Position {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(offset);
+  return { line: line + 1, column: character + 1 };
+}
+
+function editRange(sourceFile: SourceFile, edit: TextEdit): Range {
+  return { start: position(sourceFile, edit.start), end: position(sourceFile, edit.end) };
+}
+
+export function toJsonDiagnostics(findings: Finding[], sourceFile: SourceFile, fileName = DEFAULT_FILE_NAME) {
+  const count = (severity: Severity) => findings.filter(f => f.severity === severity).length;
+
+  return {
+    file: fileName,
+    summary: { errors: count('error'), warnings: count('warning'), info: count('info') },
+    diagnostics: findings.map(f => ({
+      ruleId: f.ruleId,
+      severity: f.severity,
+      message: f.message,
+      range: {
+        start: { line: f.line, column: f.column },
+        end: { line: f.endLine, column: f.endColumn },
+      },
+      ...(f.entity ? { entity: f.entity } : {}),
+      ...(f.fix
+        ? {
+            fix: {
+              description: f.fix.description,
+              edits: f.fix.edits.map(edit => ({
+                range: editRange(sourceFile, edit),
+                offset: edit.start,
+                length: edit.end - edit.start,
+                newText: edit.newText,
+              })),
+            },
+          }
+        : {}),
+    })),
+  };
+}
+
+const SARIF_LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+/**
+ * SARIF log for one file. `ruleDescriptions` adds rules beyond the built-in
+ * ones, such as a project's custom rules.
+ */
+export function toSarif(
+  findings: Finding[],
+  sourceFile: SourceFile,
+  fileName = DEFAULT_FILE_NAME,
+  ruleDescriptions: Record<string, string> = {}
+) {
+  const descriptions = { ...RULE_DESCRIPTIONS, ...ruleDescriptions };
+  const ruleIds = [...new Set([...Object.keys(descriptions), ...findings.map(f => f.ruleId)])];
+  const artifactLocation = { uri: fileName };
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: TOOL_VERSION,
+            rules: ruleIds.map(id => ({
+              id,
+              shortDescription: { text: descriptions[id] ?? id },
+            })),
+          },
+        },
+        artifacts: [{ location: artifactLocation }],
+        results: findings.map(f => ({
+          ruleId: f.ruleId,
+          ruleIndex: ruleIds.indexOf(f.ruleId),
+          level: SARIF_LEVELS[f.severity],
+          message: { text: f.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation,
+                region: {
+                  startLine: f.line,
+                  startColumn: f.column,
+                  endLine: f.endLine,
+                  endColumn: f.endColumn,
+                },
+              },
+            },
+          ],
+          ...(f.entity ? { properties: { entity: f.entity } } : {}),
+          ...(f.fix && f.fix.edits.length > 0
+            ? {
+                fixes: [
+                  {
+                    description: { text: f.fix.description },
+                    artifactChanges: [
+                      {
+                        artifactLocation,
+                        replacements: f.fix.edits.map(edit => ({
+                          deletedRegion: { charOffset: edit.start, charLength: edit.end - edit.start },
+                          insertedContent: { text: edit.newText },
+                        })),
+                      },
+                    ],
+                  },
+                ],
+              }
+            : {}),
+        })),
+      },
+    ],
+  };
+}
@@ -0,0 +1,315 @@
+/**
+ * Offline embedding layer for semantic retrieval.
+ *
+ * The default embedder is latent semantic analysis (TF-IDF + truncated SVD)
+ * trained by scripts/ingest-source.ts over the same documents as the search
+ * index. If an ONNX sentence-embedding model is placed in cache/models/ and
+ * `onnxruntime-node` is installed, it is used instead.
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { tokenize } from './search-index.js';
+
+export interface Embedder {
+  id: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface LsaModel {
+  vocabulary: string[];
+  idf: number[];
+  /** vocabulary.length x dimensions, the left singular vectors of the term-document matrix */
+  termVectors: number[][];
+}
+
+export interface VectorStore {
+  embedder: string;
+  dimensions: number;
+  model?: LsaModel;
+  entries: Array<{ id: string; vector: number[] }>;
+}
+
+export interface VectorHit {
+  id: string;
+  similarity: number;
+}
+
+/** The part of onnxruntime-node used here; it is optional, so its types may not be installed */
+interface OrtTensor {
+  dims: readonly number[];
+  data: unknown;
+}
+
+interface OrtRuntime {
+  Tensor: new (type: 'int64', data: BigInt64Array, dims: number[]) => OrtTensor;
+  InferenceSession: {
+    create(path: string): Promise<{
+      inputNames: readonly string[];
+      outputNames: readonly string[];
+      run(feeds: Record<string, OrtTensor>): Promise<Record<string, OrtTensor>>;
+    }>;
+  };
+}
+
+const POWER_ITERATIONS = 60;
+const ONNX_MODEL_FILE = 'embedding.onnx';
+const ONNX_VOCAB_FILE = 'vocab.txt';
+const ONNX_MAX_TOKENS = 256;
+
+/**
+ * Train an LSA model: build a log-scaled TF-IDF term-document matrix and keep
+ * its top singular vectors, found by orthogonal iteration on the document Gram matrix.
+ */
+export function trainLsa(texts: string[], maxDimensions = 64): LsaModel {
+  const docTokens = texts.map(text => tokenize(text));
+  const documentFrequency = new Map<string, number>();
+
+  for (const tokens of docTokens) {
+    for (const token of new Set(tokens)) {
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    }
+  }
+
+  const vocabulary = [...documentFrequency.keys()].sort();
+  const termIndex = new Map(vocabulary.map((term, i) => [term, i]));
+  const idf = vocabulary.map(term => Math.log(texts.length / documentFrequency.get(term)!) + 1);
+
+  // Sparse, L2-normalised TF-IDF column for each document
+  const columns = docTokens.map(tokens => tfidfVector(tokens, termIndex, idf));
+
+  const n = columns.length;
+  const k = Math.max(1, Math.min(maxDimensions, n - 1, vocabulary.length));
+
+  const gram: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      const value = sparseDot(columns[i], columns[j]);
+      gram[i][j] = value;
+      gram[j][i] = value;
+    }
+  }
+
+  let basis = Array.from({ length: k }, (_, c) =>
+    Array.from({ length: n }, (_, r) => Math.sin((r + 1) * (c + 1) * 12.9898) * 0.5)
+  );
+  for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+    basis = orthonormalize(basis.map(column => multiply(gram, column)));
+  }
+
+  // U = A V Sigma^-1, computed column by column from the sparse document vectors
+  const termVectors: number[][] = Array.from({ length: vocabulary.length }, () => new Array(k).fill(0));
+  for (let c = 0; c < k; c++) {
+    const eigenvalue = dot(basis[c], multiply(gram, basis[c]));
+    const sigma = Math.sqrt(Math.max(eigenvalue, 1e-12));
+
+    for (let d = 0; d < n; d++) {
+      const weight = basis[c][d] / sigma;
+      if (weight === 0) continue;
+      for (const [term, value] of columns[d]) {
+        termVectors[term][c] += value * weight;
+      }
+    }
+  }
+
+  return {
+    vocabulary,
+    idf: idf.map(round),
+    termVectors: termVectors.map(row => row.map(round)),
+  };
+}
+
+export function createLsaEmbedder(model: LsaModel): Embedder {
+  const termIndex = new Map(model.vocabulary.map((term, i) => [term, i]));
+  const dimensions = model.termVectors[0]?.length ?? 0;
+
+  return {
+    id: 'lsa',
+    dimensions,
+    async embed(texts: string[]) {
+      return texts.map(text => {
+        const vector = new Array(dimensions).fill(0);
+        for (const [term, weight] of tfidfVector(tokenize(text), termIndex, model.idf)) {
+          const row = model.termVectors[term];
+          for (let c = 0; c < dimensions; c++) {
+            vector[c] += weight * row[c];
+          }
+        }
+        return normalize(vector);
+      });
+    },
+  };
+}
+
+/**
+ * Load the optional ONNX sentence-embedding model (BERT-style WordPiece
+ * vocabulary, mean pooling). Returns null when the model files or the
+ * `onnxruntime-node` package are not available.
+ */
+export async function createOnnxEmbedder(modelDir: string): Promise<Embedder | null> {
+  const modelPath = join(modelDir, ONNX_MODEL_FILE);
+  const vocabPath = join(modelDir, ONNX_VOCAB_FILE);
+
+  if (!existsSync(modelPath) || !existsSync(vocabPath)) {
+    return null;
+  }
+
+  // Optional dependency: resolved at runtime so the server works without it
+  const runtimeModule = 'onnxruntime-node';
+  const ort: OrtRuntime | null = await import(runtimeModule).catch(() => null);
+  if (!ort) {
+    return null;
+  }
+
+  const vocab = new Map(
+    (await readFile(vocabPath, 'utf-8')).split('\n').map((token, i) => [token.trim(), i] as [string, number])
+  );
+  const session = await ort.InferenceSession.create(modelPath);
+  let dimensions = 0;
+
+  return {
+    id: 'onnx',
+    get dimensions() {
+      return dimensions;
+    },
+    async embed(texts: string[]) {
+      const vectors: number[][] = [];
+
+      for (const text of texts) {
+        const ids = wordPieceEncode(text, vocab);
+        const size = [1, ids.length];
+        const feeds: Record<string, OrtTensor> = {
+          input_ids: new ort.Tensor('int64', BigInt64Array.from(ids.map(BigInt)), size),
+          attention_mask: new ort.Tensor('int64', new BigInt64Array(ids.length).fill(1n), size),
+        };
+        if (session.inputNames.includes('token_type_ids')) {
+          feeds.token_type_ids = new ort.Tensor('int64', new BigInt64Array(ids.length), size);
+        }
+
+        const output = await session.run(feeds);
+        const hidden = output[session.outputNames[0]];
+        const [, tokens, width] = hidden.dims;
+        const data = hidden.data as Float32Array;
+
+        // Mean pooling over tokens
+        const vector = new Array(width).fill(0);
+        for (let t = 0; t < tokens; t++) {
+          for (let c = 0; c < width; c++) {
+            vector[c] += data[t * width + c] / tokens;
+          }
+        }
+
+        dimensions = width;
+        vectors.push(normalize(vector));
+      }
+
+      return vectors;
+    },
+  };
+}
+
+export function searchVectors(
+  store: VectorStore,
+  query: number[],
+  options: { prefix?: string[]; limit?: number } = {}
+): VectorHit[] {
+  return store.entries
+    .filter(entry => !options.prefix || options.prefix.some(p => entry.id.startsWith(p)))
+    .map(entry => ({ id: entry.id, similarity: round(dot(entry.vector, query)) }))
+    .filter(hit => hit.similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.limit ?? 10);
+}
+
+function wordPieceEncode(text: string, vocab: Map<string, number>): number[] {
+  const unknown = vocab.get('[UNK]') ?? 100;
+  const ids = [vocab.get('[CLS]') ?? 101];
+  const words = text.toLowerCase().match(/[a-z0-9]+|[^\sa-z0-9]/g) || [];
+
+  for (const word of words) {
+    let start = 0;
+    while (start < word.length) {
+      let end = word.length;
+      let id: number | undefined;
+      while (end > start) {
+        const piece = (start > 0 ? '##' : '') + word.slice(start, end);
+        id = vocab.get(piece);
+        if (id !== undefined) break;
+        end--;
+      }
+      if (id === undefined) {
+        ids.push(unknown);
+        break;
+      }
+      ids.push(id);
+      start = end;
+    }
+    if (ids.length >= ONNX_MAX_TOKENS - 1) break;
+  }
+
+  ids.push(vocab.get('[SEP]') ?? 102);
+  return ids;
+}
+
+function tfidfVector(tokens: string[], termIndex: Map<string, number>, idf: number[]): Array<[number, number]> {
+  const counts = new Map<number, number>();
+  for (const token of tokens) {
+    const index = termIndex.get(token);
+    if (index !== undefined) {
+      counts.set(index, (counts.get(index) || 0) + 1);
+    }
+  }
+
+  const entries = [...counts.entries()].map(([index, count]) =>
+    [index, (1 + Math.log(count)) * idf[index]] as [number, number]
+  );
+  const length = Math.sqrt(entries.reduce((sum, [, value]) => sum + value * value, 0)) || 1;
+  return entries.map(([index, value]) => [index, value / length]);
+}
+
+function sparseDot(a: Array<[number, number]>, b: Array<[number, number]>): number {
+  const lookup = new Map(b);
+  let sum = 0;
+  for (const [index, value] of a) {
+    sum += value * (lookup.get(index) || 0);
+  }
+  return sum;
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map(row => dot(row, vector));
+}
+
+function orthonormalize(vectors: number[][]): number[][] {
+  const result: number[][] = [];
+  for (const vector of vectors) {
+    const v = [...vector];
+    for (const basis of result) {
+      const projection = dot(v, basis);
+      for (let i = 0; i < v.length; i++) {
+        v[i] -= projection * basis[i];
+      }
+    }
+    result.push(normalize(v));
+  }
+  return result;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(dot(vector, vector));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
@@ -0,0 +1,684 @@
+/**
+ * Composes a feature from a description using the ingested SDK data instead
+ * of fixed recipes: components and systems are ranked against the whole
+ * cache, expanded through the relationship graph and the World.create
+ * feature map, and turned into code from the SDK's own JSDoc and example
+ * snippets.
+ */
+
+import * as ts from 'typescript';
+import {
+  getSymbolAliases,
+  getWorldFeatures,
+  loadEnhancedCache,
+  searchCache,
+  semanticSearch,
+  type ComponentDefinition,
+  type ExampleCode,
+  type WorldFeatureMap,
+} from './cache-loader.js';
+import { fixSource } from './code-fixer.js';
+import { equivalentNames, type Finding } from './code-validator.js';
+
+// Share of the best keyword/semantic score a candidate needs to be picked
+const MIN_RELEVANCE = 0.45;
+// Further components, and systems (which only bring a feature flag), need a closer match
+const MIN_SECONDARY_RELEVANCE = 0.6;
+// Absolute BM25 score or similarity the best hit needs before anything is picked
+const MIN_KEYWORD_SCORE = 4;
+const MIN_SIMILARITY = 0.6;
+// Features that only work against the real world
+const AR_FEATURES = ['sceneUnderstanding', 'environmentRaycast'];
+const AR_WORDS = /\b(ar|augmented|passthrough|mixed reality)\b/i;
+// A same-category candidate this relevant replaces the pick when it requires it
+const MIN_DEPENDENT_RELEVANCE = 0.3;
+const SEARCH_LIMIT = 12;
+const CONTAINER_ID = 'scene-container';
+// Words joining the separate features of one description
+const FEATURE_SEPARATORS = /\s*(?:[,;]|\b(?:and|that|which|then|plus|while)\b)\s*/i;
+// A clause opening with one of these introduces a new object
+const NEW_OBJECT = /^(?:a|an|another)\s/i;
+// Components whose systems move the entity's transform
+const TRANSFORM_DRIVERS: Record<string, string> = {
+  OneHandGrabbable: 'GrabSystem',
+  TwoHandsGrabbable: 'GrabSystem',
+  DistanceGrabbable: 'GrabSystem',
+  PhysicsBody: 'PhysicsSystem',
+  Follower: 'FollowSystem',
+  ScreenSpace: 'ScreenSpaceUISystem',
+};
+// Components that bring their own object rather than decorate a mesh
+const OWN_OBJECT_COMPONENTS = new Set(['PanelUI']);
+const ENTITY_SPACING = 0.5;
+const RESERVED_NAMES = new Set(['class', 'const', 'default', 'delete', 'function', 'let', 'new', 'this', 'var', 'document', 'window']);
+// Component categories whose entities need something to see and touch
+const MESH_CATEGORIES = new Set(['Grab', 'Input', 'Physics', 'Depth Sensing']);
+// Globals snippet arguments may use besides SDK exports
+const SNIPPET_GLOBALS = new Set(['Math', 'Infinity', 'NaN', 'undefined', 'Number', 'true', 'false']);
+
+export interface ComponentPick {
+  name: string;
+  /** Why the component is part of the feature */
+  reason: string;
+  /** Where its addComponent() arguments come from */
+  snippetSource?: string;
+  /**
+   * Added by the SDK to what it detects (planes, meshes); the code reacts to
+   * it from a system instead of adding it
+   */
+  detected?: boolean;
+  /** Variable of the entity the code adds it to */
+  entity?: string;
+  /** Fields the code leaves empty for the app to fill in */
+  placeholders?: string[];
+}
+
+export interface SystemPick {
+  name: string;
+  /** World.create feature flag that registers it */
+  feature?: string;
+  builtIn: boolean;
+  /** Components the system queries that apps work with */
+  queries: string[];
+}
+
+export interface Composition {
+  description: string;
+  /** The features the description was split into */
+  clauses: string[];
+  components: ComponentPick[];
+  systems: SystemPick[];
+  /** Feature flags the code turns on in World.create */
+  features: string[];
+  /** Transform conflicts between the features, and how they were resolved */
+  conflicts: string[];
+  /** Components the SDK's examples use alongside the picked ones */
+  oftenUsedWith: string[];
+  examples: ExampleCode[];
+  steps: string[];
+  code: string;
+  /** Findings validate_code still reports for the generated code */
+  remaining: Finding[];
+  /** Clauses the code does not implement, and why */
+  unimplemented: string[];
+}
+
+interface EntityPlan {
+  name: string;
+  picks: ComponentPick[];
+  /** Named by the description ("a ball"), so it gets something to see */
+  named: boolean;
+}
+
+/** What one clause of the description matched */
+interface ClauseMatch {
+  clause: string;
+  components: string[];
+  systems: string[];
+  /** The entity the clause opened ("a ball") */
+  introduces?: EntityPlan;
+}
+
+interface Candidate {
+  type: 'component' | 'system';
+  name: string;
+  relevance: number;
+}
+
+/**
+ * Components and systems relevant to the description: BM25 and semantic
+ * scores, each normalised to the best hit, averaged. Without semantic
+ * vectors the BM25 score stands alone.
+ */
+async function rankCandidates(description: string): Promise<Candidate[]> {
+  const options = { types: ['component' as const, 'system' as const], limit: SEARCH_LIMIT };
+  const [semanticHits, keywordHits] = await Promise.all([
+    semanticSearch(description, options),
+    searchCache(description, options),
+  ]);
+
+  // Similarity alone ranks anything against a clause sharing no SDK terms
+  if (keywordHits.length === 0) return [];
+
+  const bestKeyword = Math.max(0, ...keywordHits.map(hit => hit.score));
+  const bestSimilarity = Math.max(0, ...semanticHits.map(hit => hit.similarity));
+  // Relevance is relative to the best hit, so without this a clause that only
+  // shares filler words with the SDK ("make it sparkle") still picks something
+  if (bestKeyword < MIN_KEYWORD_SCORE && bestSimilarity < MIN_SIMILARITY) return [];
+
+  const relevance = new Map<string, number>();
+  // A cache without vectors ranks on BM25 alone, at full weight
+  const sources = semanticHits.length > 0 ? 2 : 1;
+
+  for (const hit of keywordHits) {
+    if (bestKeyword > 0) relevance.set(hit.id, (relevance.get(hit.id) ?? 0) + hit.score / bestKeyword / sources);
+  }
+  for (const hit of semanticHits) {
+    if (bestSimilarity > 0) relevance.set(hit.id, (relevance.get(hit.id) ?? 0) + Math.max(0, hit.similarity) / bestSimilarity / sources);
+  }
+
+  return [...relevance.entries()]
+    .map(([id, score]) => {
+      const [type, name] = id.split(':') as ['component' | 'system', string];
+      return { type, name, relevance: score };
+    })
+    .sort((a, b) => b.relevance - a.relevance);
+}
+
+/**
+ * One component per category: the most relevant, unless a relevant
+ * candidate in the same category requires it (PhysicsBody over PhysicsShape).
+ * Categories after the first need a closer match.
+ */
+function pickComponents(
+  candidates: Candidate[],
+  components: Record<string, ComponentDefinition>,
+  aliases: Record<string, string>
+): ComponentPick[] {
+  const usable = candidates.filter(c => c.type === 'component' && components[c.name] && !components[c.name].internal);
+  const picks: ComponentPick[] = [];
+  const categories = new Set<string>();
+
+  for (const candidate of usable) {
+    if (candidate.relevance < (picks.length === 0 ? MIN_RELEVANCE : MIN_SECONDARY_RELEVANCE)) break;
+    const category = components[candidate.name].category ?? candidate.name;
+    if (categories.has(category)) continue;
+    categories.add(category);
+
+    const dependent = usable.find(other =>
+      other.relevance >= MIN_DEPENDENT_RELEVANCE &&
+      (components[other.name].category ?? other.name) === category &&
+      components[other.name].requires.some(required => equivalentNames(required, aliases).includes(candidate.name))
+    );
+    picks.push({ name: (dependent ?? candidate).name, reason: 'matches the description' });
+  }
+
+  return picks;
+}
+
+function canonical(name: string, aliases: Record<string, string>): string {
+  return aliases[name] ?? name;
+}
+
+/**
+ * Add required components (transitively) ahead of the components needing them.
+ */
+function expandRequirements(
+  picks: ComponentPick[],
+  components: Record<string, ComponentDefinition>,
+  aliases: Record<string, string>
+): ComponentPick[] {
+  const ordered: ComponentPick[] = [];
+  const visit = (pick: ComponentPick, trail: Set<string>) => {
+    if (ordered.some(existing => existing.name === pick.name) || trail.has(pick.name)) return;
+    trail.add(pick.name);
+    for (const required of components[pick.name]?.requires ?? []) {
+      const name = canonical(required, aliases);
+      visit(picks.find(p => p.name === name) ?? { name, reason: `required by ${pick.name}` }, trail);
+    }
+    ordered.push(pick);
+  };
+
+  for (const pick of picks) visit(pick, new Set());
+  return ordered;
+}
+
+/**
+ * The feature flag that registers `system`, directly or through its parent
+ * (TurnSystem -> LocomotionSystem -> locomotion).
+ */
+function featureOf(system: string, worldFeatures: WorldFeatureMap): string | undefined {
+  const parent = Object.entries(worldFeatures.subsystems).find(([, subsystems]) => subsystems.includes(system))?.[0];
+  return Object.values(worldFeatures.features)
+    .find(feature => feature.systems.includes(system) || (parent !== undefined && feature.systems.includes(parent)))?.name;
+}
+
+function code(example: string): string {
+  const fenced = /```\w*\n([\s\S]*?)```/.exec(example);
+  return (fenced ? fenced[1] : example).trim();
+}
+
+/**
+ * Whether the SDK's snippets only ever query the component: the SDK adds it,
+ * apps react to it.
+ */
+function isDetected(
+  component: ComponentDefinition | undefined,
+  snippets: string[],
+  aliases: Record<string, string>
+): boolean {
+  if (!component) return false;
+  const queried = component.jsdocExamples.map(code)
+    .some(snippet => new RegExp(`required:\\s*\\[[^\\]]*\\b${component.name}\\b`).test(snippet));
+  const added = new RegExp(`addComponent\\(\\s*(${equivalentNames(component.name, aliases).join('|')})\\b`);
+  return queried && !snippets.some(snippet => added.test(snippet));
+}
+
+/**
+ * A system reacting to entities the SDK tags with `component`, titled after
+ * the JSDoc example it follows.
+ */
+function reactionSystem(component: ComponentDefinition, systems: Record<string, unknown>): { name: string; code: string } {
+  const name = systems[`${component.name}System`] ? `${component.name}ReactionSystem` : `${component.name}System`;
+  const title = component.jsdocExamples.map(example => example.split('\n')[0].trim()).find(line => line && !line.startsWith('```'));
+  const query = `${component.name.replace(/^[A-Z]+?(?=[A-Z]?[a-z])/, head => head.toLowerCase())}Entities`;
+  return {
+    name,
+    code: [
+      `class ${name} extends createSystem({`,
+      `  ${query}: { required: [${component.name}] },`,
+      `}) {`,
+      `  init() {`,
+      `    this.queries.${query}.subscribe('qualify', (entity) => {`,
+      `      // ${title ?? `React to ${component.name}`}`,
+      `      console.log('${component.name} added to entity', entity.index);`,
+      `    });`,
+      `  }`,
+      `}`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * The options object of `addComponent(<name>, ...)` in a snippet, when it only
+ * refers to SDK exports and globals (and so runs outside the snippet).
+ */
+function addComponentArguments(snippet: string, names: string[], exported: Set<string>): string | null | undefined {
+  const sourceFile = ts.createSourceFile('snippet.ts', snippet, ts.ScriptTarget.Latest, true);
+  let result: string | null | undefined;
+
+  const portable = (node: ts.Node): boolean => {
+    if (ts.isIdentifier(node)) {
+      const parent = node.parent;
+      const isPropertyName = (ts.isPropertyAssignment(parent) && parent.name === node) ||
+        (ts.isPropertyAccessExpression(parent) && parent.name === node);
+      return isPropertyName || exported.has(node.text) || SNIPPET_GLOBALS.has(node.text);
+    }
+    return !ts.forEachChild(node, child => (portable(child) ? undefined : true));
+  };
+
+  const visit = (node: ts.Node) => {
+    if (result !== undefined) return;
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === 'addComponent' &&
+      node.arguments[0] &&
+      names.includes(node.arguments[0].getText(sourceFile))
+    ) {
+      const options = node.arguments[1];
+      if (!options) {
+        result = null;
+      } else if (portable(options)) {
+        result = options.getText(sourceFile);
+      }
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return result;
+}
+
+/**
+ * Snippets lose their indentation in JSDoc; indent an options object one level.
+ */
+function reindent(options: string): string {
+  const lines = options.split('\n').map(line => line.trim());
+  if (lines.length === 1) return options;
+  return [lines[0], ...lines.slice(1, -1).map(line => `  ${line}`), lines[lines.length - 1]].join('\n');
+}
+
+/**
+ * Options for a component no snippet shows: its string fields without a
+ * default (asset paths, config files), which the app has to fill in.
+ */
+function placeholderOptions(component: ComponentDefinition | undefined): { options: string; fields: string[] } | null {
+  const fields = (component?.fields ?? []).filter(field =>
+    (field.type === 'String' || field.type === 'FilePath') && !field.name.startsWith('_') && (field.default === undefined || field.default === "''")
+  );
+  if (fields.length === 0) return null;
+  return {
+    options: `{\n${fields.map(field => `  ${field.name}: '',${field.description ? ` // ${field.description}` : ''}`).join('\n')}\n}`,
+    fields: fields.map(field => field.name),
+  };
+}
+
+/**
+ * Identifiers in `code` exported by an @iwsdk package -> that package.
+ */
+function importsFor(code: string, exportsByName: Map<string, string>): Map<string, string[]> {
+  const sourceFile = ts.createSourceFile('snippet.ts', code, ts.ScriptTarget.Latest, true);
+  const imports = new Map<string, string[]>();
+
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && exportsByName.has(node.text)) {
+      const parent = node.parent;
+      const isMemberName = (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+        (ts.isPropertyAssignment(parent) && parent.name === node);
+      if (!isMemberName) {
+        const pkg = exportsByName.get(node.text)!;
+        const names = imports.get(pkg) ?? [];
+        if (!names.includes(node.text)) names.push(node.text);
+        imports.set(pkg, names);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return imports;
+}
+
+
+/**
+ * The features a description asks for: "a grabbable ball that bounces with
+ * physics and shows its speed on a UI panel" -> three clauses.
+ */
+function splitFeatures(description: string): string[] {
+  return description.split(FEATURE_SEPARATORS).map(clause => clause.trim()).filter(Boolean);
+}
+
+/**
+ * The object a clause introduces ("a grabbable ball" -> ball).
+ */
+function subjectName(clause: string): string | undefined {
+  const match = NEW_OBJECT.exec(clause) && /^\w+\s+([\w\s-]+?)(?:\s+(?:with|on|in|to|from|for|at|of)\b|$)/i.exec(clause);
+  const word = match?.[1].trim().split(/\s+/).pop()?.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return word && /^[a-z]/.test(word) ? word : undefined;
+}
+
+/**
+ * A variable name for an entity holding `component` on its own (PanelUI -> panel).
+ */
+function componentVariable(component: string): string {
+  const base = component.replace(/(UI|Component)$/, '');
+  return `${base[0].toLowerCase()}${base.slice(1)}`;
+}
+
+function uniqueName(base: string, used: Set<string>): string {
+  let name = RESERVED_NAMES.has(base) ? `${base}Entity` : base;
+  for (let i = 2; used.has(name); i++) name = `${base}${i}`;
+  used.add(name);
+  return name;
+}
+
+export async function composeFromDescription(description: string): Promise<Composition | null> {
+  const cache = await loadEnhancedCache();
+  const aliases = await getSymbolAliases();
+  const worldFeatures = await getWorldFeatures();
+  const { components, systems, examples, relationships } = cache;
+
+  const clauses = splitFeatures(description);
+  const entities: EntityPlan[] = [];
+  const conflicts: string[] = [];
+  const pickedSystems = new Set<string>();
+  const used = new Set(['world', 'mesh']);
+  const newEntity = (base: string, named = false): EntityPlan => {
+    const entity = { name: uniqueName(base, used), picks: [], named };
+    entities.push(entity);
+    return entity;
+  };
+  const combinedInExamples = (a: string, b: string) => examples.some(example => {
+    const names = example.componentsUsed.map(name => canonical(name, aliases));
+    return names.includes(a) && names.includes(b);
+  });
+
+  // Each clause adds to the object it talks about, or introduces a new one
+  let current: EntityPlan | undefined;
+  const clauseMatches: ClauseMatch[] = [];
+  for (const clause of clauses) {
+    const candidates = await rankCandidates(clause);
+    const picked = pickComponents(candidates, components, aliases);
+    const matched: ClauseMatch = { clause, components: picked.map(pick => pick.name), systems: [] };
+    clauseMatches.push(matched);
+
+    // A system the clause names ahead of any component ("turn with the thumbsticks")
+    const bestComponent = Math.max(0, ...candidates
+      .filter(candidate => picked.some(pick => pick.name === candidate.name))
+      .map(candidate => candidate.relevance));
+    for (const candidate of candidates) {
+      if (
+        candidate.type === 'system' && systems[candidate.name] &&
+        candidate.relevance >= MIN_SECONDARY_RELEVANCE && candidate.relevance >= bestComponent
+      ) {
+        pickedSystems.add(candidate.name);
+        matched.systems.push(candidate.name);
+      }
+    }
+
+    if (NEW_OBJECT.test(clause) || !current) {
+      const subject = subjectName(clause);
+      current = newEntity(subject ?? 'entity', subject !== undefined);
+      matched.introduces = current;
+    }
+    const target = current;
+    const reason = clauses.length > 1 ? `matches "${clause}"` : 'matches the description';
+    for (const pick of picked) {
+      if (entities.some(entity => entity.picks.some(existing => existing.name === pick.name))) continue;
+      pick.reason = reason;
+      let home = target;
+
+      // Panels bring their own object; they don't go on a mesh
+      if (OWN_OBJECT_COMPONENTS.has(pick.name) && home.picks.some(existing => !OWN_OBJECT_COMPONENTS.has(existing.name))) {
+        home = newEntity(componentVariable(pick.name));
+      }
+
+      const driver = TRANSFORM_DRIVERS[pick.name];
+      const rival = driver && home.picks.find(existing => TRANSFORM_DRIVERS[existing.name] && !combinedInExamples(existing.name, pick.name));
+      if (rival) {
+        if (TRANSFORM_DRIVERS[rival.name] === driver) {
+          conflicts.push(`${rival.name} and ${pick.name} both hand \`${home.name}\` to ${driver}; kept ${rival.name}`);
+          continue;
+        }
+        const moved = newEntity(componentVariable(pick.name));
+        conflicts.push(
+          `${rival.name} (${TRANSFORM_DRIVERS[rival.name]}) and ${pick.name} (${driver}) would both move \`${home.name}\`; ` +
+          `${pick.name} is on its own entity \`${moved.name}\``
+        );
+        home = moved;
+      }
+
+      home.picks.push(pick);
+      current = home;
+    }
+  }
+
+  const planned = entities.filter(entity => entity.picks.length > 0);
+  if (planned.length === 0 && pickedSystems.size === 0) {
+    return null;
+  }
+
+  const snippets = [
+    ...Object.values(components).flatMap(component => component.jsdocExamples.map(code)),
+    ...examples.map(example => example.code),
+  ];
+  for (const entity of planned) {
+    entity.picks = expandRequirements(entity.picks, components, aliases);
+    for (const pick of entity.picks) {
+      const required = entity.picks.some(other => components[other.name]?.requires?.includes(pick.name));
+      if (!required && isDetected(components[pick.name], snippets, aliases)) pick.detected = true;
+    }
+  }
+  const componentPicks = planned.flatMap(entity => entity.picks);
+  const componentNames = [...new Set(componentPicks.map(pick => pick.name))];
+
+  // Systems acting on the components, plus the ones the description names
+  const systemNames = new Set(pickedSystems);
+  for (const query of relationships.systemQueries) {
+    if (componentNames.includes(canonical(query.to, aliases))) systemNames.add(query.from);
+  }
+  const systemPicks: SystemPick[] = [...systemNames].map(name => ({
+    name,
+    feature: featureOf(name, worldFeatures),
+    builtIn: worldFeatures.builtInSystems.includes(name),
+    queries: [...new Set(relationships.systemQueries
+      .filter(query => query.from === name)
+      .map(query => canonical(query.to, aliases))
+      .filter(component => components[component] && !components[component].internal))],
+  }));
+
+  const features = [...new Set([
+    ...systemPicks.map(system => system.feature),
+    ...Object.values(worldFeatures.features)
+      .filter(feature => feature.components.some(component => componentNames.includes(component)))
+      .map(feature => feature.name),
+  ])].filter((feature): feature is string => feature !== undefined && !worldFeatures.features[feature]?.enabledByDefault);
+
+  // Systems no feature flag or World.create registers
+  const registered = systemPicks.filter(system =>
+    !system.builtIn && !system.feature && !Object.values(worldFeatures.subsystems).some(subsystems => subsystems.includes(system.name))
+  );
+
+  const relatedExamples = examples
+    .map(example => ({ example, overlap: example.componentsUsed.filter(name => componentNames.includes(canonical(name, aliases))).length }))
+    .filter(entry => entry.overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap)
+    .map(entry => entry.example);
+
+  const oftenUsedWith = [...new Set(relationships.typicalCompositions
+    .filter(composition => composition.components.some(name => componentNames.includes(canonical(name, aliases))))
+    .flatMap(composition => composition.components.map(name => canonical(name, aliases)))
+    .filter(name => components[name] && !components[name].internal && !componentNames.includes(name)))];
+
+  // addComponent() arguments from the component's JSDoc, then the SDK examples
+  const exportsByName = new Map<string, string>();
+  for (const [pkg, list] of Object.entries(cache.packageExports)) {
+    for (const name of [...list.classes, ...list.functions, ...list.values, ...list.components, ...list.systems]) {
+      if (!exportsByName.has(name)) exportsByName.set(name, pkg);
+    }
+  }
+  const exported = new Set(exportsByName.keys());
+
+  const optionsFor = (pick: ComponentPick): string | null => {
+    const names = equivalentNames(pick.name, aliases);
+    const sources: Array<[string, string]> = [
+      ...(components[pick.name]?.jsdocExamples ?? []).map(example => [`${pick.name} JSDoc example`, code(example)] as [string, string]),
+      ...relatedExamples.map(example => [`${example.filePath}`, example.code] as [string, string]),
+    ];
+
+    for (const [source, snippet] of sources) {
+      const options = addComponentArguments(snippet, names, exported);
+      if (options !== undefined) {
+        if (options) pick.snippetSource = source;
+        return options;
+      }
+    }
+    const placeholders = placeholderOptions(components[pick.name]);
+    pick.placeholders = placeholders?.fields;
+    return placeholders?.options ?? null;
+  };
+
+  const reactions: Array<{ component: string; name: string; code: string }> = [];
+  const entityCode: string[] = [];
+  const entitySteps: string[] = [];
+  const shown = planned.filter(entity => entity.picks.some(pick => !pick.detected));
+  let anyMesh = false;
+
+  for (const entity of planned) {
+    for (const pick of entity.picks.filter(pick => pick.detected)) {
+      if (reactions.some(reaction => reaction.component === pick.name)) continue;
+      const reaction = reactionSystem(components[pick.name], systems);
+      used.add(reaction.name);
+      reactions.push({ component: pick.name, ...reaction });
+    }
+
+    const added = entity.picks.filter(pick => !pick.detected);
+    if (added.length === 0) continue;
+
+    // Spread the entities out in front of the viewer
+    const index = shown.indexOf(entity);
+    const x = Number(((index - (shown.length - 1) / 2) * ENTITY_SPACING).toFixed(2));
+    const needsMesh = !added.some(pick => OWN_OBJECT_COMPONENTS.has(pick.name)) &&
+      (entity.named || added.some(pick => MESH_CATEGORIES.has(components[pick.name]?.category ?? '')));
+    anyMesh ||= needsMesh;
+
+    if (entityCode.length > 0) entityCode.push('');
+    if (needsMesh) {
+      const mesh = entity.name === 'entity' ? 'mesh' : `${entity.name}Mesh`;
+      entityCode.push(
+        `const ${mesh} = new Mesh(new BoxGeometry(0.2, 0.2, 0.2), new MeshStandardMaterial({ color: 0x4488ff }));`,
+        `const ${entity.name} = world.createTransformEntity(${mesh});`
+      );
+    } else {
+      entityCode.push(`const ${entity.name} = world.createTransformEntity();`);
+    }
+    entityCode.push(`${entity.name}.object3D!.position.set(${x}, 1.2, -1);`);
+    for (const pick of added) {
+      const options = optionsFor(pick);
+      pick.entity = entity.name;
+      entityCode.push(options
+        ? `${entity.name}.addComponent(${pick.name}, ${reindent(options)});`
+        : `${entity.name}.addComponent(${pick.name});`);
+    }
+
+    entitySteps.push(
+      `Create the \`${entity.name}\` transform entity${needsMesh ? ' with a mesh' : ''}`,
+      ...added.map(pick => `Add ${pick.name} to \`${entity.name}\` (${pick.reason})`)
+    );
+  }
+
+  const immersiveAR = AR_WORDS.test(description) || features.some(feature => AR_FEATURES.includes(feature));
+  const registrations = [...registered.map(system => system.name), ...reactions.map(reaction => reaction.name)];
+  const body: string[] = [
+    ...reactions.flatMap(reaction => [reaction.code, '']),
+    `const world = await World.create(document.getElementById('${CONTAINER_ID}') as HTMLDivElement, {`,
+    `  xr: { sessionMode: SessionMode.${immersiveAR ? 'ImmersiveAR' : 'ImmersiveVR'} },`,
+    ...(features.length > 0 ? [`  features: { ${features.map(feature => `${feature}: true`).join(', ')} },`] : []),
+    `});`,
+    '',
+    ...registrations.map(system => `world.registerSystem(${system});`),
+    ...(registrations.length > 0 ? [''] : []),
+    ...entityCode,
+  ];
+
+  const bodyText = body.join('\n').trimEnd();
+  const imports = importsFor(bodyText, exportsByName);
+  const header = [...imports.entries()].map(([pkg, names]) => `import { ${names.join(', ')} } from '${pkg}';`);
+  if (anyMesh) {
+    header.push(`import { BoxGeometry, Mesh, MeshStandardMaterial } from 'three';`);
+  }
+
+  // Let fix_code settle anything the recipe missed (ordering, feature flags)
+  const fixed = await fixSource(`${header.join('\n')}\n\n${bodyText}\n`);
+
+  // A clause is only covered by what the SDK does for it: matching nothing, or
+  // only components whose files are left empty, leaves the work to the app
+  const unimplemented = clauseMatches.flatMap(({ clause, components: names, systems: systemNames, introduces }) => {
+    if (names.length === 0 && systemNames.length === 0) {
+      // "a ball" only names the object the next clauses describe
+      if (introduces && planned.includes(introduces)) return [];
+      return [`"${clause}" - no SDK component or system matches it, so the code leaves it out`];
+    }
+    const placeholders = componentPicks.filter(pick => names.includes(pick.name) && pick.placeholders);
+    if (names.length === 0 || placeholders.length < names.length) return [];
+    return [`"${clause}" - the code only adds ${placeholders
+      .map(pick => `${pick.name} with an empty ${pick.placeholders!.map(field => `\`${field}\``).join(', ')}`)
+      .join(' and ')}, which shows nothing until the app fills it in; what the clause describes is left to the app`];
+  });
+
+  const steps = [
+    features.length > 0
+      ? `Enable ${features.map(feature => `\`${feature}\``).join(', ')} in the World.create \`features\``
+      : 'Create the World',
+    ...registered.map(system => `Register ${system.name}`),
+    ...reactions.map(reaction => `Register ${reaction.name}, which reacts to entities the SDK tags with ${reaction.component}`),
+    ...entitySteps,
+  ];
+
+  return {
+    description,
+    clauses,
+    components: componentPicks,
+    systems: systemPicks,
+    features,
+    conflicts,
+    oftenUsedWith,
+    examples: relatedExamples,
+    steps,
+    code: fixed.code,
+    remaining: fixed.remaining.filter(finding => finding.severity !== 'info'),
+    unimplemented,
+  };
+}
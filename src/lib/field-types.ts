@@ -0,0 +1,78 @@
+/**
+ * elics `Types.*` field types shared by the component and system generators:
+ * which types exist, the value a field starts at and how to write a default.
+ */
+
+import { getAllComponents } from './cache-loader.js';
+
+// The value a field of each type starts at when no default is given
+export const FIELD_DEFAULTS: Record<string, unknown> = {
+  Int8: 0,
+  Int16: 0,
+  Int32: 0,
+  Float32: 0,
+  Float64: 0,
+  Boolean: false,
+  String: '',
+  FilePath: '',
+  Vec2: [0, 0],
+  Vec3: [0, 0, 0],
+  Vec4: [0, 0, 0, 0],
+  Color: [1, 1, 1, 1],
+  Entity: null,
+  Object: undefined,
+  Enum: undefined,
+};
+
+export const VECTOR_LENGTHS: Record<string, number> = { Vec2: 2, Vec3: 3, Vec4: 4, Color: 4 };
+
+/**
+ * The elics types plus any the ingested SDK components use.
+ */
+export async function knownFieldTypes(): Promise<Set<string>> {
+  const types = new Set(Object.keys(FIELD_DEFAULTS));
+  for (const component of await getAllComponents()) {
+    for (const field of component.fields) {
+      if (field.type !== 'unknown') types.add(field.type);
+    }
+  }
+  return types;
+}
+
+/**
+ * `Types.Float32` or `Float32` -> `Float32`, throwing for types elics lacks.
+ */
+export function fieldType(type: string, field: string, known: Set<string>): string {
+  const name = type.replace(/^Types\./, '');
+  if (!known.has(name)) {
+    throw new Error(
+      `Unknown field type "${type}" for ${field}. Use one of: ${[...known].map(t => `Types.${t}`).join(', ')}`
+    );
+  }
+  return name;
+}
+
+/**
+ * A default value as TypeScript source.
+ */
+export function fieldLiteral(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r/g, '\\r').replace(/\n/g, '\\n')}'`;
+  }
+  if (Array.isArray(value)) return `[${value.map(fieldLiteral).join(', ')}]`;
+  return JSON.stringify(value);
+}
+
+/**
+ * The default for a field of `type` as TypeScript source: the given value, or
+ * the type's starting value. Vector types need one number per component.
+ */
+export function defaultSource(type: string, field: string, value: unknown): string {
+  const resolved = value !== undefined ? value : FIELD_DEFAULTS[type];
+  const length = VECTOR_LENGTHS[type];
+  if (length !== undefined && (!Array.isArray(resolved) || resolved.length !== length)) {
+    throw new Error(`Default for ${type} field "${field}" must be an array of ${length} numbers`);
+  }
+  return fieldLiteral(resolved);
+}
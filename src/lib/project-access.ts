@@ -0,0 +1,23 @@
+/**
+ * Gate for tools that read or write a directory the client names:
+ * `scaffold_project` with `outputDir`, `validate_project`, and `validate_code`
+ * with `projectRoot`.
+ */
+
+// Any HTTP client could otherwise read or overwrite files anywhere the server
+// can, so directories are open only when the transport is trusted: stdio, or
+// HTTP started with --allow-project-access
+let projectAccessAllowed = false;
+
+export function allowProjectAccess(allowed: boolean): void {
+  projectAccessAllowed = allowed;
+}
+
+export function assertProjectAccess(tool: string, dir: string): void {
+  if (!projectAccessAllowed) {
+    throw new Error(
+      `${tool} cannot access ${dir}: this server does not read or write project directories over HTTP. ` +
+      `Start the server with --allow-project-access if every client is trusted.`
+    );
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Whole-project validation: reads an IWSDK app from disk and checks its
+ * sources together with package.json, the Vite config and index.html.
+ */
+
+import * as ts from 'typescript';
+import { readFile, readdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import { getLocation, type CodeAnalysis, type SourceLocation } from './code-analysis.js';
+import { validateSources, type Finding, type Severity } from './code-validator.js';
+import { loadEnhancedCache } from './cache-loader.js';
+import { closestMatch } from './suggestions.js';
+import { loadCustomRules } from './custom-rules.js';
+
+const SOURCE_FILE = /\.[cm]?[jt]sx?$/;
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'build', '.git']);
+const MAX_SOURCE_FILES = 500;
+export const VITE_CONFIGS = ['vite.config.ts', 'vite.config.mts', 'vite.config.js', 'vite.config.mjs'];
+// Vite plugins that serve the dev server over HTTPS
+const HTTPS_PLUGIN_MODULES = /basic-ssl|mkcert/;
+
+export interface ProjectFinding extends Finding {
+  /** Path relative to the project root; undefined for project-wide findings */
+  file?: string;
+}
+
+export interface ProjectReport {
+  root: string;
+  /** Every file that was read, relative to the root */
+  files: string[];
+  findings: ProjectFinding[];
+  iwsdkVersion: {
+    /** Version the server's cache was ingested from */
+    cache: string;
+    /** Range in package.json */
+    declared?: string;
+    /** Version in node_modules/@iwsdk/core */
+    installed?: string;
+  };
+}
+
+function projectFinding(
+  file: string | undefined,
+  ruleId: string,
+  severity: Severity,
+  message: string,
+  location?: SourceLocation
+): ProjectFinding {
+  return {
+    file,
+    ruleId,
+    severity,
+    message,
+    line: location?.line ?? 1,
+    column: location?.column ?? 1,
+    endLine: location?.endLine ?? 1,
+    endColumn: location?.endColumn ?? 1,
+  };
+}
+
+function offsetLocation(text: string, start: number, end: number): SourceLocation {
+  const position = (offset: number) => {
+    const before = text.slice(0, offset).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+  };
+  const from = position(start);
+  const to = position(end);
+  return { line: from.line, column: from.column, endLine: to.line, endColumn: to.column, start, end };
+}
+
+async function collectSources(root: string, dir: string, files: string[]): Promise<void> {
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (files.length >= MAX_SOURCE_FILES) return;
+    const fullPath = join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name)) {
+        await collectSources(root, fullPath, files);
+      }
+    } else if (SOURCE_FILE.test(entry.name) && !/\.d\.[cm]?ts$/.test(entry.name)) {
+      files.push(relative(root, fullPath));
+    }
+  }
+}
+
+/**
+ * Whether `version` falls in an npm semver range. Handles the forms package.json
+ * files use in practice: exact, ^, ~, comparison operators, x-ranges and ||.
+ */
+function satisfiesRange(version: string, range: string): boolean {
+  const parse = (text: string) => text.replace(/^v/, '').split(/[.-]/).slice(0, 3).map(part => (/^\d+$/.test(part) ? Number(part) : NaN));
+  const compare = (a: number[], b: number[]) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+  const target = parse(version);
+
+  const satisfiesComparator = (comparator: string): boolean => {
+    const match = comparator.match(/^(\^|~|>=|<=|>|<|=)?\s*v?([\dxX*]+)(?:\.([\dxX*]+))?(?:\.([\dxX*]+))?/);
+    if (!match) return true;
+
+    const [, operator = '', ...parts] = match;
+    const wildcard = parts.findIndex(part => part === undefined || /^[xX*]$/.test(part));
+    const base = parts.map(part => (part === undefined || /^[xX*]$/.test(part) ? 0 : Number(part)));
+
+    if (wildcard !== -1 && (operator === '' || operator === '=')) {
+      return base.slice(0, wildcard).every((value, i) => value === target[i]);
+    }
+
+    const order = compare(target, base);
+    switch (operator) {
+      case '^': {
+        // ^0.4.2 allows 0.4.x, ^1.2.3 allows 1.x.x
+        const fixed = base[0] > 0 ? 1 : base[1] > 0 ? 2 : 3;
+        return order >= 0 && base.slice(0, fixed).every((value, i) => value === target[i]);
+      }
+      case '~':
+        return order >= 0 && target[0] === base[0] && target[1] === base[1];
+      case '>=': return order >= 0;
+      case '<=': return order <= 0;
+      case '>': return order > 0;
+      case '<': return order < 0;
+      default: return order === 0;
+    }
+  };
+
+  return range.split('||').some(part => {
+    const comparators = part.trim().replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1').split(/\s+/).filter(Boolean);
+    return comparators.length === 0 || comparators.every(satisfiesComparator);
+  });
+}
+
+function jsonProperty(object: ts.ObjectLiteralExpression | undefined, name: string): ts.PropertyAssignment | undefined {
+  return object?.properties.find(
+    (p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p) && ts.isStringLiteral(p.name) && p.name.text === name
+  );
+}
+
+async function checkPackageJson(root: string, report: ProjectReport, packages: string[]): Promise<void> {
+  const file = 'package.json';
+  const text = await readFile(join(root, file), 'utf-8');
+  const json = ts.parseJsonText(file, text);
+  const rootObject = json.statements[0]?.expression;
+
+  if (!rootObject || !ts.isObjectLiteralExpression(rootObject)) {
+    report.findings.push(projectFinding(file, 'invalid-package-json', 'error', 'package.json is not a JSON object'));
+    return;
+  }
+
+  const dependencies = ['dependencies', 'devDependencies', 'peerDependencies'].flatMap(section => {
+    const object = jsonProperty(rootObject, section)?.initializer;
+    return object && ts.isObjectLiteralExpression(object)
+      ? object.properties.filter(ts.isPropertyAssignment)
+      : [];
+  });
+  const iwsdkDependencies = dependencies.filter(p => ts.isStringLiteral(p.name) && p.name.text.startsWith('@iwsdk/'));
+
+  if (!iwsdkDependencies.some(p => (p.name as ts.StringLiteral).text === '@iwsdk/core')) {
+    report.findings.push(projectFinding(file, 'missing-iwsdk-dependency', 'warning', '@iwsdk/core is not listed in dependencies'));
+  }
+
+  for (const property of iwsdkDependencies) {
+    const name = (property.name as ts.StringLiteral).text;
+
+    if (!packages.includes(name)) {
+      // Only the runtime packages are ingested; tooling like the Vite plugins is not, so flag typos only
+      const suggestion = closestMatch(name, packages, 2);
+      if (suggestion) {
+        report.findings.push(projectFinding(
+          file,
+          'unknown-iwsdk-package',
+          'error',
+          `${name} is not an IWSDK package - did you mean ${suggestion}?`,
+          getLocation(json, property.name)
+        ));
+      }
+      continue;
+    }
+
+    const range = ts.isStringLiteral(property.initializer) ? property.initializer.text : '';
+    if (name === '@iwsdk/core') {
+      report.iwsdkVersion.declared = range;
+    }
+    // workspace:, file:, link: and git URLs are not version ranges
+    if (!range || /^[a-z]+:|\//i.test(range) || range === 'latest') continue;
+
+    if (!satisfiesRange(report.iwsdkVersion.cache, range)) {
+      report.findings.push(projectFinding(
+        file,
+        'iwsdk-version-mismatch',
+        'warning',
+        `${name}@${range} does not include ${report.iwsdkVersion.cache}, the IWSDK version this server's API data comes from - APIs may differ`,
+        getLocation(json, property.initializer)
+      ));
+    }
+  }
+
+  const installedPath = join(root, 'node_modules', '@iwsdk', 'core', 'package.json');
+  if (existsSync(installedPath)) {
+    const installed = JSON.parse(await readFile(installedPath, 'utf-8')).version as string;
+    report.iwsdkVersion.installed = installed;
+    if (installed !== report.iwsdkVersion.cache) {
+      report.findings.push(projectFinding(
+        undefined,
+        'iwsdk-version-mismatch',
+        installed.split('.')[0] === report.iwsdkVersion.cache.split('.')[0] ? 'info' : 'warning',
+        `node_modules has @iwsdk/core ${installed}, but this server's API data comes from ${report.iwsdkVersion.cache}`
+      ));
+    }
+  }
+}
+
+/**
+ * The object configuring Vite: the argument of defineConfig() or the default export.
+ */
+export function viteConfigObject(sourceFile: ts.SourceFile): ts.ObjectLiteralExpression | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExportAssignment(statement)) continue;
+
+    let expression: ts.Expression = statement.expression;
+    if (ts.isCallExpression(expression) && expression.arguments[0]) {
+      expression = expression.arguments[0];
+      // defineConfig(() => ({ ... }))
+      if (ts.isArrowFunction(expression) && !ts.isBlock(expression.body)) {
+        expression = expression.body;
+      }
+    }
+    while (ts.isParenthesizedExpression(expression)) {
+      expression = expression.expression;
+    }
+    return ts.isObjectLiteralExpression(expression) ? expression : undefined;
+  }
+  return undefined;
+}
+
+export function objectProperty(object: ts.ObjectLiteralExpression | undefined, name: string): ts.ObjectLiteralElementLike | undefined {
+  return object?.properties.find(p => p.name && ts.isIdentifier(p.name) && p.name.text === name);
+}
+
+/**
+ * Whether the Vite config imports a plugin serving the dev server over HTTPS.
+ */
+export function importsHttpsPlugin(sourceFile: ts.SourceFile): boolean {
+  return sourceFile.statements.some(statement =>
+    ts.isImportDeclaration(statement) &&
+    ts.isStringLiteral(statement.moduleSpecifier) &&
+    HTTPS_PLUGIN_MODULES.test(statement.moduleSpecifier.text)
+  );
+}
+
+async function checkViteConfig(root: string, report: ProjectReport): Promise<void> {
+  const file = VITE_CONFIGS.find(name => existsSync(join(root, name)));
+  if (!file) {
+    report.findings.push(projectFinding(
+      undefined,
+      'missing-vite-config',
+      'warning',
+      'No vite.config found - WebXR needs a secure context, so headsets on the network need the dev server on HTTPS'
+    ));
+    return;
+  }
+
+  report.files.push(file);
+  const sourceFile = ts.createSourceFile(file, await readFile(join(root, file), 'utf-8'), ts.ScriptTarget.Latest, true);
+  const config = viteConfigObject(sourceFile);
+  if (!config) return;
+
+  const server = objectProperty(config, 'server');
+  const serverObject = server && ts.isPropertyAssignment(server) && ts.isObjectLiteralExpression(server.initializer)
+    ? server.initializer
+    : undefined;
+  const https = objectProperty(serverObject, 'https');
+
+  if (https && ts.isPropertyAssignment(https) && https.initializer.kind === ts.SyntaxKind.FalseKeyword) {
+    report.findings.push(projectFinding(
+      file,
+      'vite-https-disabled',
+      'error',
+      'server.https is false - WebXR sessions need a secure context on the headset',
+      getLocation(sourceFile, https)
+    ));
+    return;
+  }
+  if (https) return;
+
+  if (importsHttpsPlugin(sourceFile)) return;
+
+  report.findings.push(projectFinding(
+    file,
+    'vite-https-missing',
+    'warning',
+    'The dev server is not configured for HTTPS - set server: { https: true } or add @vitejs/plugin-basic-ssl so headsets can open the app',
+    getLocation(sourceFile, server ?? config)
+  ));
+}
+
+/**
+ * Element id passed to World.create: document.getElementById('x') or querySelector('#x').
+ */
+function containerId(analysis: CodeAnalysis): { id: string; node: ts.Node } | null {
+  let argument = analysis.worldCreate?.call.arguments[0];
+  while (argument && (ts.isAsExpression(argument) || ts.isNonNullExpression(argument) || ts.isParenthesizedExpression(argument))) {
+    argument = argument.expression;
+  }
+
+  if (
+    !argument ||
+    !ts.isCallExpression(argument) ||
+    !ts.isPropertyAccessExpression(argument.expression) ||
+    !argument.arguments[0] ||
+    !ts.isStringLiteralLike(argument.arguments[0])
+  ) {
+    return null;
+  }
+
+  const method = argument.expression.name.text;
+  const value = argument.arguments[0].text;
+  if (method === 'getElementById') return { id: value, node: argument.arguments[0] };
+  if (method === 'querySelector' && /^#[\w-]+$/.test(value)) return { id: value.slice(1), node: argument.arguments[0] };
+  return null;
+}
+
+async function checkIndexHtml(root: string, report: ProjectReport, sources: Array<{ fileName: string; analysis: CodeAnalysis }>): Promise<void> {
+  const file = 'index.html';
+  if (!existsSync(join(root, file))) {
+    report.findings.push(projectFinding(undefined, 'missing-index-html', 'warning', 'No index.html in the project root - Vite serves the app from it'));
+    return;
+  }
+
+  report.files.push(file);
+  const html = await readFile(join(root, file), 'utf-8');
+
+  const scripts = [...html.matchAll(/<script\b([^>]*)>/gi)].filter(match => /type\s*=\s*["']module["']/i.test(match[1]));
+  if (scripts.length === 0) {
+    report.findings.push(projectFinding(file, 'missing-entry-script', 'warning', 'index.html has no <script type="module"> loading the app'));
+  }
+
+  for (const script of scripts) {
+    const src = script[1].match(/src\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (!src || /^(https?:)?\/\//.test(src)) continue;
+
+    const path = resolve(root, src.replace(/^\//, ''));
+    if (!existsSync(path)) {
+      report.findings.push(projectFinding(
+        file,
+        'missing-entry-script',
+        'error',
+        `index.html loads ${src}, which does not exist`,
+        offsetLocation(html, script.index!, script.index! + script[0].length)
+      ));
+    }
+  }
+
+  const ids = new Set([...html.matchAll(/\bid\s*=\s*["']([^"']+)["']/gi)].map(match => match[1]));
+  for (const { fileName, analysis } of sources) {
+    const container = containerId(analysis);
+    if (!container || ids.has(container.id)) continue;
+
+    const suggestion = closestMatch(container.id, ids);
+    report.findings.push(projectFinding(
+      fileName,
+      'missing-container-element',
+      'error',
+      `World.create() looks up #${container.id}, but index.html has no element with that id${suggestion ? ` - did you mean #${suggestion}?` : ''}`,
+      getLocation(analysis.sourceFile, container.node)
+    ));
+  }
+}
+
+export async function validateProjectDir(projectRoot: string): Promise<ProjectReport> {
+  const root = resolve(projectRoot);
+  if (!existsSync(root)) {
+    throw new Error(`Project directory not found: ${root}`);
+  }
+
+  const cache = await loadEnhancedCache();
+  const report: ProjectReport = {
+    root,
+    files: [],
+    findings: [],
+    iwsdkVersion: { cache: cache.metadata.iwsdkVersion },
+  };
+
+  if (existsSync(join(root, 'package.json'))) {
+    report.files.push('package.json');
+    await checkPackageJson(root, report, Object.keys(cache.packageExports));
+  } else {
+    report.findings.push(projectFinding(undefined, 'missing-package-json', 'warning', 'No package.json in the project root'));
+  }
+
+  await checkViteConfig(root, report);
+
+  const sourceFiles: string[] = [];
+  if (existsSync(join(root, 'src'))) {
+    await collectSources(root, join(root, 'src'), sourceFiles);
+  }
+  if (sourceFiles.length === 0) {
+    report.findings.push(projectFinding(undefined, 'no-source-files', 'warning', 'No source files found under src/'));
+  }
+
+  const sources = await Promise.all(
+    sourceFiles.map(async fileName => ({ fileName, code: await readFile(join(root, fileName), 'utf-8') }))
+  );
+  const customRules = await loadCustomRules(root);
+  const results = await validateSources(sources, customRules.rules);
+  report.files.push(...sourceFiles);
+
+  await checkIndexHtml(root, report, results);
+
+  for (const result of results) {
+    report.findings.push(...result.findings.map(f => ({ ...f, file: result.fileName })));
+  }
+
+  return report;
+}
@@ -0,0 +1,197 @@
+/**
+ * Writes a scaffolded project to disk. Each file is planned against what is
+ * already there; in merge mode an existing Vite project's package.json and
+ * Vite config are patched instead of replaced.
+ */
+
+import * as ts from 'typescript';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { importsHttpsPlugin, objectProperty, viteConfigObject, VITE_CONFIGS } from './project-validator.js';
+
+// package.json sections merged from the template; existing entries win
+const MERGED_SECTIONS = ['dependencies', 'devDependencies', 'scripts'];
+
+export type FileAction = 'create' | 'overwrite' | 'patch' | 'unchanged' | 'keep' | 'conflict';
+
+export interface PlannedFile {
+  /** Path relative to the project root */
+  path: string;
+  action: FileAction;
+  /** Content written for create, overwrite and patch */
+  content?: string;
+  /** What a patch changed, or why a file was left alone */
+  notes: string[];
+}
+
+export interface WriteOptions {
+  /** Plan only; write nothing */
+  dryRun?: boolean;
+  /** Overwrite files that already exist */
+  force?: boolean;
+  /** Add IWSDK to an existing project: patch package.json and the Vite config, keep other files */
+  merge?: boolean;
+}
+
+export interface WriteResult {
+  root: string;
+  files: PlannedFile[];
+  /** False for dry runs and when conflicts stopped the write */
+  written: boolean;
+}
+
+/**
+ * Template dependencies and scripts the existing package.json lacks.
+ */
+function mergePackageJson(existingText: string, templateText: string): { content: string; notes: string[] } {
+  let existing: Record<string, any>;
+  try {
+    existing = JSON.parse(existingText);
+  } catch (error) {
+    throw new Error(`package.json is not valid JSON: ${(error as Error).message}`);
+  }
+  const template = JSON.parse(templateText) as Record<string, Record<string, string>>;
+  const notes: string[] = [];
+
+  for (const section of MERGED_SECTIONS) {
+    for (const [name, value] of Object.entries(template[section] ?? {})) {
+      const present = section === 'scripts'
+        ? existing.scripts?.[name] !== undefined
+        : existing.dependencies?.[name] !== undefined || existing.devDependencies?.[name] !== undefined;
+      if (present) continue;
+
+      existing[section] = { ...existing[section], [name]: value };
+      notes.push(section === 'scripts' ? `added script "${name}"` : `added ${name}@${value} to ${section}`);
+    }
+  }
+
+  const indent = /^([ \t]+)"/m.exec(existingText)?.[1] ?? '  ';
+  const content = JSON.stringify(existing, null, indent) + (existingText.endsWith('\n') ? '\n' : '');
+  return { content: notes.length > 0 ? content : existingText, notes };
+}
+
+function lineIndent(sourceFile: ts.SourceFile, node: ts.Node): string {
+  const start = node.getStart(sourceFile);
+  const lineStart = sourceFile.text.lastIndexOf('\n', start - 1) + 1;
+  return /^[ \t]*/.exec(sourceFile.text.slice(lineStart, start))![0];
+}
+
+/**
+ * Text to insert a property as the first one of `object`, matching how its
+ * existing properties are laid out.
+ */
+function firstPropertyInsert(sourceFile: ts.SourceFile, object: ts.ObjectLiteralExpression, property: string): { at: number; text: string } {
+  const open = object.getStart(sourceFile) + 1;
+  const first = object.properties[0];
+  if (!first) {
+    const indent = lineIndent(sourceFile, object);
+    const body = property.split('\n').map(line => `${indent}  ${line}`).join('\n');
+    return { at: open, text: `\n${body},\n${indent}` };
+  }
+
+  const sameLine = !sourceFile.text.slice(open, first.getStart(sourceFile)).includes('\n');
+  if (sameLine) {
+    return { at: open, text: ` ${property.replace(/\n\s*/g, ' ')},` };
+  }
+  const indent = lineIndent(sourceFile, first);
+  return { at: open, text: `\n${property.split('\n').map(line => `${indent}${line}`).join('\n')},` };
+}
+
+/**
+ * Serve the dev server over HTTPS (WebXR needs a secure context on the
+ * headset) unless the config already does.
+ */
+function patchViteConfig(text: string, fileName: string): { content: string; notes: string[] } {
+  const sourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true);
+  if (importsHttpsPlugin(sourceFile)) {
+    return { content: text, notes: ['HTTPS already comes from a Vite plugin'] };
+  }
+
+  const config = viteConfigObject(sourceFile);
+  if (!config) {
+    return { content: text, notes: ['could not find the config object; set server: { https: true } by hand'] };
+  }
+
+  const edit = (at: number, end: number, replacement: string) => text.slice(0, at) + replacement + text.slice(end);
+  const server = objectProperty(config, 'server');
+  if (!server) {
+    const insert = firstPropertyInsert(sourceFile, config, 'server: {\n  https: true,\n}');
+    return { content: edit(insert.at, insert.at, insert.text), notes: ['added server.https'] };
+  }
+  if (!ts.isPropertyAssignment(server) || !ts.isObjectLiteralExpression(server.initializer)) {
+    return { content: text, notes: ['server is not an object literal; set server.https by hand'] };
+  }
+
+  const https = objectProperty(server.initializer, 'https');
+  if (!https) {
+    const insert = firstPropertyInsert(sourceFile, server.initializer, 'https: true');
+    return { content: edit(insert.at, insert.at, insert.text), notes: ['added server.https'] };
+  }
+  if (ts.isPropertyAssignment(https) && https.initializer.kind === ts.SyntaxKind.FalseKeyword) {
+    return {
+      content: edit(https.initializer.getStart(sourceFile), https.initializer.getEnd(), 'true'),
+      notes: ['turned server.https on'],
+    };
+  }
+  return { content: text, notes: ['server.https already set'] };
+}
+
+/**
+ * What writing `files` into `root` would do to each file.
+ */
+export async function planProject(root: string, files: Record<string, string>, options: WriteOptions = {}): Promise<PlannedFile[]> {
+  const planned: PlannedFile[] = [];
+  const existingViteConfig = VITE_CONFIGS.find(name => existsSync(join(root, name)));
+
+  for (const [templatePath, content] of Object.entries(files)) {
+    // Merge into whichever Vite config the project already has
+    const path = options.merge && VITE_CONFIGS.includes(templatePath) && existingViteConfig ? existingViteConfig : templatePath;
+    const fullPath = join(root, path);
+
+    if (!existsSync(fullPath)) {
+      planned.push({ path, action: 'create', content, notes: [] });
+      continue;
+    }
+
+    const existing = await readFile(fullPath, 'utf-8');
+    if (existing === content) {
+      planned.push({ path, action: 'unchanged', notes: [] });
+    } else if (options.merge && (path === 'package.json' || VITE_CONFIGS.includes(path))) {
+      const patched = path === 'package.json' ? mergePackageJson(existing, content) : patchViteConfig(existing, path);
+      planned.push(patched.content === existing
+        ? { path, action: 'unchanged', notes: patched.notes }
+        : { path, action: 'patch', content: patched.content, notes: patched.notes });
+    } else if (options.force) {
+      planned.push({ path, action: 'overwrite', content, notes: [] });
+    } else if (options.merge) {
+      planned.push({ path, action: 'keep', content, notes: ['kept the project\'s own file'] });
+    } else {
+      planned.push({ path, action: 'conflict', notes: ['already exists'] });
+    }
+  }
+
+  return planned;
+}
+
+/**
+ * Write `files` into `outputDir`. Nothing is written on a dry run or when any
+ * file conflicts with an existing one.
+ */
+export async function writeProject(outputDir: string, files: Record<string, string>, options: WriteOptions = {}): Promise<WriteResult> {
+  const root = resolve(outputDir);
+  const planned = await planProject(root, files, options);
+
+  if (options.dryRun || planned.some(file => file.action === 'conflict')) {
+    return { root, files: planned, written: false };
+  }
+
+  for (const file of planned) {
+    if (file.action !== 'create' && file.action !== 'overwrite' && file.action !== 'patch') continue;
+    const fullPath = join(root, file.path);
+    await mkdir(dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, file.content!, 'utf-8');
+  }
+
+  return { root, files: planned, written: true };
+}
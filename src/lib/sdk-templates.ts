@@ -0,0 +1,825 @@
+/**
+ * Scaffold templates generated from the ingested SDK: every SDK name the
+ * generated code imports, every component field it sets and every World.create
+ * feature it enables is checked against the cache, and imports come from the
+ * package that actually exports the name at the ingested version.
+ */
+
+import { getWorldFeatures, loadEnhancedCache } from './cache-loader.js';
+
+// Tooling versions shared with the hand-written templates
+const TOOLING_DEV_DEPENDENCIES: Record<string, string> = {
+  typescript: '^5.3.0',
+  vite: '^5.0.0',
+};
+const THREE_VERSION = '^0.160.0';
+
+interface VitePlugin {
+  package: string;
+  /** Function the config imports and calls */
+  name: string;
+  call: string;
+  comment: string;
+}
+
+// Vite plugins are not ingested, so they follow the runtime packages' version
+const UIKITML_PLUGIN: VitePlugin = {
+  package: '@iwsdk/vite-plugin-uikitml',
+  name: 'compileUIKit',
+  call: `compileUIKit({ sourceDir: 'ui', outputDir: 'public/ui' })`,
+  comment: 'ui/*.uikitml -> public/ui/*.json, loaded through PanelUI\'s config',
+};
+const IWER_PLUGIN: VitePlugin = {
+  package: '@iwsdk/vite-plugin-iwer',
+  name: 'injectIWER',
+  call: `injectIWER({
+      device: 'metaQuest3',
+      activation: 'localhost',
+      sem: { defaultScene: 'living_room' }
+    })`,
+  comment: 'Emulated Quest 3 in a synthetic room when served from localhost; headsets keep their own runtime',
+};
+
+export interface ScaffoldTemplate {
+  description: string;
+  files: Record<string, string>;
+  /** Things the generated files leave to the developer, e.g. assets to add */
+  notes: string[];
+}
+
+interface TemplateContext {
+  version: string;
+  /** Export name -> package to import it from */
+  exportsByName: Map<string, string>;
+  /** Names the package re-exporting three resolved at ingest; empty when unknown */
+  threeNames: Set<string>;
+  /** Package re-exporting three, or 'three' itself */
+  threeSource: string;
+  /** Component name (and aliases) -> field names */
+  componentFields: Map<string, Set<string>>;
+  /** Enum name -> members, from the component fields that use it */
+  enums: Map<string, Record<string, string | number>>;
+  features: Set<string>;
+  /** SessionMode members and XRFeatureOptions keys; empty when not ingested */
+  sessionModes: Set<string>;
+  xrFeatures: Set<string>;
+  /** Names, fields and features the SDK does not have */
+  missing: string[];
+  /** Packages the generated imports use */
+  packages: Set<string>;
+}
+
+async function loadTemplateContext(): Promise<TemplateContext> {
+  const [cache, worldFeatures] = await Promise.all([loadEnhancedCache(), getWorldFeatures()]);
+
+  // A package re-exported by another one is imported through the latter,
+  // e.g. @iwsdk/locomotor names from @iwsdk/core
+  const reexportedBy = new Map<string, string>();
+  for (const [pkg, list] of Object.entries(cache.packageExports)) {
+    for (const module of list.reexports ?? []) {
+      if (!reexportedBy.has(module)) reexportedBy.set(module, pkg);
+    }
+  }
+  const entryPackage = (pkg: string) => reexportedBy.get(pkg) ?? pkg;
+
+  const exportsByName = new Map<string, string>();
+  const aliases: Record<string, string> = {};
+  for (const [pkg, list] of Object.entries(cache.packageExports)) {
+    for (const name of [...list.classes, ...list.functions, ...list.values, ...list.components, ...list.systems]) {
+      if (!exportsByName.has(name)) exportsByName.set(name, entryPackage(pkg));
+    }
+    Object.assign(aliases, list.aliases ?? {});
+  }
+
+  const threeSource = reexportedBy.get('three') ?? 'three';
+  const threeNames = new Set(threeSource === 'three' ? [] : cache.packageExports[threeSource]?.external?.three ?? []);
+
+  const componentFields = new Map<string, Set<string>>();
+  const enums = new Map<string, Record<string, string | number>>();
+  for (const component of Object.values(cache.components)) {
+    componentFields.set(component.name, new Set((component.fields ?? []).map(field => field.name)));
+    for (const field of component.fields ?? []) {
+      if (field.enum && field.enumValues && !enums.has(field.enum)) enums.set(field.enum, field.enumValues);
+    }
+  }
+  // Enums are listed with the types, including const objects that double as a
+  // type (RaycastSpace); they are values all the same
+  for (const [pkg, list] of Object.entries(cache.packageExports)) {
+    for (const name of list.types.filter(name => enums.has(name) || cache.types[name]?.kind === 'enum')) {
+      if (!exportsByName.has(name)) exportsByName.set(name, entryPackage(pkg));
+    }
+  }
+  for (const [alias, canonical] of Object.entries(aliases)) {
+    const fields = componentFields.get(canonical);
+    if (fields && !componentFields.has(alias)) componentFields.set(alias, fields);
+  }
+
+  const declaredNames = (type: string, pattern: RegExp) =>
+    new Set([...(cache.types[type]?.definition ?? '').matchAll(pattern)].map(match => match[1]));
+
+  return {
+    version: cache.metadata.iwsdkVersion,
+    exportsByName,
+    threeNames,
+    threeSource,
+    componentFields,
+    enums,
+    features: new Set(Object.keys(worldFeatures.features)),
+    sessionModes: declaredNames('SessionMode', /^\s*(\w+)\s*=/gm),
+    xrFeatures: declaredNames('XRFeatureOptions', /^\s*(\w+)\??:/gm),
+    missing: [],
+    packages: new Set(),
+  };
+}
+
+/**
+ * Import lines for `sdkNames` from the packages exporting them and for
+ * `threeNames` from wherever three comes from.
+ */
+function importLines(context: TemplateContext, sdkNames: string[], threeNames: string[] = []): string {
+  const byPackage = new Map<string, string[]>();
+  const add = (pkg: string, name: string) => byPackage.set(pkg, [...(byPackage.get(pkg) ?? []), name]);
+
+  for (const name of sdkNames) {
+    const pkg = context.exportsByName.get(name);
+    if (pkg) {
+      add(pkg, name);
+    } else {
+      context.missing.push(`export \`${name}\``);
+    }
+  }
+  for (const name of threeNames) {
+    if (context.threeNames.size > 0 && !context.threeNames.has(name)) {
+      context.missing.push(`three export \`${name}\` (via ${context.threeSource})`);
+    }
+    add(context.threeSource, name);
+  }
+
+  const lines: string[] = [];
+  for (const [pkg, names] of byPackage) {
+    context.packages.add(pkg);
+    lines.push(names.length > 3
+      ? `import {\n${[...names].sort().map(name => `  ${name},`).join('\n')}\n} from '${pkg}';`
+      : `import { ${[...names].sort().join(', ')} } from '${pkg}';`);
+  }
+  return lines.join('\n');
+}
+
+function requireFields(context: TemplateContext, fieldsByComponent: Record<string, string[]>): void {
+  for (const [component, fields] of Object.entries(fieldsByComponent)) {
+    const known = context.componentFields.get(component);
+    if (!known) {
+      context.missing.push(`component \`${component}\``);
+      continue;
+    }
+    for (const field of fields.filter(field => !known.has(field))) {
+      context.missing.push(`field \`${component}.${field}\``);
+    }
+  }
+}
+
+/**
+ * `Enum.Member` when the SDK exports the enum, otherwise the member's value.
+ * Some enums are only reachable through a component field's type (the
+ * ingest did not see them exported).
+ */
+function enumMember(context: TemplateContext, enumName: string, member: string): { source: string; imports: string[] } {
+  const value = context.enums.get(enumName)?.[member];
+  if (context.exportsByName.has(enumName)) {
+    return { source: `${enumName}.${member}`, imports: [enumName] };
+  }
+  if (value === undefined) {
+    context.missing.push(`enum member \`${enumName}.${member}\``);
+  }
+  return { source: JSON.stringify(value ?? member).replace(/"/g, "'"), imports: [] };
+}
+
+/**
+ * The `features` object for World.create: feature -> its option source.
+ * Caches without the feature map skip the check.
+ */
+function worldFeatures(context: TemplateContext, features: Record<string, string>): string {
+  if (context.features.size > 0) {
+    for (const feature of Object.keys(features).filter(feature => !context.features.has(feature))) {
+      context.missing.push(`World.create feature \`${feature}\``);
+    }
+  }
+  return `{ ${Object.entries(features).map(([feature, option]) => `${feature}: ${option}`).join(', ')} }`;
+}
+
+/**
+ * The `xr` object for World.create: a SessionMode member and the session
+ * features to request, feature -> its flag source.
+ */
+function xrOptions(context: TemplateContext, sessionMode: string, features: Record<string, string> = {}): string {
+  if (context.sessionModes.size > 0 && !context.sessionModes.has(sessionMode)) {
+    context.missing.push(`session mode \`SessionMode.${sessionMode}\``);
+  }
+  if (context.xrFeatures.size > 0) {
+    for (const feature of Object.keys(features).filter(feature => !context.xrFeatures.has(feature))) {
+      context.missing.push(`XR session feature \`${feature}\``);
+    }
+  }
+
+  const entries = Object.entries(features);
+  if (entries.length === 0) return `{ sessionMode: SessionMode.${sessionMode} }`;
+  return `{
+      sessionMode: SessionMode.${sessionMode},
+      features: { ${entries.map(([feature, flag]) => `${feature}: ${flag}`).join(', ')} }
+    }`;
+}
+
+function packageJson(context: TemplateContext, projectName: string, plugins: VitePlugin[]): string {
+  const dependencies: Record<string, string> = {};
+  for (const pkg of [...context.packages].sort()) {
+    dependencies[pkg] = pkg === 'three' ? THREE_VERSION : `^${context.version}`;
+  }
+  const devDependencies: Record<string, string> = {
+    ...Object.fromEntries(plugins.map(plugin => [plugin.package, `^${context.version}`])),
+    ...(context.packages.has('three') ? { '@types/three': THREE_VERSION } : {}),
+    ...TOOLING_DEV_DEPENDENCIES,
+  };
+
+  return JSON.stringify({
+    name: projectName,
+    version: '0.1.0',
+    type: 'module',
+    scripts: {
+      dev: 'vite',
+      build: 'tsc && vite build',
+      preview: 'vite preview',
+    },
+    dependencies,
+    devDependencies,
+  }, null, 2);
+}
+
+function sharedFiles(projectName: string, plugins: VitePlugin[]): Record<string, string> {
+  return {
+    'tsconfig.json': `{
+  "compilerOptions": {
+    "target": "ES2022",
+    "module": "ESNext",
+    "moduleResolution": "bundler",
+    "strict": true,
+    "esModuleInterop": true,
+    "skipLibCheck": true,
+    "forceConsistentCasingInFileNames": true
+  },
+  "include": ["src"]
+}`,
+    'vite.config.ts': `import { defineConfig } from 'vite';
+${plugins.map(plugin => `import { ${plugin.name} } from '${plugin.package}';`).join('\n')}
+
+export default defineConfig({
+  plugins: [
+${plugins.map(plugin => `    // ${plugin.comment}\n    ${plugin.call}`).join(',\n')}
+  ],
+  server: {
+    https: true,
+    port: 3000
+  }
+});`,
+    'index.html': `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${projectName}</title>
+    <style>
+      body { margin: 0; overflow: hidden; }
+      #app { width: 100vw; height: 100vh; }
+    </style>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.ts"></script>
+  </body>
+</html>`,
+  };
+}
+
+// Styles shared by the UIKitML panels
+const PANEL_STYLES = `<style>
+  .panel {
+    flex-direction: column;
+    align-items: center;
+    gap: 12px;
+    padding: 24px;
+    border-radius: 16px;
+    background-color: #18181b;
+  }
+  .title { font-size: 28px; font-weight: bold; color: #fafafa; }
+  .body { font-size: 16px; color: #a1a1aa; }
+  .row { flex-direction: row; gap: 8px; }
+  .button {
+    padding: 10px 20px;
+    border-radius: 8px;
+    background-color: #3b82f6;
+    color: #ffffff;
+    font-size: 16px;
+  }
+</style>`;
+
+/**
+ * Button that enters XR from the browser and leaves it again, inside a
+ * system's panel `qualify` handler. `document` is the panel's UIKitDocument.
+ */
+const XR_BUTTON_WIRING = `      const xrButton = document.getElementById('xr-button');
+      xrButton?.addEventListener('click', () => {
+        if (this.world.visibilityState.value === VisibilityState.NonImmersive) {
+          this.world.launchXR();
+        } else {
+          this.world.exitXR();
+        }
+      });
+      this.cleanupFuncs.push(
+        this.world.visibilityState.subscribe((state) => {
+          xrButton?.setProperties({ text: state === VisibilityState.NonImmersive ? 'Enter XR' : 'Exit to Browser' });
+        })
+      );`;
+
+function uiDemo(context: TemplateContext, projectName: string): ScaffoldTemplate {
+  requireFields(context, {
+    PanelUI: ['config', 'maxWidth', 'maxHeight'],
+    PanelDocument: ['document'],
+    ScreenSpace: ['top', 'left', 'width', 'height'],
+    Follower: ['target', 'offsetPosition', 'behavior', 'speed', 'tolerance'],
+  });
+
+  const main = `${importLines(context,
+    ['World', 'SessionMode', 'PanelUI', 'ScreenSpace', 'Follower', 'FollowBehavior', 'RayInteractable'],
+    ['BoxGeometry', 'Mesh', 'MeshStandardMaterial'])}
+import { Recolorable } from './components.js';
+import { PanelSystem } from './panel-system.js';
+
+async function main() {
+  const world = await World.create(document.getElementById('app') as HTMLDivElement, {
+    xr: ${xrOptions(context, 'ImmersiveVR')},
+    features: ${worldFeatures(context, { spatialUI: 'true' })}
+  });
+
+  // Welcome panel: a 2D overlay in the browser, placed in the room in XR
+  const welcome = world.createTransformEntity();
+  welcome.object3D!.position.set(0, 1.5, -1.2);
+  welcome.addComponent(PanelUI, { config: './ui/welcome.json', maxWidth: 0.8, maxHeight: 0.5 });
+  welcome.addComponent(RayInteractable);
+  welcome.addComponent(ScreenSpace, { top: '24px', left: '24px', width: '40vw', height: 'auto' });
+
+  // Swatches that recolor the cube
+  const palette = world.createTransformEntity();
+  palette.object3D!.position.set(0.7, 1.2, -1);
+  palette.object3D!.rotation.y = -Math.PI / 6;
+  palette.addComponent(PanelUI, { config: './ui/palette.json', maxWidth: 0.5, maxHeight: 0.3 });
+  palette.addComponent(RayInteractable);
+
+  // HUD that trails the head
+  const hud = world.createTransformEntity();
+  hud.addComponent(PanelUI, { config: './ui/hud.json', maxWidth: 0.25, maxHeight: 0.08 });
+  hud.addComponent(Follower, {
+    target: world.player.head,
+    offsetPosition: [0, -0.25, -0.6],
+    behavior: FollowBehavior.FaceTarget,
+    speed: 5,
+    tolerance: 0.3
+  });
+
+  const cube = world.createTransformEntity(
+    new Mesh(new BoxGeometry(0.3, 0.3, 0.3), new MeshStandardMaterial({ color: 0x3b82f6 }))
+  );
+  cube.object3D!.position.set(-0.6, 1.2, -1.2);
+  cube.addComponent(Recolorable);
+
+  world.registerSystem(PanelSystem);
+}
+
+main().catch(console.error);`;
+
+  const components = `${importLines(context, ['createComponent'])}
+
+/** Meshes the palette panel recolors */
+export const Recolorable = createComponent('Recolorable', {}, 'Mesh recolored by the palette panel');`;
+
+  const panelSystem = `${importLines(context,
+    ['createSystem', 'eq', 'PanelUI', 'PanelDocument', 'UIKitDocument', 'VisibilityState'],
+    ['Mesh', 'MeshStandardMaterial'])}
+import { Recolorable } from './components.js';
+
+// Palette button id -> color
+const SWATCHES: Record<string, number> = {
+  'swatch-blue': 0x3b82f6,
+  'swatch-green': 0x22c55e,
+  'swatch-orange': 0xf97316,
+};
+// Seconds between HUD refreshes
+const HUD_INTERVAL = 0.5;
+
+export class PanelSystem extends createSystem({
+  welcome: { required: [PanelUI, PanelDocument], where: [eq(PanelUI, 'config', './ui/welcome.json')] },
+  palette: { required: [PanelUI, PanelDocument], where: [eq(PanelUI, 'config', './ui/palette.json')] },
+  hud: { required: [PanelUI, PanelDocument], where: [eq(PanelUI, 'config', './ui/hud.json')] },
+  recolorable: { required: [Recolorable] },
+}) {
+  private frames = 0;
+  private elapsed = 0;
+
+  init() {
+    // PanelDocument is added once the panel's JSON has loaded
+    this.queries.welcome.subscribe('qualify', (entity) => {
+      const document = entity.getValue(PanelDocument, 'document') as UIKitDocument;
+${XR_BUTTON_WIRING}
+    });
+
+    this.queries.palette.subscribe('qualify', (entity) => {
+      const document = entity.getValue(PanelDocument, 'document') as UIKitDocument;
+      for (const [id, color] of Object.entries(SWATCHES)) {
+        document.getElementById(id)?.addEventListener('click', () => {
+          for (const target of this.queries.recolorable.entities) {
+            ((target.object3D as Mesh).material as MeshStandardMaterial).color.setHex(color);
+          }
+        });
+      }
+    });
+  }
+
+  update(delta: number) {
+    this.frames++;
+    this.elapsed += delta;
+    if (this.elapsed < HUD_INTERVAL) return;
+
+    const fps = Math.round(this.frames / this.elapsed);
+    for (const entity of this.queries.hud.entities) {
+      const document = entity.getValue(PanelDocument, 'document') as UIKitDocument;
+      document.getElementById('fps')?.setProperties({ text: fps + ' fps' });
+    }
+    this.frames = 0;
+    this.elapsed = 0;
+  }
+}`;
+
+  return {
+    description: 'Spatial UI showcase with UIKitML panels: world-space, screen-space and head-following',
+    files: {
+      'package.json': packageJson(context, projectName, [UIKITML_PLUGIN]),
+      ...sharedFiles(projectName, [UIKITML_PLUGIN]),
+      'ui/welcome.uikitml': `${PANEL_STYLES}
+<div class="panel">
+  <span class="title">${projectName}</span>
+  <span class="body">Panels built with UIKitML</span>
+  <button id="xr-button" class="button">Enter XR</button>
+</div>`,
+      'ui/palette.uikitml': `${PANEL_STYLES}
+<div class="panel">
+  <span class="body">Cube color</span>
+  <div class="row">
+    <button id="swatch-blue" class="button" style="background-color: #3b82f6">Blue</button>
+    <button id="swatch-green" class="button" style="background-color: #22c55e">Green</button>
+    <button id="swatch-orange" class="button" style="background-color: #f97316">Orange</button>
+  </div>
+</div>`,
+      'ui/hud.uikitml': `${PANEL_STYLES}
+<div class="panel" style="padding: 8px; border-radius: 8px">
+  <span id="fps" class="body">-- fps</span>
+</div>`,
+      'src/main.ts': main,
+      'src/components.ts': components,
+      'src/panel-system.ts': panelSystem,
+    },
+    notes: [],
+  };
+}
+
+function fullFeatured(context: TemplateContext, projectName: string): ScaffoldTemplate {
+  requireFields(context, {
+    PanelUI: ['config', 'maxWidth', 'maxHeight'],
+    PanelDocument: ['document'],
+    ScreenSpace: ['top', 'right', 'width', 'height'],
+    LocomotionEnvironment: ['type'],
+    PhysicsShape: ['shape', 'dimensions'],
+    PhysicsBody: ['state'],
+    PhysicsManipulation: ['linearVelocity'],
+    OneHandGrabbable: ['rotate', 'translate'],
+    AudioSource: ['src', 'positional'],
+  });
+
+  const main = `${importLines(context,
+    [
+      'World', 'SessionMode', 'PanelUI', 'ScreenSpace', 'RayInteractable', 'OneHandGrabbable', 'DistanceGrabbable',
+      'PhysicsBody', 'PhysicsShape', 'PhysicsShapeType', 'PhysicsState', 'LocomotionEnvironment', 'EnvironmentType',
+      'AudioSource',
+    ],
+    ['BoxGeometry', 'Mesh', 'MeshStandardMaterial', 'SphereGeometry'])}
+import { PlaygroundSystem } from './playground-system.js';
+
+const BALL_RADIUS = 0.08;
+const BALL_COLORS = [0xef4444, 0x3b82f6, 0xeab308];
+
+async function main() {
+  const world = await World.create(document.getElementById('app') as HTMLDivElement, {
+    xr: ${xrOptions(context, 'ImmersiveVR')},
+    features: ${worldFeatures(context, { locomotion: 'true', grabbing: 'true', physics: 'true', spatialUI: 'true' })}
+  });
+
+  // Floor: walkable for locomotion, solid for physics
+  const floor = world.createTransformEntity(
+    new Mesh(new BoxGeometry(20, 0.1, 20), new MeshStandardMaterial({ color: 0x3f4f44 }))
+  );
+  floor.object3D!.position.set(0, -0.05, 0);
+  floor.addComponent(LocomotionEnvironment, { type: EnvironmentType.STATIC });
+  floor.addComponent(PhysicsShape, { shape: PhysicsShapeType.Box, dimensions: [20, 0.1, 20] });
+  floor.addComponent(PhysicsBody, { state: PhysicsState.Static });
+
+  const table = world.createTransformEntity(
+    new Mesh(new BoxGeometry(1.2, 0.8, 0.6), new MeshStandardMaterial({ color: 0x8b5e3c }))
+  );
+  table.object3D!.position.set(0, 0.4, -1);
+  table.addComponent(LocomotionEnvironment, { type: EnvironmentType.STATIC });
+  table.addComponent(PhysicsShape, { shape: PhysicsShapeType.Box, dimensions: [1.2, 0.8, 0.6] });
+  table.addComponent(PhysicsBody, { state: PhysicsState.Static });
+
+  // Balls to pick up and throw; each chimes when grabbed
+  BALL_COLORS.forEach((color, i) => {
+    const ball = world.createTransformEntity(
+      new Mesh(new SphereGeometry(BALL_RADIUS), new MeshStandardMaterial({ color }))
+    );
+    ball.object3D!.position.set(-0.3 + i * 0.3, 1, -1);
+    ball.addComponent(PhysicsShape, { shape: PhysicsShapeType.Sphere, dimensions: [BALL_RADIUS, 0, 0] });
+    ball.addComponent(PhysicsBody, { state: PhysicsState.Dynamic });
+    ball.addComponent(RayInteractable);
+    ball.addComponent(OneHandGrabbable, { rotate: true, translate: true });
+    ball.addComponent(AudioSource, { src: './audio/chime.mp3', positional: true });
+  });
+
+  // A crate to pull in from across the room
+  const crate = world.createTransformEntity(
+    new Mesh(new BoxGeometry(0.4, 0.4, 0.4), new MeshStandardMaterial({ color: 0xa16207 }))
+  );
+  crate.object3D!.position.set(1.5, 0.2, -3);
+  crate.addComponent(PhysicsShape, { shape: PhysicsShapeType.Box, dimensions: [0.4, 0.4, 0.4] });
+  crate.addComponent(PhysicsBody, { state: PhysicsState.Dynamic });
+  crate.addComponent(RayInteractable);
+  crate.addComponent(DistanceGrabbable);
+
+  // Controls: a 2D overlay in the browser, beside the table in XR
+  const controls = world.createTransformEntity();
+  controls.object3D!.position.set(-1, 1.3, -1.2);
+  controls.object3D!.rotation.y = Math.PI / 6;
+  controls.addComponent(PanelUI, { config: './ui/controls.json', maxWidth: 0.6, maxHeight: 0.4 });
+  controls.addComponent(RayInteractable);
+  controls.addComponent(ScreenSpace, { top: '24px', right: '24px', width: '30vw', height: 'auto' });
+
+  world.registerSystem(PlaygroundSystem);
+}
+
+main().catch(console.error);`;
+
+  const playgroundSystem = `${importLines(context, [
+    'createSystem', 'eq', 'AudioSource', 'AudioUtils', 'Grabbed', 'OneHandGrabbable', 'PanelUI', 'PanelDocument',
+    'PhysicsBody', 'PhysicsManipulation', 'UIKitDocument', 'VisibilityState',
+  ])}
+
+// Upward velocity the Launch button gives each ball, in m/s
+const LAUNCH_SPEED = 4;
+
+export class PlaygroundSystem extends createSystem({
+  controls: { required: [PanelUI, PanelDocument], where: [eq(PanelUI, 'config', './ui/controls.json')] },
+  balls: { required: [OneHandGrabbable, PhysicsBody] },
+  grabbed: { required: [AudioSource, Grabbed] },
+}) {
+  private grabs = 0;
+  private document?: UIKitDocument;
+
+  init() {
+    // PanelDocument is added once the panel's JSON has loaded
+    this.queries.controls.subscribe('qualify', (entity) => {
+      const document = entity.getValue(PanelDocument, 'document') as UIKitDocument;
+      this.document = document;
+${XR_BUTTON_WIRING}
+
+      document.getElementById('launch-button')?.addEventListener('click', () => {
+        for (const ball of this.queries.balls.entities) {
+          ball.addComponent(PhysicsManipulation, { linearVelocity: [0, LAUNCH_SPEED, 0] });
+        }
+      });
+    });
+
+    // Grabbed is added by the grab system while a hand holds the entity
+    this.queries.grabbed.subscribe('qualify', (entity) => {
+      AudioUtils.play(entity);
+      this.grabs++;
+      this.document?.getElementById('grab-count')?.setProperties({ text: 'Grabs: ' + this.grabs });
+    });
+  }
+}`;
+
+  return {
+    description: 'Grabbing, physics, locomotion, audio and UI wired together',
+    files: {
+      'package.json': packageJson(context, projectName, [UIKITML_PLUGIN]),
+      ...sharedFiles(projectName, [UIKITML_PLUGIN]),
+      'ui/controls.uikitml': `${PANEL_STYLES}
+<div class="panel">
+  <span class="title">${projectName}</span>
+  <span id="grab-count" class="body">Grabs: 0</span>
+  <div class="row">
+    <button id="launch-button" class="button">Launch</button>
+    <button id="xr-button" class="button">Enter XR</button>
+  </div>
+</div>`,
+      'src/main.ts': main,
+      'src/playground-system.ts': playgroundSystem,
+    },
+    notes: ['Add a short sound at `public/audio/chime.mp3`; the balls play it when grabbed.'],
+  };
+}
+
+// Warns when the browser has no AR session to offer
+const AR_SUPPORT_CHECK = `  // The emulator only injects itself on localhost; elsewhere a browser without AR shows the 3D view
+  if (!(await navigator.xr?.isSessionSupported('immersive-ar'))) {
+    console.warn('immersive-ar is not available here. On desktop, open https://localhost:3000 for the emulated headset.');
+  }`;
+
+function arPlacement(context: TemplateContext, projectName: string): ScaffoldTemplate {
+  requireFields(context, {
+    EnvironmentRaycastTarget: ['space', 'xrHitTestResult'],
+    XRAnchor: [],
+  });
+  const space = enumMember(context, 'RaycastSpace', 'Right');
+
+  const main = `${importLines(context,
+    ['World', 'SessionMode', 'EnvironmentRaycastTarget', ...space.imports],
+    ['HemisphereLight', 'Mesh', 'MeshBasicMaterial', 'RingGeometry'])}
+import { PlacementSystem } from './placement-system.js';
+
+async function main() {
+${AR_SUPPORT_CHECK}
+
+  const world = await World.create(document.getElementById('app') as HTMLDivElement, {
+    // The reticle needs hit-testing; anchors only steady the placed objects
+    xr: ${xrOptions(context, 'ImmersiveAR', { hitTest: '{ required: true }', anchors: 'true' })},
+    // No generated backdrop, so passthrough shows behind the scene
+    render: { defaultLighting: false },
+    features: ${worldFeatures(context, { environmentRaycast: 'true', sceneUnderstanding: 'true' })}
+  });
+  world.scene.add(new HemisphereLight(0xffffff, 0x444444, 2));
+
+  // Reticle that sits wherever the right controller's ray meets a real surface
+  const reticle = world.createTransformEntity(
+    new Mesh(new RingGeometry(0.04, 0.05, 32).rotateX(-Math.PI / 2), new MeshBasicMaterial({ color: 0xffffff }))
+  );
+  reticle.addComponent(EnvironmentRaycastTarget, { space: ${space.source} });
+
+  world.registerSystem(PlacementSystem);
+}
+
+main().catch(console.error);`;
+
+  const placementSystem = `${importLines(context,
+    ['createSystem', 'EnvironmentRaycastTarget', 'XRAnchor'],
+    ['BoxGeometry', 'Mesh', 'MeshStandardMaterial'])}
+
+// Edge of the placed cubes, in meters
+const MARKER_SIZE = 0.1;
+
+export class PlacementSystem extends createSystem({
+  reticles: { required: [EnvironmentRaycastTarget] },
+}) {
+  // Shared by every marker; only the material color differs
+  private readonly markerGeometry = new BoxGeometry(MARKER_SIZE, MARKER_SIZE, MARKER_SIZE);
+
+  update() {
+    if (!this.input.xr.gamepads.right?.getSelectStart()) return;
+
+    for (const reticle of this.queries.reticles.entities) {
+      // No hit: the reticle is hidden and there is nowhere to place
+      if (!reticle.getValue(EnvironmentRaycastTarget, 'xrHitTestResult')) continue;
+
+      const marker = this.world.createTransformEntity(
+        new Mesh(this.markerGeometry, new MeshStandardMaterial({ color: Math.random() * 0xffffff }))
+      );
+      marker.object3D!.position.copy(reticle.object3D!.position);
+      marker.object3D!.quaternion.copy(reticle.object3D!.quaternion);
+      marker.object3D!.translateY(MARKER_SIZE / 2);
+      // Pinned to the real-world spot as tracking refines
+      marker.addComponent(XRAnchor);
+    }
+  }
+}`;
+
+  return {
+    description: 'Passthrough AR: place anchored objects on real surfaces with hit-testing',
+    files: {
+      'package.json': packageJson(context, projectName, [IWER_PLUGIN]),
+      ...sharedFiles(projectName, [IWER_PLUGIN]),
+      'src/main.ts': main,
+      'src/placement-system.ts': placementSystem,
+    },
+    notes: [],
+  };
+}
+
+function arScene(context: TemplateContext, projectName: string): ScaffoldTemplate {
+  requireFields(context, {
+    XRPlane: [],
+    XRMesh: ['isBounded3D', 'semanticLabel', 'min', 'max', 'dimensions'],
+  });
+
+  const main = `${importLines(context, ['World', 'SessionMode'], ['HemisphereLight'])}
+import { SceneSystem } from './scene-system.js';
+
+async function main() {
+${AR_SUPPORT_CHECK}
+
+  const world = await World.create(document.getElementById('app') as HTMLDivElement, {
+    xr: ${xrOptions(context, 'ImmersiveAR', { planeDetection: 'true', meshDetection: 'true' })},
+    // No generated backdrop, so passthrough shows behind the scene
+    render: { defaultLighting: false },
+    // Wireframes over every detected plane and mesh
+    features: ${worldFeatures(context, { sceneUnderstanding: '{ showWireFrame: true }' })}
+  });
+  world.scene.add(new HemisphereLight(0xffffff, 0x444444, 2));
+
+  world.registerSystem(SceneSystem);
+}
+
+main().catch(console.error);`;
+
+  const sceneSystem = `${importLines(context,
+    ['createSystem', 'XRMesh', 'XRPlane'],
+    ['BoxGeometry', 'Mesh', 'MeshBasicMaterial'])}
+
+export class SceneSystem extends createSystem({
+  planes: { required: [XRPlane] },
+  meshes: { required: [XRMesh] },
+}) {
+  private planeCount = 0;
+  private meshCount = 0;
+
+  init() {
+    // Scene understanding creates and destroys these entities as the room is tracked
+    this.queries.planes.subscribe('qualify', () => this.report(++this.planeCount, this.meshCount));
+    this.queries.planes.subscribe('disqualify', () => this.report(--this.planeCount, this.meshCount));
+    this.queries.meshes.subscribe('disqualify', () => this.report(this.planeCount, --this.meshCount));
+
+    this.queries.meshes.subscribe('qualify', (entity) => {
+      this.report(this.planeCount, ++this.meshCount);
+      // Bounded meshes are furniture and objects; the rest is the room shell
+      if (!entity.getValue(XRMesh, 'isBounded3D')) return;
+
+      const [width, height, depth] = entity.getVectorView(XRMesh, 'dimensions');
+      const min = entity.getVectorView(XRMesh, 'min');
+      const max = entity.getVectorView(XRMesh, 'max');
+      const bounds = new Mesh(
+        new BoxGeometry(width, height, depth),
+        new MeshBasicMaterial({ color: 0x22c55e, transparent: true, opacity: 0.25 })
+      );
+      bounds.position.set((min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2);
+      entity.object3D!.add(bounds);
+      console.log('Found ' + (entity.getValue(XRMesh, 'semanticLabel') || 'an object'));
+    });
+  }
+
+  private report(planes: number, meshes: number) {
+    console.log(planes + ' planes, ' + meshes + ' meshes');
+  }
+}`;
+
+  return {
+    description: 'Passthrough AR with plane and mesh detection from scene understanding',
+    files: {
+      'package.json': packageJson(context, projectName, [IWER_PLUGIN]),
+      ...sharedFiles(projectName, [IWER_PLUGIN]),
+      'src/main.ts': main,
+      'src/scene-system.ts': sceneSystem,
+    },
+    notes: [
+      'On a headset, planes and meshes come from its room setup (Space Setup on Quest); the emulator\'s living_room scene provides them on desktop.',
+    ],
+  };
+}
+
+const BUILDERS: Record<string, (context: TemplateContext, projectName: string) => ScaffoldTemplate> = {
+  'ui-demo': uiDemo,
+  'full-featured': fullFeatured,
+  'ar-placement': arPlacement,
+  'ar-scene': arScene,
+};
+
+/**
+ * Build `template` against the ingested SDK, or undefined when it is not an
+ * SDK-generated template.
+ */
+export async function buildSdkTemplate(template: string, projectName: string): Promise<ScaffoldTemplate | undefined> {
+  const builder = BUILDERS[template];
+  if (!builder) return undefined;
+
+  const context = await loadTemplateContext();
+  const built = builder(context, projectName);
+  if (context.missing.length > 0) {
+    throw new Error(
+      `The ${template} template needs ${[...new Set(context.missing)].join(', ')}, ` +
+      `which the ingested IWSDK ${context.version} does not provide. Re-ingest a matching SDK version.`
+    );
+  }
+  return built;
+}
@@ -0,0 +1,243 @@
+/**
+ * BM25 full-text index over the ingested cache.
+ *
+ * The index is built by scripts/ingest-source.ts and queried at runtime, so both
+ * sides must tokenise text with the same `tokenize` function below.
+ */
+
+export type SearchDocType = 'component' | 'system' | 'type' | 'example' | 'guide' | 'mistake';
+
+export interface SearchDocument {
+  id: string;
+  type: SearchDocType;
+  title: string;
+  /** Field name -> text. Field names must have an entry in FIELD_BOOSTS. */
+  fields: Record<string, string>;
+  /** Text used to build result snippets */
+  snippetText: string;
+}
+
+export interface SearchIndex {
+  version: number;
+  k1: number;
+  b: number;
+  averageLength: number;
+  documents: Array<{
+    id: string;
+    type: SearchDocType;
+    title: string;
+    length: number;
+    snippetText: string;
+  }>;
+  /** term -> [documentIndex, weighted term frequency][] */
+  postings: Record<string, Array<[number, number]>>;
+}
+
+export interface SearchHit {
+  id: string;
+  type: SearchDocType;
+  title: string;
+  score: number;
+  snippet: string;
+}
+
+export const FIELD_BOOSTS: Record<string, number> = {
+  name: 3,
+  title: 3,
+  keywords: 2,
+  tags: 2,
+  description: 2,
+  category: 1.5,
+  components: 1.5,
+  fields: 1,
+  remarks: 1,
+  methods: 1,
+  body: 1,
+  definition: 0.5,
+  code: 0.5,
+};
+
+const INDEX_VERSION = 1;
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'how', 'i', 'if',
+  'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their',
+  'then', 'there', 'this', 'to', 'too', 'up', 'was', 'we', 'what', 'when', 'which', 'will', 'with',
+  'you', 'your',
+]);
+
+// Checked in order; the first suffix that leaves a stem of at least 3 characters wins
+const SUFFIXES = [
+  'ations', 'ation', 'nesses', 'ness', 'ments', 'ment', 'ables', 'able', 'ibles', 'ible',
+  'ings', 'ing', 'edly', 'ed', 'ies', 'es', 's', 'ly',
+];
+
+/**
+ * Light suffix-stripping stemmer. It is deliberately aggressive so that
+ * "grab", "grabbed", "grabbing" and "grabbable" all collapse to "grab".
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let result = word;
+  for (const suffix of SUFFIXES) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length) + (suffix === 'ies' ? 'y' : '');
+      break;
+    }
+  }
+
+  // grabb -> grab, runn -> run
+  if (/([^aeiouls])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  // bounce/bounced -> bounc, move/moving -> mov
+  if (result.length > 3 && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+/**
+ * Split camelCase / PascalCase identifiers: "PanelUISystem" -> "Panel UI System".
+ */
+export function splitCamelCase(text: string): string {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2');
+}
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const raw of text.match(/[A-Za-z0-9]+/g) || []) {
+    const parts = splitCamelCase(raw).toLowerCase().split(' ');
+
+    // Keep the whole identifier too so exact names still rank first
+    if (parts.length > 1) {
+      tokens.push(raw.toLowerCase());
+    }
+
+    for (const part of parts) {
+      if (part.length < 2 || STOP_WORDS.has(part)) continue;
+      tokens.push(stem(part));
+    }
+  }
+
+  return tokens;
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings = new Map<string, Array<[number, number]>>();
+  const indexed: SearchIndex['documents'] = [];
+  let totalLength = 0;
+
+  documents.forEach((doc, docIndex) => {
+    const frequencies = new Map<string, number>();
+    let length = 0;
+
+    for (const [field, text] of Object.entries(doc.fields)) {
+      const boost = FIELD_BOOSTS[field] ?? 1;
+      for (const token of tokenize(text)) {
+        frequencies.set(token, (frequencies.get(token) || 0) + boost);
+        length += boost;
+      }
+    }
+
+    for (const [term, frequency] of frequencies) {
+      if (!postings.has(term)) {
+        postings.set(term, []);
+      }
+      postings.get(term)!.push([docIndex, Math.round(frequency * 100) / 100]);
+    }
+
+    totalLength += length;
+    indexed.push({
+      id: doc.id,
+      type: doc.type,
+      title: doc.title,
+      length: Math.round(length * 100) / 100,
+      snippetText: doc.snippetText,
+    });
+  });
+
+  return {
+    version: INDEX_VERSION,
+    k1: K1,
+    b: B,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+    documents: indexed,
+    postings: Object.fromEntries(postings),
+  };
+}
+
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  options: { types?: SearchDocType[]; limit?: number } = {}
+): SearchHit[] {
+  const terms = [...new Set(tokenize(query))];
+  const scores = new Map<number, number>();
+  const totalDocs = index.documents.length;
+
+  for (const term of terms) {
+    // Terms like "constructor" must not resolve to Object.prototype members
+    if (!Object.hasOwn(index.postings, term)) continue;
+    const termPostings = index.postings[term];
+
+    const idf = Math.log(1 + (totalDocs - termPostings.length + 0.5) / (termPostings.length + 0.5));
+
+    for (const [docIndex, frequency] of termPostings) {
+      const doc = index.documents[docIndex];
+      if (options.types && !options.types.includes(doc.type)) continue;
+
+      const norm = index.k1 * (1 - index.b + index.b * (doc.length / (index.averageLength || 1)));
+      const score = idf * (frequency * (index.k1 + 1)) / (frequency + norm);
+      scores.set(docIndex, (scores.get(docIndex) || 0) + score);
+    }
+  }
+
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, options.limit ?? 10)
+    .map(([docIndex, score]) => {
+      const doc = index.documents[docIndex];
+      return {
+        id: doc.id,
+        type: doc.type,
+        title: doc.title,
+        score: Math.round(score * 100) / 100,
+        snippet: buildSnippet(doc.snippetText, terms),
+      };
+    });
+}
+
+/**
+ * Pick the line of the snippet text that contains the most query terms.
+ */
+function buildSnippet(text: string, terms: string[], maxLength = 200): string {
+  const lines = text.split(/\n+/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) {
+    return '';
+  }
+
+  const termSet = new Set(terms);
+  let best = lines[0];
+  let bestMatches = 0;
+
+  for (const line of lines) {
+    const matches = tokenize(line).filter(token => termSet.has(token)).length;
+    if (matches > bestMatches) {
+      best = line;
+      bestMatches = matches;
+    }
+  }
+
+  return best.length > maxLength ? `${best.slice(0, maxLength - 3)}...` : best;
+}
@@ -0,0 +1,49 @@
+/**
+ * "Did you mean" helpers for names that do not match the ingested SDK.
+ */
+
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Closest candidate by case-insensitive edit distance, or null when nothing is
+ * within `maxDistance` (default: a third of the name's length, at least 2).
+ * A candidate sharing a prefix or suffix with the name counts as distance 1.
+ */
+export function closestMatch(name: string, candidates: Iterable<string>, maxDistance?: number): string | null {
+  const limit = maxDistance ?? Math.max(2, Math.floor(name.length / 3));
+  const lower = name.toLowerCase();
+  let best: string | null = null;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const candidateLower = candidate.toLowerCase();
+    let distance = levenshtein(lower, candidateLower);
+
+    // "rotation" -> "rotate", "Grabbable" -> "OneHandGrabbable": shared stems count as close
+    const shorter = lower.length < candidateLower.length ? lower : candidateLower;
+    const longer = shorter === lower ? candidateLower : lower;
+    if (shorter.length >= 4 && (longer.startsWith(shorter.slice(0, -1)) || longer.endsWith(shorter))) {
+      distance = Math.min(distance, 1);
+    }
+
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= limit ? best : null;
+}
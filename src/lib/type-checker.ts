@@ -0,0 +1,306 @@
+/**
+ * In-process type checking of snippets against the IWSDK declaration files
+ * captured at ingest (cache/types/node_modules).
+ *
+ * Snippets are often fragments that use `world` or IWSDK classes without
+ * declaring or importing them. Names @iwsdk/core exports are assumed to be in
+ * scope with their real types, so the rest of the snippet is still checked.
+ */
+
+import * as ts from 'typescript';
+import { existsSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import { getDeclarationsDir } from './cache-loader.js';
+import type { Finding, Severity } from './code-validator.js';
+import { closestMatch } from './suggestions.js';
+
+const CORE_PACKAGE = '@iwsdk/core';
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  // Top-level await and imports-free fragments both parse as modules
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  jsx: ts.JsxEmit.Preserve,
+  strict: true,
+  noEmit: true,
+  skipLibCheck: true,
+  types: [],
+};
+
+// Conventional variables snippets use without declaring them -> @iwsdk/core type
+const ASSUMED_VARIABLES: Record<string, string> = {
+  world: 'World',
+};
+
+const CANNOT_FIND_NAME = new Set([2304, 2552]);
+const MISSING_PROPERTY = new Set([2339, 2551]);
+const POSSIBLY_UNDEFINED = new Set([2532, 18047, 18048]);
+const NOT_ASSIGNABLE = new Set([2322, 2345, 2353, 2561]);
+const NO_EXPORTED_MEMBER = new Set([2305, 2614, 2724]);
+const CANNOT_FIND_MODULE = new Set([2307, 2792]);
+
+export interface TypecheckResult {
+  sourceFile: ts.SourceFile;
+  findings: Finding[];
+  /** Names taken from @iwsdk/core because the snippet uses them without declaring them */
+  assumed: string[];
+  /** Dependencies captured without declarations; everything imported from them is `any` */
+  untyped: string[];
+}
+
+// Declaration files are parsed once and shared by every check
+const declarationFiles = new Map<string, ts.SourceFile>();
+let previousProgram: ts.Program | undefined;
+
+function createHost(virtualFiles: Map<string, string>): ts.CompilerHost {
+  const host = ts.createCompilerHost(COMPILER_OPTIONS, true);
+  const { getSourceFile, fileExists, readFile } = host;
+
+  host.getSourceFile = (fileName, languageVersion, onError) => {
+    const text = virtualFiles.get(fileName);
+    if (text !== undefined) {
+      return ts.createSourceFile(fileName, text, languageVersion, true);
+    }
+
+    let sourceFile = declarationFiles.get(fileName);
+    if (!sourceFile) {
+      sourceFile = getSourceFile.call(host, fileName, languageVersion, onError);
+      if (sourceFile) {
+        declarationFiles.set(fileName, sourceFile);
+      }
+    }
+    return sourceFile;
+  };
+  host.fileExists = fileName => virtualFiles.has(fileName) || fileExists.call(host, fileName);
+  host.readFile = fileName => virtualFiles.get(fileName) ?? readFile.call(host, fileName);
+
+  return host;
+}
+
+function createSnippetProgram(rootNames: string[], virtualFiles: Map<string, string>): ts.Program {
+  previousProgram = ts.createProgram({
+    rootNames,
+    options: COMPILER_OPTIONS,
+    host: createHost(virtualFiles),
+    oldProgram: previousProgram,
+  });
+  return previousProgram;
+}
+
+function snippetDiagnostics(program: ts.Program, sourceFile: ts.SourceFile): ts.Diagnostic[] {
+  return [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)];
+}
+
+function diagnosticText(sourceFile: ts.SourceFile, diagnostic: ts.Diagnostic): string {
+  const start = diagnostic.start ?? 0;
+  return sourceFile.text.slice(start, start + (diagnostic.length ?? 0));
+}
+
+/**
+ * @iwsdk/core exports by name, resolved through re-exports.
+ */
+function coreExports(program: ts.Program, coreEntry: string): Map<string, ts.Symbol> {
+  const checker = program.getTypeChecker();
+  const coreFile = program.getSourceFile(coreEntry);
+  const moduleSymbol = coreFile && checker.getSymbolAtLocation(coreFile);
+  const exports = new Map<string, ts.Symbol>();
+
+  for (const symbol of moduleSymbol ? checker.getExportsOfModule(moduleSymbol) : []) {
+    exports.set(symbol.name, symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol);
+  }
+
+  return exports;
+}
+
+/**
+ * Global declarations for the names a fragment uses without declaring them.
+ */
+function assumedGlobals(names: Set<string>, exports: Map<string, ts.Symbol>): { text: string; assumed: string[] } {
+  const lines: string[] = [];
+  const assumed: string[] = [];
+
+  for (const name of [...names].sort()) {
+    const variableType = ASSUMED_VARIABLES[name];
+    if (variableType && exports.has(variableType)) {
+      lines.push(`  const ${name}: import('${CORE_PACKAGE}').${variableType};`);
+      assumed.push(name);
+      continue;
+    }
+
+    const symbol = exports.get(name);
+    if (!symbol) continue;
+
+    if (symbol.flags & ts.SymbolFlags.Value) {
+      lines.push(`  const ${name}: typeof import('${CORE_PACKAGE}').${name};`);
+    }
+    if (symbol.flags & ts.SymbolFlags.Type) {
+      const count = Math.max(0, ...(symbol.declarations || []).map(d =>
+        ts.isClassDeclaration(d) || ts.isInterfaceDeclaration(d) || ts.isTypeAliasDeclaration(d)
+          ? d.typeParameters?.length ?? 0
+          : 0
+      ));
+      const parameters = Array.from({ length: count }, (_, i) => `T${i}`);
+      const generics = parameters.length > 0 ? `<${parameters.map(p => `${p} = any`).join(', ')}>` : '';
+      const args = parameters.length > 0 ? `<${parameters.join(', ')}>` : '';
+      lines.push(`  type ${name}${generics} = import('${CORE_PACKAGE}').${name}${args};`);
+    }
+    assumed.push(name);
+  }
+
+  return {
+    text: lines.length > 0 ? `export {};\ndeclare global {\n${lines.join('\n')}\n}\n` : 'export {};\n',
+    assumed,
+  };
+}
+
+function findNode(sourceFile: ts.SourceFile, position: number): ts.Node | undefined {
+  let found: ts.Node | undefined;
+  const visit = (node: ts.Node) => {
+    if (node.getStart(sourceFile) <= position && position < node.getEnd()) {
+      found = node;
+      ts.forEachChild(node, visit);
+    }
+  };
+  ts.forEachChild(sourceFile, visit);
+  return found;
+}
+
+function isIwsdkDeclaration(symbol: ts.Symbol | undefined): boolean {
+  return !!symbol?.declarations?.some(d => /[\\/]node_modules[\\/]@iwsdk[\\/]/.test(d.getSourceFile().fileName));
+}
+
+/**
+ * Explain a compiler diagnostic in IWSDK terms, pointing at the tool that
+ * documents the API involved.
+ */
+function iwsdkHint(
+  program: ts.Program,
+  sourceFile: ts.SourceFile,
+  diagnostic: ts.Diagnostic,
+  exports: Map<string, ts.Symbol>
+): string | null {
+  const checker = program.getTypeChecker();
+  const node = findNode(sourceFile, diagnostic.start ?? 0);
+  const text = diagnosticText(sourceFile, diagnostic);
+
+  if (MISSING_PROPERTY.has(diagnostic.code) && node && ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) {
+    const type = checker.getTypeAtLocation(node.parent.expression);
+    const symbol = type.getSymbol();
+    if (!isIwsdkDeclaration(symbol)) return null;
+
+    const members = checker.getPropertiesOfType(checker.getApparentType(type))
+      .map(p => p.name)
+      .filter(name => !name.startsWith('_'));
+    const suggestion = diagnostic.code === 2339 ? closestMatch(text, members) : null;
+    return `${suggestion ? `did you mean \`${suggestion}\`? ` : ''}See get_api_documentation for ${symbol!.name}`;
+  }
+
+  if (POSSIBLY_UNDEFINED.has(diagnostic.code) && /\.object3D$/.test(text)) {
+    return 'object3D is only set on entities created with world.createTransformEntity(); use `entity.object3D!` on those';
+  }
+
+  if (NOT_ASSIGNABLE.has(diagnostic.code) && node) {
+    for (let current: ts.Node | undefined = node; current && !ts.isStatement(current); current = current.parent) {
+      if (
+        ts.isCallExpression(current) &&
+        ts.isPropertyAccessExpression(current.expression) &&
+        current.expression.name.text === 'addComponent'
+      ) {
+        const component = current.arguments[0]?.getText(sourceFile);
+        return `addComponent() data must match the component schema${component ? ` - see get_component_schema for ${component}` : ''}`;
+      }
+    }
+    return null;
+  }
+
+  // 2552 and 2724 already carry the compiler's own "Did you mean" suggestion
+  const suggested = diagnostic.code === 2552 || diagnostic.code === 2724;
+  if ((CANNOT_FIND_NAME.has(diagnostic.code) || NO_EXPORTED_MEMBER.has(diagnostic.code)) && !suggested && /^[\w$]+$/.test(text)) {
+    const suggestion = closestMatch(text, exports.keys());
+    return suggestion && suggestion !== text ? `${CORE_PACKAGE} exports \`${suggestion}\`` : null;
+  }
+
+  if (CANNOT_FIND_MODULE.has(diagnostic.code) && text.includes('@iwsdk/')) {
+    const packages = Object.keys(readManifest().packages);
+    return `IWSDK packages: ${packages.join(', ')}`;
+  }
+
+  return null;
+}
+
+function readManifest(): { packages: Record<string, string>; shims: string[] } {
+  const manifestPath = join(getDeclarationsDir(), 'manifest.json');
+  return existsSync(manifestPath)
+    ? JSON.parse(readFileSync(manifestPath, 'utf-8'))
+    : { packages: {}, shims: [] };
+}
+
+function toFinding(sourceFile: ts.SourceFile, diagnostic: ts.Diagnostic, hint: string | null): Finding {
+  const start = diagnostic.start ?? 0;
+  const end = start + (diagnostic.length ?? 0);
+  const startPos = sourceFile.getLineAndCharacterOfPosition(start);
+  const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+  const severity: Severity = diagnostic.category === ts.DiagnosticCategory.Error
+    ? 'error'
+    : diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning' : 'info';
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ');
+
+  return {
+    ruleId: `TS${diagnostic.code}`,
+    severity,
+    message: hint ? `${message} - ${hint}` : message,
+    line: startPos.line + 1,
+    column: startPos.character + 1,
+    endLine: endPos.line + 1,
+    endColumn: endPos.character + 1,
+  };
+}
+
+const SEVERITY_ORDER: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+
+export function typecheckSource(code: string, fileName = 'snippet.ts'): TypecheckResult {
+  const typesDir = getDeclarationsDir();
+  const coreEntry = join(typesDir, 'node_modules', CORE_PACKAGE, 'index.d.ts');
+  if (!existsSync(coreEntry)) {
+    throw new Error('IWSDK type declarations are not in the cache. Re-run scripts/ingest-source.ts to capture them.');
+  }
+
+  // The snippet lives inside the declarations directory so `@iwsdk/*` imports resolve to cache/types/node_modules
+  const extension = /\.[jt]sx$/.test(fileName) ? '.tsx' : '.ts';
+  const snippetPath = join(typesDir, 'snippets', basename(fileName).replace(/\.[^.]*$/, '') + extension);
+  const globalsPath = join(typesDir, 'snippets', '__assumed-globals.d.ts');
+  const shimsPath = join(typesDir, 'shims.d.ts');
+  const rootNames = [snippetPath, globalsPath, coreEntry, ...(existsSync(shimsPath) ? [shimsPath] : [])];
+
+  const virtualFiles = new Map([[snippetPath, code], [globalsPath, 'export {};\n']]);
+  let program = createSnippetProgram(rootNames, virtualFiles);
+  let sourceFile = program.getSourceFile(snippetPath)!;
+  let diagnostics = snippetDiagnostics(program, sourceFile);
+
+  const exports = coreExports(program, coreEntry);
+  const missingNames = new Set(
+    diagnostics.filter(d => CANNOT_FIND_NAME.has(d.code)).map(d => diagnosticText(sourceFile, d))
+  );
+  const globals = assumedGlobals(missingNames, exports);
+
+  if (globals.assumed.length > 0) {
+    virtualFiles.set(globalsPath, globals.text);
+    program = createSnippetProgram(rootNames, virtualFiles);
+    sourceFile = program.getSourceFile(snippetPath)!;
+    diagnostics = snippetDiagnostics(program, sourceFile);
+  }
+
+  const findings = diagnostics
+    .filter(d => {
+      // Only the snippet is compiled, so the project's own modules cannot resolve
+      if (!CANNOT_FIND_MODULE.has(d.code)) return true;
+      return !/^['"]\./.test(diagnosticText(sourceFile, d));
+    })
+    .map(d => toFinding(sourceFile, d, iwsdkHint(program, sourceFile, d, exports)))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.line - b.line || a.column - b.column);
+
+  return { sourceFile, findings, assumed: globals.assumed, untyped: readManifest().shims };
+}
@@ -13,6 +13,7 @@ export interface MethodDoc {
   description: string;
   parameters?: Parameter[];
   returns?: string;
+  returnsDescription?: string;
   examples?: string[];
 }
 
@@ -56,6 +57,8 @@ export interface ComponentSchema {
     type: string;
     default?: any;
     description?: string;
+    enum?: string;
+    enumValues?: Record<string, string | number>;
   }[];
   examples?: string[];
 }
@@ -67,4 +70,14 @@ export interface PackageExports {
   types: string[];
   components: string[];
   systems: string[];
+  /** Exported constants and enums, e.g. PhysicsState or SessionMode */
+  values: string[];
+  /** External modules re-exported wholesale, e.g. 'three' */
+  reexports: string[];
+  /** Names exported by those modules, when they were resolved at ingest */
+  external: Record<string, string[]>;
+  /** Alternative export name -> canonical name, e.g. Interactable -> RayInteractable */
+  aliases: Record<string, string>;
+  /** Export name -> @deprecated message */
+  deprecated: Record<string, string>;
 }
@@ -0,0 +1,860 @@
+/**
+ * UIKitML markup checks: a small parser for the HTML-like markup, element and
+ * property names checked against the UIKit classes captured at ingest, element
+ * ids cross-checked with the TypeScript that queries them, and an approximate
+ * flexbox layout to preview panel sizes.
+ */
+
+import * as ts from 'typescript';
+import type { UIKitSchema } from './cache-loader.js';
+import type { Finding, Severity } from './code-validator.js';
+import { closestMatch } from './suggestions.js';
+
+// Attributes every element takes, whatever its UIKit class
+const GLOBAL_ATTRIBUTES = new Set(['id', 'class', 'style']);
+const VOID_ELEMENTS = new Set(['img', 'input', 'br', 'hr']);
+// Receivers whose getElementById() is the HTML DOM, not a UIKitDocument
+const DOM_RECEIVERS = new Set(['document', 'window.document', 'globalThis.document']);
+const DOCUMENT_QUERIES = new Set(['getElementById', 'getElementsByClassName', 'querySelector', 'querySelectorAll']);
+
+/**
+ * Core UIKit elements and properties, checked when the cache has no UIKit
+ * schema (@pmndrs/uikit was not installed at ingest). The list has no
+ * per-element properties, so every element accepts all of them.
+ */
+const CORE_PROPERTIES = [
+  // Flexbox layout
+  'width', 'height', 'minWidth', 'minHeight', 'maxWidth', 'maxHeight', 'aspectRatio',
+  'display', 'position', 'positionType', 'top', 'right', 'bottom', 'left',
+  'positionTop', 'positionRight', 'positionBottom', 'positionLeft',
+  'flex', 'flexDirection', 'flexWrap', 'flexGrow', 'flexShrink', 'flexBasis',
+  'alignItems', 'alignSelf', 'alignContent', 'justifyContent',
+  'gap', 'rowGap', 'columnGap', 'gapRow', 'gapColumn',
+  'margin', 'marginX', 'marginY', 'marginTop', 'marginRight', 'marginBottom', 'marginLeft',
+  'padding', 'paddingX', 'paddingY', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'overflow', 'direction', 'zIndex', 'zIndexOffset',
+  // Panel
+  'backgroundColor', 'backgroundOpacity', 'opacity', 'visibility', 'cursor',
+  'border', 'borderX', 'borderY', 'borderTop', 'borderRight', 'borderBottom', 'borderLeft',
+  'borderWidth', 'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'borderColor', 'borderOpacity', 'borderBend', 'borderRadius',
+  'borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomLeftRadius', 'borderBottomRightRadius',
+  // Text
+  'color', 'fontSize', 'fontWeight', 'fontFamily', 'fontFamilies', 'lineHeight', 'letterSpacing',
+  'textAlign', 'verticalAlign', 'wordBreak', 'whiteSpace', 'tabSize', 'text',
+  'caretColor', 'caretOpacity', 'caretWidth', 'caretBorderRadius',
+  'selectionColor', 'selectionOpacity', 'selectionBorderRadius',
+  // Transform and rendering
+  'transformTranslateX', 'transformTranslateY', 'transformTranslateZ',
+  'transformRotateX', 'transformRotateY', 'transformRotateZ',
+  'transformScaleX', 'transformScaleY', 'transformScaleZ', 'transformOriginX', 'transformOriginY',
+  'pixelSize', 'anchorX', 'anchorY', 'sizeX', 'sizeY',
+  'depthTest', 'depthWrite', 'renderOrder', 'castShadow', 'receiveShadow',
+  'scrollbarColor', 'scrollbarOpacity', 'scrollbarWidth', 'scrollbarBorderRadius',
+  // Media and inputs
+  'src', 'alt', 'fit', 'objectFit', 'keepAspectRatio', 'autoplay', 'loop', 'muted', 'volume', 'playbackRate',
+  'value', 'defaultValue', 'placeholder', 'disabled', 'type', 'tabIndex', 'autocomplete', 'multiline',
+  // Conditional styles
+  'hover', 'active', 'focus', 'dark', 'sm', 'md', 'lg', 'xl',
+];
+const CORE_ELEMENTS: Record<string, string> = {
+  container: 'Container', text: 'Text', image: 'Image', input: 'Input', textarea: 'Textarea',
+  svg: 'Svg', video: 'Video', content: 'Content', fullscreen: 'Fullscreen',
+  div: 'Container', section: 'Container', header: 'Container', footer: 'Container', nav: 'Container',
+  main: 'Container', article: 'Container', aside: 'Container', ul: 'Container', ol: 'Container',
+  li: 'Container', button: 'Container', a: 'Container',
+  span: 'Text', p: 'Text', label: 'Text', h1: 'Text', h2: 'Text', h3: 'Text', h4: 'Text', h5: 'Text', h6: 'Text',
+  img: 'Image',
+};
+export const CORE_UIKIT_SCHEMA: UIKitSchema = {
+  uikitVersion: 'core',
+  elements: Object.fromEntries(
+    Object.entries(CORE_ELEMENTS).map(([tag, component]) => [tag, { component, properties: CORE_PROPERTIES }])
+  ),
+};
+
+// UIKit defaults used by the layout preview
+const DEFAULT_FONT_SIZE = 16;
+const DEFAULT_LINE_HEIGHT = 1.2;
+// Average glyph advance of the default font, in em
+const CHARACTER_WIDTH = 0.55;
+
+export interface MarkupText {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface MarkupElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: Array<MarkupElement | MarkupText>;
+  /** Offsets of the opening tag */
+  start: number;
+  end: number;
+  /** Offset of each attribute's name */
+  attributeOffsets: Record<string, number>;
+  /** Offset of each attribute's value */
+  valueOffsets: Record<string, number>;
+}
+
+interface StyleRule {
+  selector: string;
+  properties: Record<string, string>;
+  /** Offset of each property name */
+  offsets: Record<string, number>;
+}
+
+export interface MarkupDocument {
+  roots: MarkupElement[];
+  /** Rules from `<style>` blocks */
+  styles: StyleRule[];
+  /** Offsets of the markup in the text it was read from */
+  start: number;
+  end: number;
+  errors: Array<{ message: string; start: number; end: number }>;
+}
+
+export interface LayoutBox {
+  element: MarkupElement;
+  /** Relative to the parent's border box */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text?: string;
+  children: LayoutBox[];
+}
+
+export interface UIKitMLReport {
+  documents: MarkupDocument[];
+  /** Findings in the markup (in the code, when the markup came from it) */
+  findings: Finding[];
+  /** Findings for getElementById() and friends in the code */
+  referenceFindings: Finding[];
+  layouts: LayoutBox[][];
+}
+
+function isElement(node: MarkupElement | MarkupText): node is MarkupElement {
+  return 'tag' in node;
+}
+
+function camelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * `prop: value; other-prop: value` -> camelCase property -> value, with the
+ * offset of each property name (relative to `base`).
+ */
+function parseDeclarations(text: string, base: number): Pick<StyleRule, 'properties' | 'offsets'> {
+  const properties: Record<string, string> = {};
+  const offsets: Record<string, number> = {};
+  const pattern = /([A-Za-z-]+)\s*:\s*([^;]*)/g;
+
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const name = camelCase(match[1]);
+    properties[name] = match[2].trim();
+    offsets[name] = base + match.index;
+  }
+
+  return { properties, offsets };
+}
+
+function parseStyleBlock(css: string, base: number, styles: StyleRule[]): void {
+  const pattern = /([^{}]+)\{([^}]*)\}/g;
+
+  for (let match = pattern.exec(css); match; match = pattern.exec(css)) {
+    const bodyOffset = base + match.index + match[1].length + 1;
+    const declarations = parseDeclarations(match[2], bodyOffset);
+    for (const selector of match[1].split(',').map(s => s.trim()).filter(Boolean)) {
+      styles.push({ selector, ...declarations });
+    }
+  }
+}
+
+/**
+ * Parse the markup in `text` between `start` and `end`. Offsets in the result
+ * refer to `text`, so markup embedded in code reports code positions.
+ */
+export function parseMarkup(text: string, start = 0, end = text.length): MarkupDocument {
+  const document: MarkupDocument = { roots: [], styles: [], start, end, errors: [] };
+  const stack: MarkupElement[] = [];
+
+  const append = (node: MarkupElement | MarkupText) => {
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(node);
+    } else if (isElement(node)) {
+      document.roots.push(node);
+    } else if (node.text.trim()) {
+      document.errors.push({ message: 'Text outside of any element', start: node.start, end: node.end });
+    }
+  };
+
+  let position = start;
+  while (position < end) {
+    const open = text.indexOf('<', position);
+    const textEnd = open === -1 || open > end ? end : open;
+
+    if (textEnd > position) {
+      const raw = text.slice(position, textEnd);
+      if (raw.trim()) {
+        append({ text: decodeEntities(raw.replace(/\s+/g, ' ').trim()), start: position, end: textEnd });
+      }
+      position = textEnd;
+      continue;
+    }
+
+    if (text.startsWith('<!--', position)) {
+      const close = text.indexOf('-->', position);
+      position = close === -1 || close > end ? end : close + 3;
+      continue;
+    }
+
+    const close = text.indexOf('>', position);
+    if (close === -1 || close >= end) {
+      document.errors.push({ message: 'Unterminated tag', start: position, end });
+      break;
+    }
+
+    const tagText = text.slice(position + 1, close);
+
+    if (tagText.startsWith('/')) {
+      const name = tagText.slice(1).trim().toLowerCase();
+      const index = stack.map(element => element.tag).lastIndexOf(name);
+      if (index === -1) {
+        document.errors.push({ message: `Closing tag </${name}> has no matching opening tag`, start: position, end: close + 1 });
+      } else {
+        for (const unclosed of stack.splice(index).slice(1)) {
+          document.errors.push({ message: `<${unclosed.tag}> is not closed before </${name}>`, start: unclosed.start, end: unclosed.end });
+        }
+      }
+      position = close + 1;
+      continue;
+    }
+
+    const nameMatch = /^([A-Za-z][\w-]*)/.exec(tagText);
+    if (!nameMatch) {
+      document.errors.push({ message: `Invalid tag <${tagText}>`, start: position, end: close + 1 });
+      position = close + 1;
+      continue;
+    }
+
+    const element: MarkupElement = {
+      tag: nameMatch[1].toLowerCase(),
+      attributes: {},
+      children: [],
+      start: position,
+      end: close + 1,
+      attributeOffsets: {},
+      valueOffsets: {},
+    };
+
+    const attributePattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>/]+)))?/g;
+    const attributeText = tagText.slice(nameMatch[1].length);
+    const attributeBase = position + 1 + nameMatch[1].length;
+    for (let match = attributePattern.exec(attributeText); match; match = attributePattern.exec(attributeText)) {
+      const raw = match[2] ?? match[3] ?? match[4] ?? '';
+      const quoted = match[4] === undefined && match[0].includes('=');
+      element.attributes[match[1]] = decodeEntities(raw);
+      element.attributeOffsets[match[1]] = attributeBase + match.index;
+      element.valueOffsets[match[1]] = attributeBase + match.index + match[0].length - raw.length - (quoted ? 1 : 0);
+    }
+
+    position = close + 1;
+
+    if (element.tag === 'style') {
+      const styleEnd = text.toLowerCase().indexOf('</style>', position);
+      const cssEnd = styleEnd === -1 || styleEnd > end ? end : styleEnd;
+      parseStyleBlock(text.slice(position, cssEnd), position, document.styles);
+      position = cssEnd === end ? end : cssEnd + '</style>'.length;
+      continue;
+    }
+
+    append(element);
+    if (!tagText.trimEnd().endsWith('/') && !VOID_ELEMENTS.has(element.tag)) {
+      stack.push(element);
+    }
+  }
+
+  for (const unclosed of stack) {
+    document.errors.push({ message: `<${unclosed.tag}> is never closed`, start: unclosed.start, end: unclosed.end });
+  }
+
+  return document;
+}
+
+/**
+ * String and template literals in `code` that hold markup, e.g. a UIKitML
+ * `source` passed to UIKitDocument. Template substitutions are blanked so
+ * offsets still match the code.
+ */
+export function findMarkupInCode(code: string): { text: string; ranges: Array<{ start: number; end: number }> } {
+  const sourceFile = ts.createSourceFile('snippet.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const chars = code.split('');
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  function visit(node: ts.Node) {
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+      const start = node.getStart(sourceFile) + 1;
+      const end = node.end - 1;
+      if (/^\s*<[A-Za-z!]/.test(code.slice(start, end)) && /(<\/[A-Za-z][\w-]*\s*>|\/>)\s*$/.test(code.slice(start, end))) {
+        if (ts.isTemplateExpression(node)) {
+          for (const span of node.templateSpans) {
+            // From `${` through the closing `}`
+            for (let i = span.expression.getFullStart() - 2; i < span.literal.getStart(sourceFile) + 1; i++) {
+              chars[i] = '_';
+            }
+          }
+        }
+        ranges.push({ start, end });
+      }
+      return;
+    }
+    ts.forEachChild(node, visit);
+  }
+
+  visit(sourceFile);
+  return { text: chars.join(''), ranges };
+}
+
+function locate(text: string, start: number, end: number): Pick<Finding, 'line' | 'column' | 'endLine' | 'endColumn'> {
+  const position = (offset: number) => {
+    const before = text.slice(0, offset);
+    const line = before.split('\n').length;
+    return { line, column: offset - before.lastIndexOf('\n') };
+  };
+  const from = position(start);
+  const to = position(end);
+  return { line: from.line, column: from.column, endLine: to.line, endColumn: to.column };
+}
+
+function markupFinding(
+  text: string,
+  ruleId: string,
+  severity: Severity,
+  message: string,
+  start: number,
+  end: number
+): Finding {
+  return { ruleId, severity, message, ...locate(text, start, end) };
+}
+
+function* walk(elements: MarkupElement[]): Generator<MarkupElement> {
+  for (const element of elements) {
+    yield element;
+    yield* walk(element.children.filter(isElement));
+  }
+}
+
+function classesOf(element: MarkupElement): string[] {
+  return (element.attributes.class ?? '').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Syntax, element names, property names (style attributes, `<style>` rules and
+ * plain attributes) and duplicate ids.
+ */
+function checkDocument(text: string, document: MarkupDocument, schema: UIKitSchema | null): Finding[] {
+  const findings = document.errors.map(error =>
+    markupFinding(text, 'uikitml-syntax', 'error', error.message, error.start, error.end)
+  );
+
+  const allProperties = new Set(Object.values(schema?.elements ?? {}).flatMap(element => element.properties));
+  const checkProperty = (name: string, tag: string | undefined, offset: number, what: string) => {
+    const known = tag && schema?.elements[tag]?.properties.length ? new Set(schema.elements[tag].properties) : allProperties;
+    if (known.size === 0 || known.has(name)) return;
+    const suggestion = closestMatch(name, known);
+    findings.push(markupFinding(
+      text,
+      'uikitml-unknown-property',
+      'warning',
+      `Unknown ${what} \`${name}\`${tag ? ` on <${tag}>` : ''}${suggestion ? ` - did you mean \`${suggestion}\`?` : ''}`,
+      offset,
+      offset + name.length
+    ));
+  };
+
+  const ids = new Map<string, MarkupElement>();
+  for (const element of walk(document.roots)) {
+    if (schema && !schema.elements[element.tag]) {
+      const suggestion = closestMatch(element.tag, Object.keys(schema.elements));
+      findings.push(markupFinding(
+        text,
+        'uikitml-unknown-element',
+        'error',
+        `Unknown element <${element.tag}>${suggestion ? ` - did you mean <${suggestion}>?` : ''}`,
+        element.start + 1,
+        element.start + 1 + element.tag.length
+      ));
+    }
+    const tag = schema?.elements[element.tag] ? element.tag : undefined;
+
+    for (const [attribute, offset] of Object.entries(element.attributeOffsets)) {
+      if (GLOBAL_ATTRIBUTES.has(attribute) || /^(data|aria)-/.test(attribute)) continue;
+      checkProperty(camelCase(attribute), tag, offset, 'attribute');
+    }
+
+    if (element.attributes.style !== undefined) {
+      const declarations = parseDeclarations(element.attributes.style, element.valueOffsets.style);
+      for (const [property, offset] of Object.entries(declarations.offsets)) {
+        checkProperty(property, tag, offset, 'style property');
+      }
+    }
+
+    const id = element.attributes.id;
+    if (id) {
+      if (ids.has(id)) {
+        findings.push(markupFinding(
+          text,
+          'uikitml-duplicate-id',
+          'warning',
+          `Duplicate id "${id}": getElementById() only returns the first <${ids.get(id)!.tag}>`,
+          element.attributeOffsets.id,
+          element.attributeOffsets.id + 2
+        ));
+      } else {
+        ids.set(id, element);
+      }
+    }
+  }
+
+  for (const rule of document.styles) {
+    const tag = /^[a-z][\w-]*/.exec(rule.selector)?.[0];
+    for (const [property, offset] of Object.entries(rule.offsets)) {
+      checkProperty(property, tag && schema?.elements[tag] ? tag : undefined, offset, 'style property');
+    }
+  }
+
+  return findings;
+}
+
+function receiverText(expression: ts.Expression, sourceFile: ts.SourceFile): string {
+  return expression.getText(sourceFile).replace(/\s+/g, '');
+}
+
+/**
+ * getElementById() / getElementsByClassName() / querySelector(All)() calls on
+ * UIKit documents whose ids or classes the markup does not define.
+ */
+function checkReferences(code: string, documents: MarkupDocument[]): Finding[] {
+  const sourceFile = ts.createSourceFile('snippet.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const elements = [...walk(documents.flatMap(document => document.roots))];
+  const ids = new Set(elements.map(element => element.attributes.id).filter((id): id is string => Boolean(id)));
+  const classes = new Set(elements.flatMap(classesOf));
+  const findings: Finding[] = [];
+
+  const check = (kind: 'id' | 'class', name: string, node: ts.Node) => {
+    const known = kind === 'id' ? ids : classes;
+    if (known.has(name)) return;
+    const suggestion = closestMatch(name, known);
+    const location = locate(code, node.getStart(sourceFile), node.end);
+    findings.push({
+      ruleId: kind === 'id' ? 'uikitml-unknown-id' : 'uikitml-unknown-class',
+      severity: kind === 'id' ? 'error' : 'warning',
+      message: `No element in the markup has ${kind} "${name}"${suggestion ? ` - did you mean "${suggestion}"?` : ''}`,
+      ...location,
+    });
+  };
+
+  function visit(node: ts.Node) {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      DOCUMENT_QUERIES.has(node.expression.name.text) &&
+      !DOM_RECEIVERS.has(receiverText(node.expression.expression, sourceFile)) &&
+      node.arguments[0] &&
+      ts.isStringLiteralLike(node.arguments[0])
+    ) {
+      const argument = node.arguments[0];
+      const method = node.expression.name.text;
+      if (method === 'getElementById') {
+        check('id', argument.text, argument);
+      } else if (method === 'getElementsByClassName') {
+        check('class', argument.text, argument);
+      } else {
+        for (const match of argument.text.matchAll(/([#.])([\w-]+)/g)) {
+          check(match[1] === '#' ? 'id' : 'class', match[2], argument);
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  }
+
+  visit(sourceFile);
+  return findings;
+}
+
+/**
+ * Check UIKitML markup. With only `code`, the markup is read from the
+ * code's string literals and all positions refer to the code.
+ */
+export function validateMarkup(input: { markup?: string; code?: string }, schema: UIKitSchema | null): UIKitMLReport {
+  let text: string;
+  let documents: MarkupDocument[];
+
+  if (input.markup !== undefined) {
+    text = input.markup;
+    documents = [parseMarkup(text)];
+  } else {
+    const embedded = findMarkupInCode(input.code ?? '');
+    text = embedded.text;
+    documents = embedded.ranges.map(range => parseMarkup(text, range.start, range.end));
+  }
+
+  const findings = documents.flatMap(document => checkDocument(text, document, schema));
+  const referenceFindings = input.code !== undefined ? checkReferences(input.code, documents) : [];
+  const layouts = documents.map(layoutDocument);
+
+  return { documents, findings, referenceFindings, layouts };
+}
+
+// Layout preview
+
+type Styles = Map<MarkupElement, Record<string, string>>;
+
+function specificity(selector: string): number {
+  return (selector.match(/#/g) ?? []).length * 100 + (selector.match(/\./g) ?? []).length * 10 + (/^[a-z]/i.test(selector) ? 1 : 0);
+}
+
+/**
+ * Whether a compound selector (`tag`, `#id`, `.class`, `tag.class`) matches.
+ * Descendant, pseudo-class and attribute selectors never match here.
+ */
+function selectorMatches(selector: string, element: MarkupElement): boolean {
+  const match = /^([a-z][\w-]*)?((?:[#.][\w-]+)*)$/i.exec(selector);
+  if (!match || (!match[1] && !match[2])) return false;
+  if (match[1] && match[1].toLowerCase() !== element.tag) return false;
+
+  const classes = classesOf(element);
+  for (const part of match[2].match(/[#.][\w-]+/g) ?? []) {
+    if (part.startsWith('#') ? element.attributes.id !== part.slice(1) : !classes.includes(part.slice(1))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Each element's properties: `<style>` rules by specificity, then plain
+ * attributes, then the inline style.
+ */
+function computeStyles(document: MarkupDocument): Styles {
+  const styles: Styles = new Map();
+  const rules = document.styles
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => specificity(a.rule.selector) - specificity(b.rule.selector) || a.index - b.index);
+
+  for (const element of walk(document.roots)) {
+    const properties: Record<string, string> = {};
+    for (const { rule } of rules) {
+      if (selectorMatches(rule.selector, element)) Object.assign(properties, rule.properties);
+    }
+    for (const [name, value] of Object.entries(element.attributes)) {
+      if (!GLOBAL_ATTRIBUTES.has(name)) properties[camelCase(name)] = value;
+    }
+    Object.assign(properties, parseDeclarations(element.attributes.style ?? '', 0).properties);
+    styles.set(element, properties);
+  }
+
+  return styles;
+}
+
+/**
+ * A length in UIKit units: `12`, `12px`, or a percentage of `base`.
+ */
+function length(value: string | undefined, base?: number): number | undefined {
+  if (value === undefined) return undefined;
+  const trimmed = value.trim();
+  const percent = /^(-?\d*\.?\d+)%$/.exec(trimmed);
+  if (percent) return base === undefined ? undefined : (base * parseFloat(percent[1])) / 100;
+  const number = /^(-?\d*\.?\d+)(px)?$/.exec(trimmed);
+  return number ? parseFloat(number[1]) : undefined;
+}
+
+interface Edges {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * padding / margin from the CSS shorthand, UIKit's `paddingX` / `paddingY`
+ * and the per-side properties, most specific last.
+ */
+function edges(style: Record<string, string>, property: 'padding' | 'margin', base?: number): Edges {
+  const values = (style[property] ?? '').split(/\s+/).filter(Boolean).map(v => length(v, base) ?? 0);
+  const [top = 0, right = top, bottom = top, left = right] = values;
+  const result = { top, right, bottom, left };
+
+  const x = length(style[`${property}X`], base);
+  const y = length(style[`${property}Y`], base);
+  if (x !== undefined) result.left = result.right = x;
+  if (y !== undefined) result.top = result.bottom = y;
+
+  for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+    const value = length(style[`${property}${side[0].toUpperCase()}${side.slice(1)}`], base);
+    if (value !== undefined) result[side] = value;
+  }
+  return result;
+}
+
+function borders(style: Record<string, string>): Edges {
+  const width = length(style.borderWidth) ?? 0;
+  const side = (name: string) => length(style[`border${name}Width`]) ?? width;
+  return { top: side('Top'), right: side('Right'), bottom: side('Bottom'), left: side('Left') };
+}
+
+function textContent(element: MarkupElement): string {
+  return element.children
+    .map(child => (isElement(child) ? textContent(child) : child.text))
+    .join(' ')
+    .trim();
+}
+
+/**
+ * Estimated text size, wrapping at word boundaries to fit `maxWidth`.
+ */
+function measureText(text: string, fontSize: number, lineHeight: number, maxWidth?: number) {
+  const characterWidth = fontSize * CHARACTER_WIDTH;
+  const natural = text.length * characterWidth;
+  if (maxWidth === undefined || natural <= maxWidth) {
+    return { width: natural, height: lineHeight };
+  }
+
+  let lines = 1;
+  let lineWidth = 0;
+  let widest = 0;
+  for (const word of text.split(' ')) {
+    const wordWidth = word.length * characterWidth;
+    const next = lineWidth === 0 ? wordWidth : lineWidth + characterWidth + wordWidth;
+    if (next > maxWidth && lineWidth > 0) {
+      widest = Math.max(widest, lineWidth);
+      lines++;
+      lineWidth = wordWidth;
+    } else {
+      lineWidth = next;
+    }
+  }
+
+  return { width: Math.min(maxWidth, Math.max(widest, lineWidth)), height: lines * lineHeight };
+}
+
+interface Constraints {
+  /** Sizes the parent decided (flex-grown main size, stretched cross size) */
+  width?: number;
+  height?: number;
+  /** Space available for content that wraps */
+  maxWidth?: number;
+  /** Bases for percentages */
+  parentWidth?: number;
+  parentHeight?: number;
+}
+
+function clamp(value: number, style: Record<string, string>, axis: 'Width' | 'Height', base?: number): number {
+  const min = length(style[`min${axis}`], base);
+  const max = length(style[`max${axis}`], base);
+  return Math.max(min ?? -Infinity, Math.min(max ?? Infinity, value));
+}
+
+function layoutElement(
+  element: MarkupElement,
+  styles: Styles,
+  constraints: Constraints,
+  inherited: { fontSize: number; lineHeight?: string }
+): LayoutBox {
+  const style = styles.get(element) ?? {};
+  const fontSize = length(style.fontSize) ?? inherited.fontSize;
+  const lineHeightValue = style.lineHeight ?? inherited.lineHeight;
+  const font = { fontSize, lineHeight: lineHeightValue };
+
+  const explicitWidth = length(style.width, constraints.parentWidth);
+  const explicitHeight = length(style.height, constraints.parentHeight);
+  let width = constraints.width ?? (explicitWidth !== undefined ? clamp(explicitWidth, style, 'Width', constraints.parentWidth) : undefined);
+  let height = constraints.height ?? (explicitHeight !== undefined ? clamp(explicitHeight, style, 'Height', constraints.parentHeight) : undefined);
+
+  const padding = edges(style, 'padding', constraints.parentWidth);
+  const border = borders(style);
+  const horizontal = padding.left + padding.right + border.left + border.right;
+  const vertical = padding.top + padding.bottom + border.top + border.bottom;
+  const maxWidth = length(style.maxWidth, constraints.parentWidth);
+  const available = width ?? Math.min(constraints.maxWidth ?? Infinity, maxWidth ?? Infinity);
+  const availableInner = Number.isFinite(available) ? available - horizontal : undefined;
+
+  const elementChildren = element.children.filter(isElement).filter(child => styles.get(child)?.display !== 'none');
+
+  if (elementChildren.length === 0) {
+    const text = textContent(element);
+    const lineHeight = lineHeightValue?.endsWith('%')
+      ? (fontSize * parseFloat(lineHeightValue)) / 100
+      : lineHeightValue !== undefined && parseFloat(lineHeightValue) <= 4
+        ? fontSize * parseFloat(lineHeightValue)
+        : length(lineHeightValue) ?? fontSize * DEFAULT_LINE_HEIGHT;
+    const measured = text ? measureText(text, fontSize, lineHeight, availableInner) : { width: 0, height: 0 };
+    width ??= clamp(measured.width + horizontal, style, 'Width', constraints.parentWidth);
+    height ??= clamp(measured.height + vertical, style, 'Height', constraints.parentHeight);
+    return { element, x: 0, y: 0, width, height, text: text || undefined, children: [] };
+  }
+
+  const direction = style.flexDirection ?? 'row';
+  const row = direction.startsWith('row');
+  const innerWidth = width !== undefined ? width - horizontal : undefined;
+  const innerHeight = height !== undefined ? height - vertical : undefined;
+  const gap = length(row ? style.columnGap ?? style.gapColumn ?? style.gap : style.rowGap ?? style.gapRow ?? style.gap) ?? 0;
+
+  const inFlow = elementChildren.filter(child => (styles.get(child)?.positionType ?? styles.get(child)?.position) !== 'absolute');
+  const absolute = elementChildren.filter(child => !inFlow.includes(child));
+
+  const items = inFlow.map(child => {
+    const childStyle = styles.get(child) ?? {};
+    const margin = edges(childStyle, 'margin', innerWidth);
+    const mainMargin = row ? margin.left + margin.right : margin.top + margin.bottom;
+    const crossMargin = row ? margin.top + margin.bottom : margin.left + margin.right;
+
+    // `flex: 1` grows from a zero basis, as in CSS
+    const flex = length(childStyle.flex);
+    const basis = flex !== undefined ? 0 : length(childStyle.flexBasis, row ? innerWidth : innerHeight);
+    const measured = layoutElement(child, styles, {
+      ...(row ? { width: basis } : { height: basis }),
+      maxWidth: availableInner !== undefined ? availableInner - (row ? mainMargin : crossMargin) : undefined,
+      parentWidth: innerWidth,
+      parentHeight: innerHeight,
+    }, font);
+
+    return {
+      child,
+      style: childStyle,
+      margin,
+      mainMargin,
+      crossMargin,
+      main: row ? measured.width : measured.height,
+      grow: flex ?? length(childStyle.flexGrow) ?? 0,
+      shrink: length(childStyle.flexShrink) ?? 1,
+      stretch: (childStyle.alignSelf ?? style.alignItems ?? 'stretch') === 'stretch' &&
+        length(row ? childStyle.height : childStyle.width) === undefined,
+    };
+  });
+
+  const gaps = gap * Math.max(0, items.length - 1);
+  const used = () => items.reduce((sum, item) => sum + item.main + item.mainMargin, 0) + gaps;
+  let containerMain = row ? innerWidth : innerHeight;
+
+  if (containerMain !== undefined) {
+    const free = containerMain - used();
+    const totalGrow = items.reduce((sum, item) => sum + item.grow, 0);
+    const totalShrink = items.reduce((sum, item) => sum + item.shrink * item.main, 0);
+    for (const item of items) {
+      if (free > 0 && totalGrow > 0) {
+        item.main += (free * item.grow) / totalGrow;
+      } else if (free < 0 && totalShrink > 0) {
+        item.main = Math.max(0, item.main + (free * item.shrink * item.main) / totalShrink);
+      }
+    }
+  }
+
+  let containerCross = row ? innerHeight : innerWidth;
+  const layoutItem = (item: (typeof items)[number], cross: number | undefined) =>
+    layoutElement(item.child, styles, {
+      ...(row ? { width: item.main, height: cross } : { width: cross, height: item.main }),
+      maxWidth: availableInner !== undefined ? availableInner - (row ? item.mainMargin : item.crossMargin) : undefined,
+      parentWidth: innerWidth,
+      parentHeight: innerHeight,
+    }, font);
+  const crossOf = (box: LayoutBox) => (row ? box.height : box.width);
+
+  let boxes = items.map(item =>
+    layoutItem(item, item.stretch && containerCross !== undefined ? containerCross - item.crossMargin : undefined)
+  );
+  if (containerCross === undefined) {
+    containerCross = Math.max(0, ...boxes.map((box, i) => crossOf(box) + items[i].crossMargin));
+    const cross = containerCross;
+    boxes = boxes.map((box, i) =>
+      items[i].stretch && crossOf(box) !== cross - items[i].crossMargin ? layoutItem(items[i], cross - items[i].crossMargin) : box
+    );
+  }
+  containerMain ??= used();
+
+  width ??= clamp((row ? containerMain : containerCross) + horizontal, style, 'Width', constraints.parentWidth);
+  height ??= clamp((row ? containerCross : containerMain) + vertical, style, 'Height', constraints.parentHeight);
+
+  // Distribute free space along the main axis
+  const innerMain = row ? width - horizontal : height - vertical;
+  const innerCross = row ? height - vertical : width - horizontal;
+  const free = Math.max(0, innerMain - used());
+  const count = items.length;
+  let offset = 0;
+  let spacing = gap;
+  switch (style.justifyContent) {
+    case 'center': offset = free / 2; break;
+    case 'flex-end': case 'end': offset = free; break;
+    case 'space-between': spacing += count > 1 ? free / (count - 1) : 0; break;
+    case 'space-around': spacing += free / count; offset = free / count / 2; break;
+    case 'space-evenly': spacing += free / (count + 1); offset = free / (count + 1); break;
+  }
+
+  const order = direction.endsWith('reverse') ? [...items.keys()].reverse() : [...items.keys()];
+  const startX = border.left + padding.left;
+  const startY = border.top + padding.top;
+  for (const i of order) {
+    const item = items[i];
+    const box = boxes[i];
+    const align = item.style.alignSelf ?? style.alignItems ?? 'stretch';
+    const space = innerCross - crossOf(box) - item.crossMargin;
+    const crossOffset = align === 'center' ? space / 2 : align === 'flex-end' || align === 'end' ? space : 0;
+
+    if (row) {
+      box.x = startX + offset + item.margin.left;
+      box.y = startY + crossOffset + item.margin.top;
+    } else {
+      box.x = startX + crossOffset + item.margin.left;
+      box.y = startY + offset + item.margin.top;
+    }
+    offset += item.main + item.mainMargin + spacing;
+  }
+
+  const absoluteBoxes = absolute.map(child => {
+    const childStyle = styles.get(child) ?? {};
+    const box = layoutElement(child, styles, { parentWidth: width, parentHeight: height }, font);
+    box.x = length(childStyle.left ?? childStyle.positionLeft, width) ?? 0;
+    box.y = length(childStyle.top ?? childStyle.positionTop, height) ?? 0;
+    return box;
+  });
+
+  return { element, x: 0, y: 0, width, height, children: [...order.map(i => boxes[i]), ...absoluteBoxes] };
+}
+
+function layoutDocument(document: MarkupDocument): LayoutBox[] {
+  const styles = computeStyles(document);
+  return document.roots.map(root => layoutElement(root, styles, {}, { fontSize: DEFAULT_FONT_SIZE }));
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+/**
+ * Indented layout tree: element, size and position within its parent.
+ */
+export function formatLayoutTree(box: LayoutBox, depth = 0): string {
+  const { element } = box;
+  const label = element.tag +
+    (element.attributes.id ? `#${element.attributes.id}` : '') +
+    classesOf(element).map(name => `.${name}`).join('');
+  const text = box.text ? `  "${box.text.length > 40 ? `${box.text.slice(0, 37)}...` : box.text}"` : '';
+
+  let line = `${'  '.repeat(depth)}${label}  ${formatNumber(box.width)} × ${formatNumber(box.height)}`;
+  if (depth > 0) line += `  at (${formatNumber(box.x)}, ${formatNumber(box.y)})`;
+
+  return [line + text, ...box.children.map(child => formatLayoutTree(child, depth + 1))].join('\n');
+}
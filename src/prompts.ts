@@ -0,0 +1,245 @@
+import {
+  getComponent,
+  getOrderingConstraints,
+  getCommonMistakes,
+  getApiDoc,
+  loadEnhancedCache,
+} from './lib/cache-loader.js';
+import type { ComponentDefinition, CommonMistake } from './lib/cache-loader.js';
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  build: (args: Record<string, string>) => Promise<string>;
+}
+
+const GRAB_COMPONENTS: Record<string, string[]> = {
+  grab: ['Interactable', 'OneHandGrabbable'],
+  'two-hand': ['Interactable', 'TwoHandsGrabbable'],
+  'distance-grab': ['Interactable', 'DistanceGrabbable'],
+  click: ['Interactable'],
+};
+
+const prompts: PromptDefinition[] = [
+  {
+    name: 'add-interactive-object',
+    description: 'Add an object the user can click or grab, with the right components in the right order',
+    arguments: [
+      { name: 'object', description: 'What the object is (e.g. "a red ball on the table")', required: true },
+      { name: 'interaction', description: 'One of: grab, two-hand, distance-grab, click (default: grab)' },
+    ],
+    build: async (args) => {
+      const interaction = args.interaction && Object.hasOwn(GRAB_COMPONENTS, args.interaction) ? args.interaction : 'grab';
+      const components = GRAB_COMPONENTS[interaction];
+
+      let text = `Add ${args.object} to my IWSDK scene. Users should be able to ${interaction === 'click' ? 'click' : interaction.replace('-', ' ')} it.\n\n`;
+      text += `Create it with \`world.createTransformEntity()\`, attach a Three.js mesh to \`entity.object3D\`, and add the components below.\n\n`;
+      text += await formatComponents(components);
+      text += await formatOrdering(components);
+      text += await formatMistakes(['interaction', 'component', 'entity']);
+      return text;
+    },
+  },
+  {
+    name: 'create-custom-system',
+    description: 'Write a custom ECS system with createSystem, typed queries and config',
+    arguments: [
+      { name: 'systemName', description: 'Name for the system (e.g. HealthRegenSystem)', required: true },
+      { name: 'behavior', description: 'What the system should do each frame', required: true },
+      { name: 'components', description: 'Comma-separated components the system queries' },
+    ],
+    build: async (args) => {
+      const components = splitList(args.components);
+
+      let text = `Write an IWSDK system named \`${args.systemName}\` that ${args.behavior}.\n\n`;
+      text += `Define it with \`class ${args.systemName} extends createSystem(queries, config)\`, keep per-frame work inside \`update(delta, time)\`, and register it with \`world.registerSystem(${args.systemName})\`.\n\n`;
+
+      const createSystemDoc = await getApiDoc('@iwsdk/core', 'createSystem');
+      const method = createSystemDoc?.methods?.createSystem;
+      if (method) {
+        text += `## createSystem\n\n\`\`\`typescript\n${method.signature}\n\`\`\`\n\n`;
+        if (method.examples && method.examples.length > 0) {
+          text += `\`\`\`typescript\n${method.examples[0]}\n\`\`\`\n\n`;
+        }
+      }
+
+      if (components.length > 0) {
+        text += await formatComponents(components);
+      }
+      text += await formatMistakes(['system', 'component']);
+      return text;
+    },
+  },
+  {
+    name: 'debug-webxr-session',
+    description: 'Diagnose a WebXR session that fails to start or behaves incorrectly',
+    arguments: [
+      { name: 'symptom', description: 'What goes wrong (error message or behavior)', required: true },
+      { name: 'sessionMode', description: 'immersive-vr or immersive-ar' },
+    ],
+    build: async (args) => {
+      const cache = await loadEnhancedCache();
+
+      let text = `My IWSDK app has a WebXR problem: ${args.symptom}\n\n`;
+      if (args.sessionMode) {
+        text += `The app requests an \`${args.sessionMode}\` session.\n\n`;
+      }
+      text += `Walk through the likely causes in order: secure context (HTTPS in vite.config.ts), browser and device support, the \`xr\` options passed to \`World.create\`, and features or systems that were never enabled.\n\n`;
+
+      for (const typeName of ['WorldOptions', 'XROptions']) {
+        const type = cache.types[typeName];
+        if (type) {
+          text += `## ${typeName}\n\n\`\`\`typescript\n${type.definition}\n\`\`\`\n\n`;
+        }
+      }
+
+      text += await formatMistakes(['system']);
+      return text;
+    },
+  },
+  {
+    name: 'port-threejs-scene',
+    description: 'Port an existing Three.js scene to IWSDK entities, components and systems',
+    arguments: [
+      { name: 'sceneCode', description: 'The Three.js code to port', required: true },
+    ],
+    build: async (args) => {
+      let text = `Port this Three.js scene to IWSDK:\n\n\`\`\`typescript\n${args.sceneCode}\n\`\`\`\n\n`;
+      text += `Replace the renderer, camera and animation loop with \`World.create\`. Wrap each object that needs a transform in \`world.createTransformEntity(object3D)\`, move per-frame logic into systems, and use components for interaction instead of manual raycasting.\n\n`;
+
+      const worldDoc = await getApiDoc('@iwsdk/core', 'World');
+      for (const name of ['create', 'createTransformEntity', 'registerSystem']) {
+        const method = worldDoc?.methods?.[name];
+        if (method) {
+          text += `- \`World.${method.signature.replace(/^static /, '')}\`${method.description ? ` - ${method.description.split('\n')[0]}` : ''}\n`;
+        }
+      }
+      if (worldDoc?.methods) {
+        text += '\n';
+      }
+
+      text += await formatMistakes(['entity', 'import', 'system']);
+      return text;
+    },
+  },
+];
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(s => s.trim()).filter(s => s.length > 0);
+}
+
+async function formatComponents(names: string[]): Promise<string> {
+  let text = `## Components\n\n`;
+
+  for (const name of names) {
+    const component = await getComponent(name);
+    if (!component) {
+      text += `### ${name}\n\nNot found in the ingested SDK - confirm the name with \`get_component_schema\`.\n\n`;
+      continue;
+    }
+    text += formatComponent(component);
+  }
+
+  return text;
+}
+
+function formatComponent(component: ComponentDefinition): string {
+  let text = `### ${component.name}\n\n`;
+  text += `\`${component.importPath}\`\n\n`;
+  if (component.description) {
+    text += `${component.description}\n\n`;
+  }
+
+  if (component.fields.length > 0) {
+    text += `| Field | Type | Default |\n|---|---|---|\n`;
+    for (const field of component.fields) {
+      const defaultValue = field.default !== undefined ? `\`${field.default}\`` : '';
+      text += `| ${field.name} | ${field.type} | ${defaultValue} |\n`;
+    }
+    text += '\n';
+  }
+
+  if (component.requires.length > 0) {
+    text += `Requires: ${component.requires.join(', ')}\n\n`;
+  }
+
+  return text;
+}
+
+async function formatOrdering(names: string[]): Promise<string> {
+  const seen = new Set<string>();
+  let lines = '';
+
+  for (const name of names) {
+    for (const constraint of await getOrderingConstraints(name)) {
+      const key = `${constraint.after}->${constraint.before}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      lines += `- Add **${constraint.after}** before **${constraint.before}**: ${constraint.reason}\n`;
+    }
+  }
+
+  return lines ? `## Ordering Constraints\n\n${lines}\n` : '';
+}
+
+async function formatMistakes(categories: string[]): Promise<string> {
+  const mistakes: CommonMistake[] = [];
+  for (const category of categories) {
+    mistakes.push(...await getCommonMistakes(category));
+  }
+
+  if (mistakes.length === 0) {
+    return '';
+  }
+
+  let text = `## Common Mistakes to Avoid\n\n`;
+  for (const mistake of mistakes) {
+    text += `### ${mistake.title}\n\n${mistake.description}\n\n`;
+    text += `Wrong:\n\`\`\`typescript\n${mistake.wrongCode}\n\`\`\`\n\n`;
+    text += `Correct:\n\`\`\`typescript\n${mistake.correctCode}\n\`\`\`\n\n`;
+  }
+
+  return text;
+}
+
+export function listPrompts() {
+  return {
+    prompts: prompts.map(({ name, description, arguments: args }) => ({
+      name,
+      description,
+      arguments: args,
+    })),
+  };
+}
+
+export async function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = prompts.find(p => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  for (const arg of prompt.arguments) {
+    if (arg.required && !args[arg.name]) {
+      throw new Error(`Missing required argument "${arg.name}" for prompt ${name}`);
+    }
+  }
+
+  const text = await prompt.build(args);
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user' as const,
+        content: { type: 'text' as const, text: text.trim() },
+      },
+    ],
+  };
+}
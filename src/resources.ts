@@ -0,0 +1,126 @@
+import { readFile, readdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { getCacheDir, loadEnhancedCache } from './lib/cache-loader.js';
+
+const guidesDir = () => join(getCacheDir(), 'docs', 'guides');
+
+const URI_PATTERN = /^iwsdk:\/\/(component|system|type|guide)\/(.+)$/;
+
+export const resourceTemplates = [
+  {
+    uriTemplate: 'iwsdk://component/{name}',
+    name: 'IWSDK component',
+    description: 'Ingested component definition: fields, types, defaults, requirements and examples',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'iwsdk://system/{name}',
+    name: 'IWSDK system',
+    description: 'Ingested system definition: methods, properties and queried components',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'iwsdk://type/{name}',
+    name: 'IWSDK type',
+    description: 'Ingested interface, type alias or enum definition',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'iwsdk://guide/{file}',
+    name: 'IWSDK guide',
+    description: 'Official IWSDK documentation guide copied from the SDK repository',
+    mimeType: 'text/markdown',
+  },
+];
+
+async function listGuideFiles(): Promise<string[]> {
+  if (!existsSync(guidesDir())) {
+    return [];
+  }
+
+  const files = await readdir(guidesDir());
+  return files.filter(file => file.endsWith('.md')).sort();
+}
+
+export async function listResources() {
+  const cache = await loadEnhancedCache();
+  const resources: Array<{ uri: string; name: string; description?: string; mimeType: string }> = [];
+
+  for (const component of Object.values(cache.components)) {
+    resources.push({
+      uri: `iwsdk://component/${encodeURIComponent(component.name)}`,
+      name: `${component.name} (component)`,
+      description: component.description || undefined,
+      mimeType: 'application/json',
+    });
+  }
+
+  for (const system of Object.values(cache.systems)) {
+    resources.push({
+      uri: `iwsdk://system/${encodeURIComponent(system.name)}`,
+      name: `${system.name} (system)`,
+      description: system.description || undefined,
+      mimeType: 'application/json',
+    });
+  }
+
+  for (const type of Object.values(cache.types)) {
+    resources.push({
+      uri: `iwsdk://type/${encodeURIComponent(type.name)}`,
+      name: `${type.name} (${type.kind})`,
+      description: `${type.kind} from ${type.package}`,
+      mimeType: 'application/json',
+    });
+  }
+
+  for (const file of await listGuideFiles()) {
+    resources.push({
+      uri: `iwsdk://guide/${encodeURIComponent(file)}`,
+      name: `${file.replace(/\.md$/, '')} (guide)`,
+      mimeType: 'text/markdown',
+    });
+  }
+
+  return { resources };
+}
+
+export async function readResource(uri: string) {
+  const match = uri.match(URI_PATTERN);
+  if (!match) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  const [, kind, rawName] = match;
+  const name = decodeURIComponent(rawName);
+  const cache = await loadEnhancedCache();
+
+  if (kind === 'guide') {
+    // Only serve files that are actually in the guides directory
+    const guides = await listGuideFiles();
+    if (!guides.includes(name)) {
+      throw new Error(`Guide "${name}" not found`);
+    }
+
+    const text = await readFile(join(guidesDir(), name), 'utf-8');
+    return {
+      contents: [{ uri, mimeType: 'text/markdown', text }],
+    };
+  }
+
+  const records: Record<string, Record<string, unknown>> = {
+    component: cache.components,
+    system: cache.systems,
+    type: cache.types,
+  };
+
+  // Own keys only: iwsdk://component/constructor is not a component
+  const record = Object.hasOwn(records[kind], name) ? records[kind][name] : undefined;
+  if (!record) {
+    throw new Error(`${kind.charAt(0).toUpperCase() + kind.slice(1)} "${name}" not found`);
+  }
+
+  return {
+    contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(record, null, 2) }],
+  };
+}
@@ -1,4 +1,4 @@
-import { getApiDoc } from '../lib/cache-loader.js';
+import { getApiDoc, loadEnhancedCache } from '../lib/cache-loader.js';
 
 export async function getApiDocumentation(
   packageName: string,
@@ -7,6 +7,17 @@ export async function getApiDocumentation(
 ) {
   const doc = await getApiDoc(packageName, className);
 
+  if (!doc && Object.keys((await loadEnhancedCache()).apiDocs).length === 0) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `The cache has no API documentation: it was ingested before class and function docs were captured. Re-run scripts/ingest-source.ts to add them.\n\nMeanwhile, lookup_package_exports and get_component_schema cover what ${packageName} exports.`,
+        },
+      ],
+    };
+  }
+
   if (!doc) {
     return {
       content: [
@@ -20,9 +31,16 @@ export async function getApiDocumentation(
 
   let result = `# ${doc.className}\n\n**Package:** ${doc.packageName}\n\n${doc.description}\n\n`;
 
-  if (methodName && doc.methods?.[methodName]) {
-    const method = doc.methods[methodName];
-    result += `## Method: ${methodName}\n\n`;
+  // Exported functions are stored as a single method named after themselves
+  const selectedMethod = methodName ?? (doc.methods?.[doc.className] ? doc.className : undefined);
+
+  if (methodName && !doc.methods?.[methodName]) {
+    result += `> Method \`${methodName}\` was not found on ${doc.className}. Showing the full documentation instead.\n\n`;
+  }
+
+  if (selectedMethod && doc.methods?.[selectedMethod]) {
+    const method = doc.methods[selectedMethod];
+    result += `## Method: ${selectedMethod}\n\n`;
     result += `\`\`\`typescript\n${method.signature}\n\`\`\`\n\n`;
     result += `${method.description}\n\n`;
 
@@ -40,7 +58,11 @@ export async function getApiDocumentation(
     }
 
     if (method.returns) {
-      result += `### Returns\n\n\`${method.returns}\`\n\n`;
+      result += `### Returns\n\n\`${method.returns}\``;
+      if (method.returnsDescription) {
+        result += ` - ${method.returnsDescription}`;
+      }
+      result += '\n\n';
     }
 
     if (method.examples && method.examples.length > 0) {
@@ -57,7 +79,9 @@ export async function getApiDocumentation(
         const readonly = prop.readonly ? ' (readonly)' : '';
         result += `### ${propName}${readonly}\n\n`;
         result += `**Type:** \`${prop.type}\`\n\n`;
-        result += `${prop.description}\n\n`;
+        if (prop.description) {
+          result += `${prop.description}\n\n`;
+        }
       }
     }
 
@@ -66,7 +90,9 @@ export async function getApiDocumentation(
       for (const [name, method] of Object.entries(doc.methods)) {
         result += `### ${name}\n\n`;
         result += `\`\`\`typescript\n${method.signature}\n\`\`\`\n\n`;
-        result += `${method.description}\n\n`;
+        if (method.description) {
+          result += `${method.description}\n\n`;
+        }
       }
     }
 
@@ -1,308 +1,89 @@
-import { searchExamples, getAllCodeExamples, getValidationRules, getComponentRequirements } from '../lib/cache-loader.js';
+import { searchCache, semanticSearch, getAllCodeExamples, loadEnhancedCache, getUIKitSchema } from '../lib/cache-loader.js';
+import { validateSource, type Finding } from '../lib/code-validator.js';
+import { toJsonDiagnostics, toSarif, type DiagnosticsFormat } from '../lib/diagnostics.js';
+import { createUnifiedDiff, fixSource } from '../lib/code-fixer.js';
+import { typecheckSource } from '../lib/type-checker.js';
+import { validateProjectDir } from '../lib/project-validator.js';
+import { loadCustomRules } from '../lib/custom-rules.js';
+import { assertProjectAccess } from '../lib/project-access.js';
+import { validateMarkup, formatLayoutTree, CORE_UIKIT_SCHEMA } from '../lib/uikitml.js';
+import { composeFromDescription } from '../lib/feature-composer.js';
+
+// Reciprocal rank fusion constant; larger values flatten the contribution of top ranks
+const RRF_K = 60;
 
 export async function composeFeature(featureDescription: string) {
-  const lower = featureDescription.toLowerCase();
-
-  const compositions: Array<{
-    keywords: string[];
-    components: string[];
-    systems: string[];
-    apis: Array<{ class: string; method: string }>;
-    codeStructure: string;
-    fullExample: string;
-  }> = [
-    {
-      keywords: ['ball', 'sphere', 'grabbable', 'grab', 'pick up', 'hold'],
-      components: ['Interactable', 'OneHandGrabbable'],
-      systems: ['GrabSystem (auto-enabled with enableGrabbing feature)'],
-      apis: [
-        { class: 'World', method: 'createTransformEntity()' },
-        { class: 'Entity', method: 'addComponent()' },
-        { class: 'THREE.Mesh', method: 'constructor()' },
-        { class: 'THREE.SphereGeometry', method: 'constructor()' },
-      ],
-      codeStructure: `
-1. Create transform entity
-2. Create Three.js sphere geometry and material
-3. Create mesh and add to entity
-4. Position the entity
-5. Add Interactable component
-6. Add OneHandGrabbable component with configuration
-`,
-      fullExample: `import { Interactable, OneHandGrabbable } from '@iwsdk/core';
-import * as THREE from 'three';
-
-// Create entity with 3D transform
-const ball = world.createTransformEntity();
-
-// Create sphere geometry and material
-const geometry = new THREE.SphereGeometry(0.15);  // 15cm radius
-const material = new THREE.MeshStandardMaterial({
-  color: 0xff4444,
-  metalness: 0.3,
-  roughness: 0.7
-});
-
-// Create mesh and add to entity
-const mesh = new THREE.Mesh(geometry, material);
-ball.object3D!.add(mesh);
-
-// Position the ball in the scene
-ball.object3D!.position.set(0, 1.2, -1);  // At eye level, 1m forward
-
-// Make it interactable (required for all interactive objects)
-ball.addComponent(Interactable);
-
-// Make it grabbable with one hand
-ball.addComponent(OneHandGrabbable, {
-  rotate: true,      // Allow rotation while grabbed
-  translate: true    // Allow position changes
-});
-
-console.log('Grabbable ball created!');`
-    },
-    {
-      keywords: ['clickable', 'button', 'click', 'interact', 'press'],
-      components: ['Interactable'],
-      systems: ['InputSystem (always active)'],
-      apis: [
-        { class: 'World', method: 'createTransformEntity()' },
-        { class: 'Entity', method: 'addComponent()' },
-        { class: 'Entity', method: 'onClick property' },
-      ],
-      codeStructure: `
-1. Create transform entity
-2. Create Three.js geometry (box/sphere for button)
-3. Add mesh to entity
-4. Position appropriately (comfortable distance)
-5. Add Interactable component
-6. Set onClick event handler
-7. Optional: Add visual feedback (hover, press)
-`,
-      fullExample: `import { Interactable } from '@iwsdk/core';
-import * as THREE from 'three';
-
-// Create button entity
-const button = world.createTransformEntity();
-
-// Create button geometry
-const geometry = new THREE.BoxGeometry(0.3, 0.15, 0.05);
-const material = new THREE.MeshStandardMaterial({ color: 0x4444ff });
-const mesh = new THREE.Mesh(geometry, material);
-button.object3D!.add(mesh);
-
-// Position at comfortable distance
-button.object3D!.position.set(0, 1.5, -2);
-
-// Make it interactable
-button.addComponent(Interactable);
-
-// Add click handler
-button.onClick = () => {
-  console.log('Button clicked!');
-  // Change color on click
-  material.color.setHex(0xff4444);
-};
-
-// Add hover feedback
-button.onHoverEnter = () => {
-  button.setValue(Interactable, 'glowIntensity', 1.5);
-};
-
-button.onHoverExit = () => {
-  button.setValue(Interactable, 'glowIntensity', 0);
-};`
-    },
-    {
-      keywords: ['physics', 'falling', 'gravity', 'bounce', 'collide', 'dynamic'],
-      components: ['PhysicsBody', 'PhysicsShape'],
-      systems: ['PhysicsSystem'],
-      apis: [
-        { class: 'World', method: 'createTransformEntity()' },
-        { class: 'World', method: 'registerSystem()' },
-        { class: 'Entity', method: 'addComponent()' },
-      ],
-      codeStructure: `
-1. Register PhysicsSystem if not already registered
-2. Create transform entity
-3. Create and add visual mesh
-4. Position entity above ground
-5. Add PhysicsBody component (type: dynamic)
-6. Add PhysicsShape component (matching visual geometry)
-7. Configure physics properties (mass, friction, restitution)
-`,
-      fullExample: `import { PhysicsSystem, PhysicsBody, PhysicsShape } from '@iwsdk/core';
-import * as THREE from 'three';
-
-// Register physics system (only needed once)
-world.registerSystem(PhysicsSystem, {
-  gravity: [0, -9.81, 0],
-  useWorker: true
-});
-
-// Create entity
-const ball = world.createTransformEntity();
-
-// Visual representation
-const geometry = new THREE.SphereGeometry(0.2);
-const material = new THREE.MeshStandardMaterial({ color: 0xff0000 });
-const mesh = new THREE.Mesh(geometry, material);
-ball.object3D!.add(mesh);
-
-// Position above ground
-ball.object3D!.position.set(0, 3, 0);
-
-// Add physics body (dynamic = affected by forces)
-ball.addComponent(PhysicsBody, {
-  type: 'dynamic',
-  mass: 1.0,
-  friction: 0.5,
-  restitution: 0.6  // Bounciness (0-1)
-});
-
-// Add collision shape (must match visual size)
-ball.addComponent(PhysicsShape, {
-  shape: 'sphere',
-  radius: 0.2  // Same as geometry radius
-});
-
-console.log('Physics ball created - will fall and bounce!');`
-    },
-    {
-      keywords: ['ui', 'panel', 'menu', 'text', 'spatial ui', 'uikit'],
-      components: ['UIKitDocument'],
-      systems: ['PanelUISystem'],
-      apis: [
-        { class: 'World', method: 'registerSystem()' },
-        { class: 'World', method: 'createTransformEntity()' },
-        { class: 'Entity', method: 'addComponent()' },
-        { class: 'UIKitDocument', method: 'getElementById()' },
-      ],
-      codeStructure: `
-1. Register PanelUISystem if not already registered
-2. Create transform entity for panel
-3. Position panel at comfortable viewing distance
-4. Add UIKitDocument component with UIKitML markup
-5. Get element references using getElementById
-6. Attach event handlers (onClick, etc.)
-7. Update content dynamically as needed
-`,
-      fullExample: `import { PanelUISystem, UIKitDocument } from '@iwsdk/core';
-
-// Register UI system (only needed once)
-world.registerSystem(PanelUISystem);
-
-// Create panel entity
-const panel = world.createTransformEntity();
-panel.object3D!.position.set(0, 1.5, -2);  // Comfortable reading distance
-
-// Add UI with UIKitML
-const doc = panel.addComponent(UIKitDocument, {
-  source: \`
-    <view style="width: 500px; height: 300px; padding: 20px; background-color: #222222dd; flex-direction: column;">
-      <text style="font-size: 36px; color: #ffffff; margin-bottom: 20px;">
-        Hello VR!
-      </text>
-      <button id="myButton" style="padding: 10px; background-color: #4444ff;">
-        Click Me
-      </button>
-      <text id="status" style="margin-top: 20px; color: #aaaaaa;">
-        Status: Ready
-      </text>
-    </view>
-  \`
-});
-
-// Get element references
-const button = doc.getElementById('myButton')!;
-const status = doc.getElementById('status')!;
-
-// Add interactivity
-let clickCount = 0;
-button.onClick = () => {
-  clickCount++;
-  status.textContent = \`Clicked \${clickCount} times\`;
-  status.style.color = '#00ff00';
-};`
-    },
-    {
-      keywords: ['movement', 'locomotion', 'walking', 'teleport', 'move'],
-      components: ['LocomotionCollider (for walkable surfaces)'],
-      systems: ['LocomotionSystem'],
-      apis: [
-        { class: 'World', method: 'registerSystem()' },
-        { class: 'Entity', method: 'addComponent()' },
-      ],
-      codeStructure: `
-1. Register LocomotionSystem with configuration
-2. Create ground/floor entities
-3. Add LocomotionCollider to walkable surfaces
-4. Configure slide speed, turn method, teleport
-5. Enable Web Worker for performance
-`,
-      fullExample: `import { LocomotionSystem, LocomotionCollider } from '@iwsdk/core';
-import * as THREE from 'three';
-
-// Register locomotion system
-world.registerSystem(LocomotionSystem, {
-  configData: {
-    slidingSpeed: 5,          // 5 m/s
-    turningMethod: 1,         // 1 = snap turn, 0 = smooth
-    turningAngle: 45,         // Degrees for snap turn
-    teleportEnabled: true,
-    useWorker: true           // Run physics on worker
-  }
-});
-
-// Create ground
-const ground = world.createTransformEntity();
-const groundMesh = new THREE.Mesh(
-  new THREE.PlaneGeometry(20, 20),
-  new THREE.MeshStandardMaterial({ color: 0x336633 })
-);
-groundMesh.rotation.x = -Math.PI / 2;
-ground.object3D!.add(groundMesh);
-
-// Make ground walkable for locomotion
-ground.addComponent(LocomotionCollider, {
-  type: 'static',
-  walkable: true  // Can teleport to this surface
-});
-
-console.log('Locomotion enabled! Use thumbsticks to move.');`
-    }
-  ];
+  const composition = await composeFromDescription(featureDescription);
 
-  for (const comp of compositions) {
-    if (comp.keywords.some(keyword => lower.includes(keyword))) {
-      let result = `# Feature Composition: ${featureDescription}\n\n`;
+  if (composition) {
+    const { metadata } = await loadEnhancedCache();
+    let result = `# Feature Composition: ${featureDescription}\n\n`;
+    result += `Composed from the IWSDK ${metadata.iwsdkVersion} components, systems and examples.\n\n`;
+
+    if (composition.clauses.length > 1) {
+      result += `## Features\n\n`;
+      result += composition.clauses.map(clause => `- ${clause}`).join('\n') + '\n\n';
+    }
 
+    if (composition.components.length > 0) {
       result += `## Required Components\n\n`;
-      for (const component of comp.components) {
-        result += `- **${component}**\n`;
+      for (const component of composition.components) {
+        result += `- **${component.name}** - ${component.reason}`;
+        result += component.entity && composition.clauses.length > 1 ? `, on \`${component.entity}\`` : '';
+        result += component.snippetSource ? ` (options from ${component.snippetSource})\n` : '\n';
       }
       result += '\n';
+    }
 
+    if (composition.systems.length > 0) {
       result += `## Required Systems\n\n`;
-      for (const system of comp.systems) {
-        result += `- **${system}**\n`;
+      for (const system of composition.systems) {
+        const how = system.builtIn
+          ? 'registered by World.create'
+          : system.feature
+            ? `enabled by the \`${system.feature}\` feature`
+            : 'register with `world.registerSystem()`';
+        const queries = system.queries.length > 0 ? `, queries ${system.queries.join(', ')}` : '';
+        result += `- **${system.name}** - ${how}${queries}\n`;
       }
       result += '\n';
+    }
 
-      result += `## Key APIs Used\n\n`;
-      for (const api of comp.apis) {
-        result += `- **${api.class}.${api.method}**\n`;
-      }
-      result += '\n';
+    if (composition.conflicts.length > 0) {
+      result += `## Resolved Conflicts\n\n`;
+      result += composition.conflicts.map(conflict => `- ${conflict}`).join('\n') + '\n\n';
+    }
 
-      result += `## Implementation Steps\n${comp.codeStructure}\n`;
+    if (composition.oftenUsedWith.length > 0) {
+      result += `## Often Used With\n\n`;
+      result += composition.oftenUsedWith.map(name => `- ${name}`).join('\n') + '\n\n';
+    }
 
-      result += `## Complete Working Code\n\n\`\`\`typescript\n${comp.fullExample}\n\`\`\`\n`;
+    result += `## Implementation Steps\n\n`;
+    result += composition.steps.map((step, i) => `${i + 1}. ${step}`).join('\n') + '\n\n';
 
-      return {
-        content: [{ type: 'text', text: result }]
-      };
+    if (composition.unimplemented.length > 0) {
+      result += `## Not Implemented\n\n`;
+      result += composition.unimplemented.map(clause => `- ${clause}`).join('\n') + '\n\n';
     }
+
+    result += `## Complete Working Code\n\n\`\`\`typescript\n${composition.code}\`\`\`\n`;
+
+    if (composition.remaining.length > 0) {
+      result += `\n## Still To Review\n\n`;
+      for (let i = 0; i < composition.remaining.length; i++) {
+        result += `${i + 1}. ${formatFinding(composition.remaining[i])}\n`;
+      }
+    }
+
+    if (composition.examples.length > 0) {
+      result += `\n## Related Examples\n\n`;
+      result += composition.examples.map(example => `- **${example.title}** (${example.filePath})`).join('\n') + '\n';
+    }
+
+    return {
+      content: [{ type: 'text', text: result }]
+    };
   }
 
   return {
@@ -345,77 +126,44 @@ Common feature types:
   };
 }
 
-export async function validateCode(code: string) {
-  const issues: string[] = [];
-  const suggestions: string[] = [];
-
-  if (code.includes('world.createEntity()') && code.includes('.object3D')) {
-    issues.push('Using createEntity() but accessing object3D - use createTransformEntity() instead');
-    suggestions.push('Change world.createEntity() to world.createTransformEntity()');
-  }
-
-  if (code.includes('addComponent(Interactable)') &&
-      !code.includes('onClick') &&
-      !code.includes('onHover') &&
-      !code.includes('OneHandGrabbable') &&
-      !code.includes('TwoHandsGrabbable')) {
-    suggestions.push('Interactable component added but no event handlers or grabbing. Add onClick/onHoverEnter handlers or grabbing components.');
+export async function validateCode(
+  code: string,
+  format: DiagnosticsFormat = 'markdown',
+  fileName?: string,
+  projectRoot?: string
+) {
+  if (projectRoot) {
+    assertProjectAccess('validate_code', projectRoot);
   }
+  const customRules = await loadCustomRules(projectRoot);
+  const { analysis, findings } = await validateSource(code, fileName, customRules.rules);
 
-  if (code.includes('PhysicsBody') && !code.includes('PhysicsShape')) {
-    issues.push('PhysicsBody without PhysicsShape - both are required for physics');
-    suggestions.push('Add PhysicsShape component with appropriate shape (box, sphere, capsule)');
-  }
-
-  if (code.includes('PhysicsSystem') && !code.includes('registerSystem')) {
-    issues.push('Using physics components but PhysicsSystem not registered');
-    suggestions.push('Add: world.registerSystem(PhysicsSystem);');
-  }
-
-  if (code.includes('UIKitDocument') && !code.includes('PanelUISystem')) {
-    issues.push('Using UIKitDocument but PanelUISystem not registered');
-    suggestions.push('Add: world.registerSystem(PanelUISystem);');
+  if (format === 'json' || format === 'sarif') {
+    const output = format === 'json'
+      ? toJsonDiagnostics(findings, analysis.sourceFile, fileName)
+      : toSarif(findings, analysis.sourceFile, fileName, customRules.descriptions);
+    return {
+      content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
+    };
   }
 
-  if (code.includes('LocomotionSystem') && !code.includes('enableLocomotion') && !code.includes('registerSystem(LocomotionSystem')) {
-    suggestions.push('Consider using features.enableLocomotion: true in World.create() for simpler setup');
-  }
+  const issues = findings.filter(f => f.severity !== 'info');
+  const suggestions = findings.filter(f => f.severity === 'info');
 
-  if (code.includes('new THREE.Mesh') && !code.includes('object3D!.add')) {
-    issues.push('Created THREE.Mesh but not added to entity or scene');
-    suggestions.push('Add mesh to entity: entity.object3D!.add(mesh);');
-  }
+  let result = `# Code Validation Results\n\n`;
 
-  const allRules = await getValidationRules();
-  for (const rule of allRules) {
-    const componentMatch = rule.id.match(/component-(\w+)-requires/);
-    if (componentMatch) {
-      const componentName = componentMatch[1];
-      if (code.includes(componentName)) {
-        const requirements = await getComponentRequirements(componentName);
-        for (const req of requirements) {
-          if (!code.includes(req)) {
-            if (rule.severity === 'error') {
-              issues.push(`${rule.message} - Missing ${req}`);
-            } else {
-              suggestions.push(rule.message);
-            }
-          }
-        }
-      }
-    }
+  if (customRules.path) {
+    result += `**Custom rules:** ${customRules.rules.length} from ${customRules.path}\n\n`;
   }
 
-  let result = `# Code Validation Results\n\n`;
-
-  if (issues.length === 0 && suggestions.length === 0) {
+  if (findings.length === 0) {
     result += `**No issues found!** The code looks good.\n\n`;
     result += `The code follows IWSDK best practices and should work correctly.\n`;
   } else {
     if (issues.length > 0) {
       result += `## Issues Found\n\n`;
       for (let i = 0; i < issues.length; i++) {
-        result += `${i + 1}. ${issues[i]}\n`;
+        result += `${i + 1}. ${formatFinding(issues[i])}\n`;
       }
       result += '\n';
     }
@@ -423,40 +171,232 @@ export async function validateCode(code: string) {
     if (suggestions.length > 0) {
       result += `## Suggestions\n\n`;
       for (let i = 0; i < suggestions.length; i++) {
-        result += `${i + 1}. ${suggestions[i]}\n`;
+        result += `${i + 1}. ${formatFinding(suggestions[i])}\n`;
       }
       result += '\n';
     }
   }
 
+  if (analysis.entities.size > 0) {
+    result += `## Entities\n\n`;
+    result += `| Entity | Created with | Components | Findings |\n|---|---|---|---|\n`;
+    for (const entity of analysis.entities.values()) {
+      const components = entity.components
+        .map(u => `${u.method === 'removeComponent' ? '-' : ''}${u.component.name}`)
+        .join(', ');
+      const count = findings.filter(f => f.entity === entity.name).length;
+      result += `| \`${entity.name}\` | ${entity.createdBy ? `${entity.createdBy}()` : '-'} | ${components || '-'} | ${count} |\n`;
+    }
+    result += '\n';
+  }
+
   return {
     content: [{ type: 'text', text: result }]
   };
 }
 
-export async function findSimilarCode(description: string) {
-  const examples = await getAllCodeExamples();
-  const lower = description.toLowerCase();
+export async function fixCode(code: string, fileName?: string) {
+  const { code: fixed, applied, remaining } = await fixSource(code, fileName);
+
+  let result = `# Code Fixes\n\n`;
+
+  if (applied.length === 0) {
+    result += remaining.length === 0
+      ? `**No issues found!** There is nothing to fix.\n\n`
+      : `No automatic fixes are available for the issues found.\n\n`;
+  } else {
+    result += `## Applied Fixes\n\n`;
+    for (let i = 0; i < applied.length; i++) {
+      const f = applied[i];
+      result += `${i + 1}. ${f.fix!.description}${f.entity ? ` (\`${f.entity}\`)` : ''} [${f.ruleId}]\n`;
+    }
+    result += '\n';
+
+    result += `## Diff\n\n\`\`\`diff\n${createUnifiedDiff(code, fixed, fileName)}\`\`\`\n\n`;
+    result += `## Fixed Code\n\n\`\`\`typescript\n${fixed}${fixed.endsWith('\n') ? '' : '\n'}\`\`\`\n\n`;
+  }
+
+  if (remaining.length > 0) {
+    result += `## Remaining Issues\n\n`;
+    for (let i = 0; i < remaining.length; i++) {
+      result += `${i + 1}. ${formatFinding(remaining[i])}\n`;
+    }
+    result += '\n';
+  }
+
+  return {
+    content: [{ type: 'text', text: result }]
+  };
+}
+
+export async function typecheckCode(code: string, format: DiagnosticsFormat = 'markdown', fileName?: string) {
+  const { sourceFile, findings, assumed, untyped } = typecheckSource(code, fileName);
+
+  if (format === 'json' || format === 'sarif') {
+    const output = format === 'json'
+      ? toJsonDiagnostics(findings, sourceFile, fileName)
+      : toSarif(findings, sourceFile, fileName);
+    return {
+      content: [{ type: 'text', text: JSON.stringify(output, null, 2) }]
+    };
+  }
 
-  const scored = examples.map(example => {
-    let score = 0;
+  const { metadata } = await loadEnhancedCache();
+  let result = `# Type Check Results\n\n`;
+  result += `Checked against the IWSDK ${metadata.iwsdkVersion} declarations captured at ingest.\n\n`;
 
-    if (example.title.toLowerCase().includes(lower)) score += 10;
-    if (example.description.toLowerCase().includes(lower)) score += 5;
+  if (assumed.length > 0) {
+    result += `**Assumed in scope:** ${assumed.map(name => `\`${name}\``).join(', ')} (used without being declared or imported; typed from @iwsdk/core)\n\n`;
+  }
+  if (untyped.length > 0) {
+    result += `**Untyped dependencies:** ${untyped.join(', ')} (captured without declarations, so their APIs are not checked)\n\n`;
+  }
 
-    for (const tag of example.tags) {
-      if (lower.includes(tag.toLowerCase())) score += 3;
+  if (findings.length === 0) {
+    result += `**No type errors found.**\n`;
+  } else {
+    result += `## Diagnostics\n\n`;
+    for (let i = 0; i < findings.length; i++) {
+      result += `${i + 1}. ${formatFinding(findings[i])}\n`;
     }
+  }
 
-    if (example.code.toLowerCase().includes(lower)) score += 2;
+  return {
+    content: [{ type: 'text', text: result }]
+  };
+}
+
+export async function validateProject(projectRoot: string) {
+  assertProjectAccess('validate_project', projectRoot);
+  const report = await validateProjectDir(projectRoot);
+  const { findings, iwsdkVersion } = report;
+  const count = (severity: Finding['severity']) => findings.filter(f => f.severity === severity).length;
+
+  let result = `# Project Validation Results\n\n`;
+  result += `**Project:** ${report.root}\n\n`;
+  result += `**Files checked:** ${report.files.length}\n\n`;
+  result += `**IWSDK version:** ${iwsdkVersion.declared ? `declared ${iwsdkVersion.declared}, ` : ''}` +
+    `${iwsdkVersion.installed ? `installed ${iwsdkVersion.installed}, ` : ''}server data ${iwsdkVersion.cache}\n\n`;
+
+  if (findings.length === 0) {
+    result += `**No issues found!** The project follows IWSDK best practices.\n`;
+    return {
+      content: [{ type: 'text', text: result }]
+    };
+  }
+
+  result += `**Summary:** ${count('error')} error(s), ${count('warning')} warning(s), ${count('info')} suggestion(s)\n\n`;
+
+  // Project-wide findings first, then files in the order they were read
+  const groups = [undefined, ...report.files];
+  const severityOrder = { error: 0, warning: 1, info: 2 };
+  for (const file of groups) {
+    const fileFindings = findings
+      .filter(f => f.file === file)
+      .sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity] || a.line - b.line || a.column - b.column);
+    if (fileFindings.length === 0) continue;
+
+    result += `## ${file ?? 'Project'}\n\n`;
+    for (let i = 0; i < fileFindings.length; i++) {
+      result += `${i + 1}. ${file ? formatFinding(fileFindings[i]) : `${fileFindings[i].message} [${fileFindings[i].ruleId}]`}\n`;
+    }
+    result += '\n';
+  }
+
+  return {
+    content: [{ type: 'text', text: result }]
+  };
+}
+
+export async function validateUIKitML(markup?: string, code?: string) {
+  if (markup === undefined && code === undefined) {
+    throw new Error('Provide the UIKitML markup, the code that embeds it, or both');
+  }
 
-    return { example, score };
+  const schema = await getUIKitSchema();
+  const report = validateMarkup({ markup, code }, schema ?? CORE_UIKIT_SCHEMA);
+
+  let result = `# UIKitML Validation Results\n\n`;
+  if (schema) {
+    result += `Checked against @pmndrs/uikit ${schema.uikitVersion}${schema.uikitmlVersion ? ` and @pmndrs/uikitml ${schema.uikitmlVersion}` : ''} ` +
+      `(${Object.keys(schema.elements).length} elements).\n\n`;
+  } else {
+    result += `**Note:** UIKit elements were not captured at ingest (install the SDK's dependencies and re-run the ingestion), so element and property names were checked against a built-in list of core UIKit names only.\n\n`;
+  }
+
+  if (report.documents.length === 0) {
+    result += `**No UIKitML markup found in the code.**\n`;
+    return {
+      content: [{ type: 'text', text: result }]
+    };
+  }
+
+  // Markup passed on its own has its own line numbers; keep code findings apart
+  const sections: Array<[string, Finding[]]> = markup !== undefined
+    ? [['Markup', report.findings], ['Code', report.referenceFindings]]
+    : [['Issues Found', [...report.findings, ...report.referenceFindings].sort((a, b) => a.line - b.line || a.column - b.column)]];
+
+  if (sections.every(([, findings]) => findings.length === 0)) {
+    result += `**No issues found!** Elements, properties and element ids check out.\n\n`;
+  }
+  for (const [title, findings] of sections) {
+    if (findings.length === 0) continue;
+    result += `## ${title}\n\n`;
+    for (let i = 0; i < findings.length; i++) {
+      result += `${i + 1}. ${formatFinding(findings[i])}\n`;
+    }
+    result += '\n';
+  }
+
+  result += `## Layout\n\n`;
+  result += `Flexbox sizes in UIKit units (width × height, position within the parent). Text is measured approximately.\n\n`;
+  result += '```\n' + report.layouts.flat().map(box => formatLayoutTree(box)).join('\n\n') + '\n```\n';
+
+  return {
+    content: [{ type: 'text', text: result }]
+  };
+}
+
+function formatFinding(finding: Finding): string {
+  let text = `**Line ${finding.line}:${finding.column}** `;
+  if (finding.entity) {
+    text += `(\`${finding.entity}\`) `;
+  }
+  text += `${finding.message} [${finding.ruleId}]`;
+  if (finding.fix) {
+    text += `\n   - Fix: ${finding.fix.description}`;
+  }
+  return text;
+}
+
+export async function findSimilarCode(description: string) {
+  const examples = await getAllCodeExamples();
+
+  // Fuse semantic and keyword rankings: embeddings find examples that share no
+  // words with the description, BM25 keeps exact API names ranking first
+  const [semanticHits, keywordHits] = await Promise.all([
+    semanticSearch(description, { types: ['example'], limit: examples.length }),
+    searchCache(description, { types: ['example'], limit: examples.length })
+  ]);
+
+  // Examples only BM25 found have no similarity to show
+  const fused = new Map<string, { score: number; similarity?: number }>();
+  semanticHits.forEach((hit, rank) => {
+    fused.set(hit.id, { score: 1 / (RRF_K + rank + 1), similarity: hit.similarity });
+  });
+  keywordHits.forEach((hit, rank) => {
+    const entry = fused.get(hit.id) || { score: 0 };
+    entry.score += 1 / (RRF_K + rank + 1);
+    fused.set(hit.id, entry);
   });
 
-  const topExamples = scored
-    .filter(item => item.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 3);
+  const topExamples = [...fused.entries()]
+    .sort((a, b) => b[1].score - a[1].score)
+    .slice(0, 3)
+    .map(([id, { similarity }]) => ({
+      example: examples[Number(id.slice('example:'.length))],
+      similarity
+    }));
 
   if (topExamples.length === 0) {
     return {
@@ -473,9 +413,11 @@ export async function findSimilarCode(description: string) {
   result += `Found ${topExamples.length} relevant example${topExamples.length > 1 ? 's' : ''}:\n\n`;
 
   for (let i = 0; i < topExamples.length; i++) {
-    const { example, score } = topExamples[i];
+    const { example, similarity } = topExamples[i];
     result += `## ${i + 1}. ${example.title}\n\n`;
-    result += `**Relevance**: ${score} points\n`;
+    if (similarity !== undefined) {
+      result += `**Semantic similarity**: ${similarity.toFixed(2)}\n`;
+    }
     result += `**Description**: ${example.description}\n`;
     result += `**Category**: ${example.category}\n`;
     result += `**Tags**: ${example.tags.join(', ')}\n\n`;
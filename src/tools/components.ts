@@ -1,4 +1,6 @@
 import { getComponent, getAllComponents } from "../lib/cache-loader.js";
+import { defaultSource, fieldLiteral, fieldType, knownFieldTypes, VECTOR_LENGTHS } from "../lib/field-types.js";
+import type { ComponentSchema } from "../lib/types.js";
 
 export async function getComponentSchema(componentName: string) {
   const component = await getComponent(componentName);
@@ -60,6 +62,10 @@ export async function getComponentSchema(componentName: string) {
     if (field.default !== undefined) {
       result += `**Default:** \`${JSON.stringify(field.default)}\`\n`;
     }
+    if (field.enumValues) {
+      const values = Object.entries(field.enumValues).map(([member, value]) => `\`${field.enum}.${member}\` (${JSON.stringify(value)})`);
+      result += `**Values:** ${values.join(', ')}\n`;
+    }
     if (field.description) {
       result += `\n${field.description}\n`;
     }
@@ -91,3 +97,178 @@ export async function getComponentSchema(componentName: string) {
     ],
   };
 }
+
+interface ComponentFieldSpec {
+  name: string;
+  type: string;
+  default?: unknown;
+  description?: string;
+  /** Name of the enum object for Types.Enum fields */
+  enumName?: string;
+  /** Enum options: values (member names derived from them) or member -> value */
+  options?: string[] | Record<string, string | number>;
+}
+
+function pascalCase(value: string): string {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+/**
+ * Free text as JSDoc lines: `*\/` would close the comment early, and each
+ * line of multi-line text gets its own ` * `.
+ */
+function docLines(text: string): string[] {
+  return text.replace(/\*\//g, "*\\/").split(/\r?\n/);
+}
+
+export async function generateComponent(
+  componentName: string,
+  fields: ComponentFieldSpec[],
+  description?: string,
+  category?: string
+) {
+  if (!/^[A-Z][A-Za-z0-9]*$/.test(componentName)) {
+    throw new Error(`Component name "${componentName}" must be a PascalCase identifier (e.g., Health)`);
+  }
+
+  const knownTypes = await knownFieldTypes();
+
+  const summary = description || `${componentName} component`;
+  const enums: Array<{ name: string; field: string; members: Record<string, string | number> }> = [];
+  const schemaFields: ComponentSchema["fields"] = [];
+  const fieldLines: string[] = [];
+  const seen = new Set<string>();
+
+  for (const field of fields) {
+    if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(field.name)) {
+      throw new Error(`Field name "${field.name}" is not a valid identifier`);
+    }
+    if (seen.has(field.name)) {
+      throw new Error(`Field "${field.name}" is defined twice`);
+    }
+    seen.add(field.name);
+
+    const type = fieldType(field.type, field.name, knownTypes);
+
+    let initial: string;
+    let enumName: string | undefined;
+    let enumValues: Record<string, string | number> | undefined;
+
+    if (type === "Enum") {
+      if (!field.options || Object.keys(field.options).length === 0) {
+        throw new Error(`Enum field "${field.name}" needs options`);
+      }
+      enumName = field.enumName || pascalCase(field.name);
+      enumValues = Array.isArray(field.options)
+        ? Object.fromEntries(field.options.map((option) => [pascalCase(option), option]))
+        : field.options;
+      const members = Object.entries(enumValues);
+      const chosen = field.default === undefined
+        ? members[0]
+        : members.find(([member, value]) => member === field.default || value === field.default);
+      if (!chosen) {
+        throw new Error(
+          `Default ${fieldLiteral(field.default)} for "${field.name}" is not one of ${members.map(([member]) => `${enumName}.${member}`).join(", ")}`
+        );
+      }
+      initial = `${enumName}.${chosen[0]}`;
+      enums.push({ name: enumName, field: field.name, members: enumValues });
+    } else {
+      if (field.options) {
+        throw new Error(`Field "${field.name}" has options but type ${type}; use Types.Enum`);
+      }
+      initial = defaultSource(type, field.name, field.default);
+    }
+
+    if (field.description) {
+      const lines = docLines(field.description);
+      fieldLines.push(...(lines.length === 1
+        ? [`    /** ${lines[0]} */`]
+        : ["    /**", ...lines.map((line) => `     * ${line}`.trimEnd()), "     */"]));
+    }
+    const enumPart = enumName ? `, enum: ${enumName}` : "";
+    fieldLines.push(`    ${field.name}: { type: Types.${type}${enumPart}, default: ${initial} },`);
+
+    schemaFields.push({
+      name: field.name,
+      type,
+      default: initial,
+      ...(field.description ? { description: field.description } : {}),
+      ...(enumName ? { enum: enumName, enumValues } : {}),
+    });
+  }
+
+  const categoryTag = category ? [" *", ` * @category ${category}`] : [];
+  const code: string[] = ["import { createComponent, Types } from '@iwsdk/core';", ""];
+
+  for (const { name, field, members } of enums) {
+    code.push(
+      "/**",
+      ` * Values of {@link ${componentName}}'s \`${field}\` field.`,
+      ...categoryTag,
+      " */",
+      `export const ${name} = {`,
+      ...Object.entries(members).map(([member, value]) => `  ${member}: ${fieldLiteral(value)},`),
+      "} as const;",
+      ""
+    );
+  }
+
+  code.push(
+    "/**",
+    ...docLines(summary).map((line) => ` * ${line}`.trimEnd()),
+    ...categoryTag,
+    " */",
+    `export const ${componentName} = createComponent(`,
+    `  '${componentName}',`,
+    "  {",
+    ...fieldLines,
+    "  },",
+    `  ${fieldLiteral(summary)},`,
+    ");"
+  );
+
+  // Only the fields given a default show up in the example's options
+  const options = schemaFields
+    .filter((field) => fields.find((spec) => spec.name === field.name)?.default !== undefined)
+    .map((field) => `${field.name}: ${field.default}`);
+  const readable = schemaFields.find((field) => !VECTOR_LENGTHS[field.type] && field.type !== "Object");
+  const usage = [
+    options.length > 0
+      ? `entity.addComponent(${componentName}, { ${options.join(", ")} });`
+      : `entity.addComponent(${componentName});`,
+    ...(readable ? [`const ${readable.name} = entity.getValue(${componentName}, '${readable.name}');`] : []),
+  ].join("\n");
+
+  const schema: ComponentSchema = {
+    name: componentName,
+    description: summary,
+    fields: schemaFields,
+    examples: [usage],
+  };
+
+  let result = `# ${componentName} Component\n\n`;
+  result += `\`\`\`typescript\n${code.join("\n")}\n\`\`\`\n\n`;
+  result += `## Usage\n\n\`\`\`typescript\n${usage}\n\`\`\`\n\n`;
+  result += `## ComponentSchema Record\n\n`;
+  result += `The same shape \`get_component_schema\` is built from, for tools and agents working with the new component:\n\n`;
+  result += `\`\`\`json\n${JSON.stringify(schema, null, 2)}\n\`\`\`\n`;
+
+  const existing = await getComponent(componentName);
+  if (existing) {
+    result += `\n## Note\n\n${componentName} is also exported by \`${existing.package}\`; importing both in one file will clash. Consider another name.\n`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: result.trim(),
+      },
+    ],
+  };
+}
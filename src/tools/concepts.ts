@@ -1,15 +1,11 @@
 import { readFile } from 'fs/promises';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const OVERVIEW_PATH = join(__dirname, '..', '..', 'cache', 'docs', 'overview.md');
+import { join } from 'path';
+import { getCacheDir } from '../lib/cache-loader.js';
 
 export async function explainConcept(concept: string) {
   try {
     // Load official IWSDK overview from Meta
-    const overview = await readFile(OVERVIEW_PATH, 'utf-8');
+    const overview = await readFile(join(getCacheDir(), 'docs', 'overview.md'), 'utf-8');
 
     // Return overview for high-level concepts
     if (['iwsdk', 'overview', 'introduction', 'getting-started'].includes(concept.toLowerCase())) {
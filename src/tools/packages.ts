@@ -48,6 +48,14 @@ export async function lookupPackageExports(packageName: string) {
     result += '\n';
   }
 
+  if (exports.values?.length > 0) {
+    result += `## Constants and Enums\n\n`;
+    for (const value of exports.values) {
+      result += `- **${value}**\n`;
+    }
+    result += '\n';
+  }
+
   if (exports.types.length > 0) {
     result += `## Types\n\n`;
     for (const type of exports.types) {
@@ -56,6 +64,19 @@ export async function lookupPackageExports(packageName: string) {
     result += '\n';
   }
 
+  const deprecated = Object.entries(exports.deprecated || {});
+  if (deprecated.length > 0) {
+    result += `## Deprecated\n\n`;
+    for (const [name, message] of deprecated) {
+      result += `- **${name}**${message ? ` - ${message}` : ''}\n`;
+    }
+    result += '\n';
+  }
+
+  if (exports.reexports?.length > 0) {
+    result += `Also re-exports everything from: ${exports.reexports.map(m => `\`${m}\``).join(', ')}\n`;
+  }
+
   result += `\n---\n\n`;
   result += `Use \`get_api_documentation\` to get detailed information about specific classes.\n`;
   result += `Use \`get_component_schema\` to get field definitions for components.\n`;
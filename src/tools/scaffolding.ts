@@ -1,4 +1,12 @@
-export async function scaffoldProject(template: string, projectName: string) {
+import { writeProject, type WriteOptions } from '../lib/project-writer.js';
+import { buildSdkTemplate } from '../lib/sdk-templates.js';
+import { assertProjectAccess } from '../lib/project-access.js';
+
+export async function scaffoldProject(
+  template: string,
+  projectName: string,
+  options: WriteOptions & { outputDir?: string } = {}
+) {
   const templates: Record<string, any> = {
     minimal: {
       description: 'Minimal IWSDK project with basic world setup',
@@ -340,26 +348,32 @@ main().catch(console.error);`
     }
   };
 
-  const tmpl = templates[template];
+  // ui-demo, full-featured and the AR templates are generated against the ingested SDK
+  const tmpl = templates[template] ?? await buildSdkTemplate(template, projectName);
 
   if (!tmpl) {
     return {
       content: [
         {
           type: 'text',
-          text: `Template "${template}" not found.\n\nAvailable templates:\n- minimal: Basic IWSDK setup\n- interactive: Grabbing and UI\n- locomotion: Full movement system\n- ui-demo: Spatial UI showcase\n- full-featured: All systems enabled`,
+          text: `Template "${template}" not found.\n\nAvailable templates:\n- minimal: Basic IWSDK setup\n- interactive: Grabbing and UI\n- locomotion: Full movement system\n- ui-demo: Spatial UI showcase\n- full-featured: All systems enabled\n- ar-placement: Passthrough AR with hit-test placement and anchors\n- ar-scene: Passthrough AR with plane and mesh detection`,
         },
       ],
     };
   }
 
+  if (options.outputDir) {
+    assertProjectAccess('scaffold_project', options.outputDir);
+    return writeScaffold(projectName, tmpl, options.outputDir, options);
+  }
+
   let result = `# ${projectName} - ${tmpl.description}\n\n`;
   result += `## Project Structure\n\n\`\`\`\n`;
   result += `${projectName}/\n`;
 
   const fileKeys = Object.keys(tmpl.files).sort();
   for (const file of fileKeys) {
-    const indent = file.startsWith('src/') ? '  ' : '';
+    const indent = file.includes('/') ? '  ' : '';
     result += `${indent}├── ${file}\n`;
   }
 
@@ -372,6 +386,10 @@ main().catch(console.error);`
     result += `### ${filename}\n\n\`\`\`${getFileExtension(filename)}\n${content}\n\`\`\`\n\n`;
   }
 
+  if (tmpl.notes?.length > 0) {
+    result += `## Before You Run\n\n${tmpl.notes.map((note: string) => `- ${note}`).join('\n')}\n\n`;
+  }
+
   result += `## Installation\n\n\`\`\`bash\nnpm install\n\`\`\`\n\n`;
   result += `## Development\n\n\`\`\`bash\nnpm run dev\n\`\`\`\n\n`;
   result += `Visit https://localhost:3000 in a WebXR-compatible browser!\n`;
@@ -386,9 +404,66 @@ main().catch(console.error);`
   };
 }
 
+async function writeScaffold(
+  projectName: string,
+  tmpl: { description: string; files: Record<string, string>; notes?: string[] },
+  outputDir: string,
+  options: WriteOptions
+) {
+  const outcome = await writeProject(outputDir, tmpl.files, options);
+  const conflicts = outcome.files.filter(file => file.action === 'conflict');
+  const kept = outcome.files.filter(file => file.action === 'keep');
+
+  let result = `# ${projectName} - ${tmpl.description}\n\n`;
+  result += `**Directory:** \`${outcome.root}\`\n`;
+  if (options.dryRun) {
+    result += `**Dry run:** nothing was written\n`;
+  } else if (!outcome.written) {
+    result += `**Not written:** ${conflicts.length} file(s) already exist\n`;
+  }
+  result += '\n## Files\n\n';
+
+  for (const file of outcome.files) {
+    const notes = file.notes.length > 0 ? ` - ${file.notes.join('; ')}` : '';
+    result += `- \`${file.path}\` - ${file.action}${notes}\n`;
+  }
+
+  if (conflicts.length > 0) {
+    result += `\n## Conflicts\n\n`;
+    result += `${conflicts.map(file => `\`${file.path}\``).join(', ')} already ${conflicts.length === 1 ? 'exists' : 'exist'}. `;
+    result += `Pass \`force: true\` to overwrite, or \`merge: true\` to add IWSDK to the existing project `;
+    result += `(patches package.json and the Vite config, keeps the other files).\n`;
+  }
+
+  if (kept.length > 0) {
+    result += `\n## Template Versions of Kept Files\n\n`;
+    result += `The project's own files were left in place; fold in what it needs from the template:\n\n`;
+    for (const file of kept) {
+      result += `### ${file.path}\n\n\`\`\`${getFileExtension(file.path)}\n${file.content}\n\`\`\`\n\n`;
+    }
+  }
+
+  if (tmpl.notes && tmpl.notes.length > 0) {
+    result += `\n## Before You Run\n\n${tmpl.notes.map(note => `- ${note}`).join('\n')}\n`;
+  }
+
+  if (outcome.written) {
+    result += `\n## Next Steps\n\n\`\`\`bash\ncd ${outcome.root}\nnpm install\nnpm run dev\n\`\`\`\n`;
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: result,
+      },
+    ],
+  };
+}
+
 function getFileExtension(filename: string): string {
   if (filename.endsWith('.ts')) return 'typescript';
   if (filename.endsWith('.json')) return 'json';
-  if (filename.endsWith('.html')) return 'html';
+  if (filename.endsWith('.html') || filename.endsWith('.uikitml')) return 'html';
   return '';
 }
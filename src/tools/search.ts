@@ -0,0 +1,53 @@
+import { searchCache } from '../lib/cache-loader.js';
+import type { SearchDocType } from '../lib/search-index.js';
+
+// Tool to call next for each kind of hit
+const FOLLOW_UP: Record<SearchDocType, (name: string) => string> = {
+  component: name => `get_component_schema("${name}")`,
+  system: name => `get_system_info("${name}")`,
+  type: name => `resource iwsdk://type/${name}`,
+  example: name => `search_code_examples("${name}")`,
+  guide: name => `resource iwsdk://guide/${name}`,
+  mistake: name => `get_common_mistakes("${name}")`,
+};
+
+export async function search(query: string, types?: SearchDocType[], limit?: number) {
+  const hits = await searchCache(query, {
+    types: types && types.length > 0 ? types : undefined,
+    limit: limit ?? 10,
+  });
+
+  if (hits.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `No results found for "${query}".\n\nTry fewer or more general words, or use \`lookup_package_exports\` to browse what each package provides.`,
+        },
+      ],
+    };
+  }
+
+  let result = `# Search Results for "${query}"\n\n`;
+
+  hits.forEach((hit, i) => {
+    const key = hit.id.slice(hit.id.indexOf(':') + 1);
+    const followUpKey = hit.type === 'example' || hit.type === 'mistake' ? hit.title : key;
+
+    result += `## ${i + 1}. ${hit.title} (${hit.type})\n\n`;
+    result += `**Score:** ${hit.score}\n`;
+    result += `**Details:** ${FOLLOW_UP[hit.type](followUpKey)}\n\n`;
+    if (hit.snippet) {
+      result += `> ${hit.snippet}\n\n`;
+    }
+  });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: result.trim(),
+      },
+    ],
+  };
+}
@@ -1,4 +1,14 @@
-import { getSystem, getAllSystems } from '../lib/cache-loader.js';
+import { getApiDoc, getSystem, getAllSystems, getSymbolAliases, loadEnhancedCache } from '../lib/cache-loader.js';
+import { defaultSource, fieldType, knownFieldTypes, VECTOR_LENGTHS } from '../lib/field-types.js';
+
+// Lifecycle methods a template implements, when the SDK defines them
+const LIFECYCLE_METHODS = ['init', 'update', 'destroy'];
+const FALLBACK_SIGNATURES: Record<string, string> = {
+  init: 'init(): void',
+  update: 'update(delta: number, time: number): void',
+};
+// Where the template imports components the SDK doesn't export
+const LOCAL_COMPONENTS_MODULE = './components.js';
 
 export async function getSystemInfo(systemName: string) {
   const system = await getSystem(systemName);
@@ -71,101 +81,192 @@ export async function getSystemInfo(systemName: string) {
   };
 }
 
+interface SystemTemplateSdk {
+  /** createSystem() signature from the API docs */
+  createSystem?: string;
+  /** Lifecycle method -> signature */
+  lifecycle: Record<string, string>;
+  /** Queries support subscribe('qualify' | 'disqualify', ...) */
+  queryHooks: boolean;
+  /** System has cleanupFuncs for teardown callbacks */
+  cleanupFuncs: boolean;
+}
+
+/**
+ * What the ingested SDK says about writing a system: the createSystem()
+ * signature, the System interface's lifecycle methods (then those ingested
+ * systems implement), and whether query subscriptions appear in its snippets.
+ */
+async function loadSystemTemplateSdk(): Promise<SystemTemplateSdk> {
+  const cache = await loadEnhancedCache();
+  const systemInterface = cache.types['System']?.definition ?? '';
+
+  const lifecycle: Record<string, string> = {};
+  for (const match of systemInterface.matchAll(/^\s*(\w+)\(([^)]*)\):\s*([\w<>[\]]+);/gm)) {
+    if (LIFECYCLE_METHODS.includes(match[1])) lifecycle[match[1]] = `${match[1]}(${match[2]}): ${match[3]}`;
+  }
+  for (const system of Object.values(cache.systems)) {
+    for (const method of system.methods) {
+      if (LIFECYCLE_METHODS.includes(method.name) && !lifecycle[method.name]) {
+        lifecycle[method.name] = method.signature.replace(/;$/, '');
+      }
+    }
+  }
+  for (const [name, signature] of Object.entries(FALLBACK_SIGNATURES)) {
+    lifecycle[name] ??= signature;
+  }
+
+  const snippets = [
+    ...Object.values(cache.components).flatMap(component => component.jsdocExamples),
+    ...cache.examples.map(example => example.code),
+    ...Object.values(cache.systems).map(system => system.sourceCode),
+  ];
+  const createSystem = (await getApiDoc('@iwsdk/core', 'createSystem'))?.methods?.createSystem?.signature;
+
+  return {
+    createSystem: createSystem?.split('\n').pop(),
+    lifecycle,
+    queryHooks: snippets.some(snippet => /subscribe\(\s*['"](qualify|disqualify)['"]/.test(snippet)),
+    cleanupFuncs: /\bcleanupFuncs\b/.test(systemInterface),
+  };
+}
+
 export async function generateSystemTemplate(
   systemName: string,
   queries: Array<{ name: string; required: string[]; excluded?: string[] }>,
   configFields?: Array<{ name: string; type: string; default?: any }>
 ) {
-  let result = `# ${systemName} Template\n\n`;
-  result += `Below is a TypeScript template for your custom ECS system:\n\n`;
-  result += `\`\`\`typescript\n`;
-  result += `import { createSystem, Types } from '@iwsdk/core';\n`;
+  const sdk = await loadSystemTemplateSdk();
+  const cache = await loadEnhancedCache();
+  const aliases = await getSymbolAliases();
+  const knownTypes = await knownFieldTypes();
+  // Own keys only: `constructor` is not a component
+  const findComponent = (name: string) => {
+    const key = Object.hasOwn(cache.components, name) ? name : Object.hasOwn(aliases, name) ? aliases[name] : undefined;
+    return key !== undefined && Object.hasOwn(cache.components, key) ? cache.components[key] : undefined;
+  };
 
-  const componentImports = new Set<string>();
-  for (const query of queries) {
-    for (const comp of query.required) {
-      componentImports.add(comp);
+  const config = (configFields ?? []).map(field => {
+    const type = fieldType(field.type, field.name, knownTypes);
+    if (type === 'Enum') {
+      throw new Error(`Config field "${field.name}" is an Enum; define the enum object and add \`enum\` to the schema by hand`);
     }
-    if (query.excluded) {
-      for (const comp of query.excluded) {
-        componentImports.add(comp);
-      }
+    return { name: field.name, type, initial: defaultSource(type, field.name, field.default) };
+  });
+
+  // Components the SDK exports are imported from their package; the rest are the app's own
+  const imports = new Map<string, string[]>([['@iwsdk/core', ['createSystem', ...(config.length > 0 ? ['Types'] : [])]]]);
+  const local: string[] = [];
+  for (const name of new Set(queries.flatMap(query => [...query.required, ...(query.excluded ?? [])]))) {
+    const component = findComponent(name);
+    if (component) {
+      const names = imports.get(component.package) ?? [];
+      imports.set(component.package, [...names, name]);
+    } else {
+      local.push(name);
     }
   }
 
-  if (componentImports.size > 0) {
-    result += `// Import your components\n`;
-    result += `// import { ${Array.from(componentImports).join(', ')} } from './components';\n\n`;
+  const code: string[] = [...imports].map(([pkg, names]) => `import { ${names.join(', ')} } from '${pkg}';`);
+  if (local.length > 0) {
+    code.push(`import { ${local.join(', ')} } from '${LOCAL_COMPONENTS_MODULE}';`);
   }
 
-  result += `class ${systemName} extends createSystem(\n`;
-  result += `  // Queries\n`;
-  result += `  {\n`;
-
+  code.push('', `export class ${systemName} extends createSystem(`, '  {');
   for (const query of queries) {
-    result += `    ${query.name}: {\n`;
-    result += `      required: [${query.required.join(', ')}]`;
-    if (query.excluded && query.excluded.length > 0) {
-      result += `,\n      excluded: [${query.excluded.join(', ')}]`;
+    const excluded = query.excluded && query.excluded.length > 0 ? `, excluded: [${query.excluded.join(', ')}]` : '';
+    code.push(`    ${query.name}: { required: [${query.required.join(', ')}]${excluded} },`);
+  }
+  code.push('  },');
+  if (config.length > 0) {
+    code.push('  {');
+    for (const field of config) {
+      code.push(`    ${field.name}: { type: Types.${field.type}, default: ${field.initial} },`);
     }
-    result += `\n    },\n`;
+    code.push('  },');
   }
+  code.push(') {');
 
-  result += `  }`;
+  const methods: string[][] = [];
 
-  if (configFields && configFields.length > 0) {
-    result += `,\n  // Configuration\n`;
-    result += `  {\n`;
-    for (const field of configFields) {
-      const defaultValue = field.default !== undefined ? field.default : getDefaultForType(field.type);
-      result += `    ${field.name}: { type: ${field.type}, default: ${JSON.stringify(defaultValue)} },\n`;
+  const init = [`  ${sdk.lifecycle.init.replace(/:\s*void$/, '')} {`];
+  if (sdk.queryHooks) {
+    for (const query of queries) {
+      const matches = [
+        query.required.join(', '),
+        ...(query.excluded && query.excluded.length > 0 ? [`not ${query.excluded.join(', ')}`] : []),
+      ].join(' and ');
+      init.push(
+        `    this.queries.${query.name}.subscribe('qualify', (entity) => {`,
+        `      // entity now has ${matches}`,
+        `    });`,
+        `    this.queries.${query.name}.subscribe('disqualify', (entity) => {`,
+        `      // entity no longer matches ${query.name}`,
+        `    });`
+      );
     }
-    result += `  }`;
   }
+  for (const field of config) {
+    // Signal.subscribe returns the unsubscribe function
+    const subscribe = `this.config.${field.name}.subscribe((value) => {`;
+    init.push(
+      sdk.cleanupFuncs ? `    this.cleanupFuncs.push(${subscribe}` : `    ${subscribe}`,
+      `      // React to ${field.name} changes`,
+      sdk.cleanupFuncs ? `    }));` : `    });`
+    );
+  }
+  if (init.length === 1) {
+    init.push(`    // Called once when the system is registered`);
+  }
+  init.push('  }');
+  methods.push(init);
 
-  result += `\n) {\n`;
-  result += `  init() {\n`;
-  result += `    // Called once when system is registered\n`;
-  result += `    console.log('${systemName} initialized');\n`;
-  result += `  }\n\n`;
-
-  result += `  update(dt: number) {\n`;
-  result += `    // Called every frame\n`;
-
+  const update = [`  ${sdk.lifecycle.update.replace(/:\s*void$/, '')} {`];
+  for (const field of config) {
+    update.push(`    const ${field.name} = this.config.${field.name}.value;`);
+  }
   for (const query of queries) {
-    result += `    \n    // Process ${query.name}\n`;
-    result += `    for (const entity of this.queries.${query.name}.entities) {\n`;
-    result += `      // TODO: Implement logic for ${query.name}\n`;
-    for (const comp of query.required) {
-      result += `      // const value = entity.getValue(${comp}, 'fieldName');\n`;
-    }
-    result += `    }\n`;
+    update.push(`    for (const entity of this.queries.${query.name}.entities) {`);
+    const reads = query.required.flatMap(name => {
+      const component = findComponent(name);
+      const field = component?.fields.find(f => !f.name.startsWith('_'));
+      if (!component) return [`      // entity.getValue(${name}, 'field')`];
+      if (!field) return [`      // ${name} is a tag: it has no fields to read`];
+      const accessor = VECTOR_LENGTHS[field.type] ? 'getVectorView' : 'getValue';
+      // Prefixed so two components with the same field don't declare one name twice
+      const variable = `${name[0].toLowerCase()}${name.slice(1)}${field.name[0].toUpperCase()}${field.name.slice(1)}`;
+      return [`      const ${variable} = entity.${accessor}(${name}, '${field.name}');`];
+    });
+    update.push(...reads, '    }');
   }
+  if (update.length === 1) {
+    update.push('    // Called every frame');
+  }
+  update.push('  }');
+  methods.push(update);
 
-  result += `  }\n\n`;
-
-  result += `  onEntityAdded(entity: Entity) {\n`;
-  result += `    // Called when entity matches any query\n`;
-  result += `  }\n\n`;
-
-  result += `  onEntityRemoved(entity: Entity) {\n`;
-  result += `    // Called when entity stops matching any query\n`;
-  result += `  }\n\n`;
+  if (sdk.lifecycle.destroy) {
+    methods.push([`  ${sdk.lifecycle.destroy.replace(/:\s*void$/, '')} {`, `    // Release anything created in init()`, '  }']);
+  }
 
-  result += `  destroy() {\n`;
-  result += `    // Called when system is removed\n`;
-  result += `  }\n`;
-  result += `}\n\n`;
+  code.push(methods.map(method => method.join('\n')).join('\n\n'), '}', '', `// world.registerSystem(${systemName});`);
 
-  result += `// Register with world\n`;
-  result += `// world.registerSystem(${systemName});\n`;
-  result += `\`\`\`\n\n`;
+  let result = `# ${systemName} Template\n\n`;
+  if (sdk.createSystem) {
+    result += `Built on the IWSDK ${cache.metadata.iwsdkVersion} \`createSystem\` signature:\n\n`;
+    result += `\`\`\`typescript\n${sdk.createSystem}\n\`\`\`\n\n`;
+  }
+  result += `\`\`\`typescript\n${code.join('\n')}\n\`\`\`\n\n`;
 
   result += `## Usage\n\n`;
-  result += `1. Define the components used in the queries\n`;
-  result += `2. Register the components with the world\n`;
-  result += `3. Register this system with the world\n`;
-  result += `4. Implement the update logic for each query\n\n`;
+  const steps = [
+    ...(local.length > 0 ? [`Define ${local.join(', ')} in \`${LOCAL_COMPONENTS_MODULE.replace(/\.js$/, '.ts')}\` (see \`generate_component\`)`] : []),
+    'Register the system with `world.registerSystem()`',
+    ...(sdk.queryHooks ? ['Set up per-entity state in the `qualify` callbacks and tear it down in `disqualify`'] : []),
+    'Implement the per-frame logic in `update()`',
+    ...(config.length > 0 ? ['Change config at runtime through `this.config.<name>.value`; the subscriptions react to it'] : []),
+  ];
+  result += steps.map((step, i) => `${i + 1}. ${step}`).join('\n') + '\n\n';
 
   result += `## Query Details\n\n`;
   for (const query of queries) {
@@ -185,16 +286,3 @@ export async function generateSystemTemplate(
     ],
   };
 }
-
-function getDefaultForType(type: string): any {
-  if (type.includes('Float') || type.includes('Int') || type.includes('Uint')) {
-    return 0;
-  }
-  if (type.includes('Boolean')) {
-    return false;
-  }
-  if (type.includes('String')) {
-    return '';
-  }
-  return null;
-}
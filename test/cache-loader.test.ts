@@ -0,0 +1,34 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cp, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { searchCache, searchCommonMistakes, searchExamples } from '../src/lib/cache-loader.js';
+import { tempProject } from './helpers.js';
+
+let cacheDir: string;
+
+// A cache ingested before the search index existed
+before(async () => {
+  cacheDir = await tempProject();
+  await cp(process.env.IWSDK_MCP_CACHE_DIR!, cacheDir, { recursive: true });
+  await rm(join(cacheDir, 'search-index.json'));
+  process.env.IWSDK_MCP_CACHE_DIR = cacheDir;
+});
+
+after(() => rm(cacheDir, { recursive: true, force: true }));
+
+describe('cache without a search index', () => {
+  test('asks to re-run the ingest for full-text search', async () => {
+    await assert.rejects(searchCache('grab'), /Re-run scripts\/ingest-source\.ts/);
+  });
+
+  test('matches examples by substring', async () => {
+    const examples = await searchExamples('physics');
+    assert.deepEqual(examples.map(example => example.title), ['Physics']);
+  });
+
+  test('matches common mistakes by substring', async () => {
+    const mistakes = await searchCommonMistakes('register');
+    assert.deepEqual(mistakes.map(m => m.id), ['missing-system-registration']);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyEdits, createUnifiedDiff, fixSource } from '../src/lib/code-fixer.js';
+
+const WORLD = `const world = await World.create(document.getElementById('app') as HTMLDivElement);\n`;
+
+describe('applyEdits', () => {
+  test('applies edits against the original offsets', () => {
+    const code = 'const a = 1;\nconst b = 2;\n';
+    const edited = applyEdits(code, [
+      { start: 10, end: 11, newText: '10' },
+      { start: 23, end: 24, newText: '20' },
+    ]);
+    assert.equal(edited, 'const a = 10;\nconst b = 20;\n');
+  });
+
+  test('keeps insertions at one offset in the order given', () => {
+    assert.equal(applyEdits('ac', [{ start: 1, end: 1, newText: 'b' }, { start: 1, end: 1, newText: 'B' }]), 'abBc');
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  test('shows removed and added lines', () => {
+    const diff = createUnifiedDiff('one\ntwo\n', 'one\n2\n', 'main.ts');
+    assert.match(diff, /^--- a\/main\.ts/m);
+    assert.match(diff, /^-two$/m);
+    assert.match(diff, /^\+2$/m);
+  });
+});
+
+describe('fixSource', () => {
+  test('swaps createEntity() for createTransformEntity() when object3D is used', async () => {
+    const result = await fixSource(
+      `import { World } from '@iwsdk/core';\n${WORLD}const entity = world.createEntity();\nentity.object3D!.position.set(0, 1, 0);\n`
+    );
+    assert.match(result.code, /world\.createTransformEntity\(\)/);
+    assert.deepEqual(result.applied.map(finding => finding.ruleId), ['create-entity-object3d']);
+    assert.deepEqual(result.remaining, []);
+  });
+
+  test('adds the interactable a grabbable requires before it, and enables grabbing', async () => {
+    const result = await fixSource(`import { World, OneHandGrabbable } from '@iwsdk/core';
+import { Mesh, BoxGeometry, MeshStandardMaterial } from 'three';
+${WORLD}const cube = world.createTransformEntity(new Mesh(new BoxGeometry(), new MeshStandardMaterial()));
+cube.addComponent(OneHandGrabbable);
+`);
+    assert.match(result.code, /cube\.addComponent\(\w*Interactable\);\ncube\.addComponent\(OneHandGrabbable\);/);
+    assert.match(result.code, /features: \{ grabbing: true \}/);
+    assert.deepEqual(result.remaining, []);
+  });
+
+  test('removes per-frame console calls without emptying an if of its body', async () => {
+    const result = await fixSource(`import { createSystem } from '@iwsdk/core';
+export class SpeedSystem extends createSystem({}) {
+  update(delta: number) {
+    if (delta > 0.1) console.warn('slow frame', delta);
+    for (const n of [1, 2]) console.log(n);
+    console.log('tick');
+    this.world.getActiveRoots();
+  }
+}
+`);
+    assert.match(result.code, /if \(delta > 0\.1\) \{\}\n/);
+    assert.match(result.code, /for \(const n of \[1, 2\]\) \{\}\n/);
+    assert.doesNotMatch(result.code, /console\./);
+    assert.match(result.code, /\{\}\n {4}this\.world\.getActiveRoots\(\);/);
+  });
+
+  test('registers the SDK system a component needs after World.create()', async () => {
+    const result = await fixSource(`import { World, DepthOccludable } from '@iwsdk/core';\n${WORLD}world.createTransformEntity().addComponent(DepthOccludable);\n`);
+    assert.match(result.code, /^import \{ World, DepthOccludable, DepthSensingSystem \} from '@iwsdk\/core';$/m);
+    assert.match(result.code, /as HTMLDivElement\);\nworld\.registerSystem\(DepthSensingSystem\);\n/);
+    assert.deepEqual(result.remaining, []);
+  });
+
+  test('gives a mesh that is never added an entity', async () => {
+    const result = await fixSource(`import { World } from '@iwsdk/core';
+import { Mesh, BoxGeometry, MeshStandardMaterial } from 'three';
+${WORLD}const cube = new Mesh(new BoxGeometry(), new MeshStandardMaterial());
+cube.position.set(0, 1, -2);
+`);
+    assert.match(result.code, /new MeshStandardMaterial\(\)\);\nworld\.createTransformEntity\(cube\);\ncube\.position/);
+    assert.deepEqual(result.remaining, []);
+  });
+
+  test('hoists per-frame math allocations to fields and resets them', async () => {
+    const result = await fixSource(`import { createSystem } from '@iwsdk/core';
+import { Vector3, Quaternion } from 'three';
+export class FollowSystem extends createSystem({}) {
+  update() {
+    const offset = new Vector3(0, 1, 0);
+    const rotation = new Quaternion();
+    this.world.camera.position.add(offset).applyQuaternion(rotation);
+  }
+}
+`);
+    assert.match(result.code, /  private readonly tmpOffset = new Vector3\(\);\n  private readonly tmpRotation = new Quaternion\(\);\n  update\(\) \{/);
+    assert.match(result.code, /const offset = this\.tmpOffset\.set\(0, 1, 0\);/);
+    assert.match(result.code, /const rotation = this\.tmpRotation\.identity\(\);/);
+    assert.deepEqual(result.remaining, []);
+  });
+
+  test('offers no fix it cannot apply', async () => {
+    const { remaining } = await fixSource(`import { createSystem } from '@iwsdk/core';
+import { Mesh } from 'three';
+export class SpawnSystem extends createSystem({}) {
+  update() {
+    this.world.createTransformEntity(new Mesh());
+  }
+}
+`);
+    const allocation = remaining.find(finding => finding.ruleId === 'allocation-in-update');
+    assert.ok(allocation);
+    assert.equal(allocation.fix, undefined);
+  });
+
+  test('leaves code without fixable findings alone', async () => {
+    const code = `import { World } from '@iwsdk/core';\n${WORLD}world.createTransformEntity();\n`;
+    const result = await fixSource(code);
+    assert.equal(result.code, code);
+    assert.deepEqual(result.applied, []);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { composeFeature, findSimilarCode } from '../src/tools/code-generation.js';
+
+const text = (result: { content: { text: string }[] }) => result.content[0].text;
+
+describe('find_similar_code', () => {
+  test('lists keyword matches without a similarity when the cache has no vectors', async () => {
+    const output = text(await findSimilarCode('physics body that falls'));
+    assert.match(output, /## 1\. Physics/);
+    assert.doesNotMatch(output, /Semantic similarity/);
+  });
+});
+
+describe('compose_feature', () => {
+  test('lists the components and working code for a description', async () => {
+    const output = text(await composeFeature('a ball I can grab'));
+    assert.match(output, /- \*\*OneHandGrabbable\*\* - matches the description/);
+    assert.match(output, /## Complete Working Code/);
+  });
+
+  test('falls back to general guidance when nothing matches', async () => {
+    const output = text(await composeFeature('make it sparkle'));
+    assert.match(output, /## General Approach/);
+    assert.doesNotMatch(output, /## Complete Working Code/);
+  });
+
+  test('lists the clauses the code leaves to the app', async () => {
+    const output = text(await composeFeature('a car that shows its speed on a UI panel'));
+    assert.match(output, /## Not Implemented\n\n- "shows its speed on a UI panel" - /);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateSource, type Finding } from '../src/lib/code-validator.js';
+
+const HEADER = `import { World, PhysicsShape, PhysicsShapeType, EnvironmentRaycastTarget, RaycastSpace, OneHandGrabbable, createSystem } from '@iwsdk/core';
+const world = await World.create(document.getElementById('app') as HTMLDivElement, {
+  features: { physics: true, environmentRaycast: true },
+});
+const entity = world.createTransformEntity();
+const R = 0.5;
+`;
+
+async function findings(body: string, ruleId?: string): Promise<Finding[]> {
+  const result = await validateSource(HEADER + body);
+  return result.findings.filter(finding => !ruleId || finding.ruleId === ruleId);
+}
+
+describe('required components', () => {
+  test('flag a grabbable without an interactable', async () => {
+    const [finding] = await findings(`entity.addComponent(OneHandGrabbable);`, 'missing-required-component');
+    assert.match(finding.message, /Interactable/);
+  });
+
+  test('do not look requirements up on Object.prototype', async () => {
+    for (const name of ['toString', 'constructor']) {
+      assert.deepEqual(await findings(`entity.addComponent(${name});`, 'missing-required-component'), []);
+    }
+  });
+});
+
+describe('component field values', () => {
+  test('accepts vectors whose elements are identifiers or expressions', async () => {
+    assert.deepEqual(await findings(`entity.addComponent(PhysicsShape, { shape: PhysicsShapeType.Sphere, dimensions: [R, R * 2, 0] });`), []);
+  });
+
+  test('flags vector elements that are literally not numbers', async () => {
+    const [finding] = await findings(
+      `entity.addComponent(PhysicsShape, { shape: PhysicsShapeType.Sphere, dimensions: [R, 'a', 0] });`,
+      'component-field-type'
+    );
+    assert.equal(finding.severity, 'error');
+    assert.match(finding.message, /1 non-numeric element/);
+  });
+
+  test('flags vectors of the wrong length', async () => {
+    const [finding] = await findings(
+      `entity.addComponent(PhysicsShape, { shape: PhysicsShapeType.Sphere, dimensions: [R, 0] });`,
+      'component-field-type'
+    );
+    assert.match(finding.message, /expects 3 numbers but got 2/);
+  });
+
+  test('flags a string where a vector belongs', async () => {
+    const [finding] = await findings(
+      `entity.addComponent(PhysicsShape, { shape: PhysicsShapeType.Box, dimensions: 'big' });`,
+      'component-field-type'
+    );
+    assert.match(finding.message, /got the string "big"/);
+  });
+
+  test('ignores spread vectors it cannot count', async () => {
+    assert.deepEqual(await findings(`const size = [1, 1];\nentity.addComponent(PhysicsShape, { shape: PhysicsShapeType.Box, dimensions: [...size, 1] });`), []);
+  });
+});
+
+describe('unknown component fields', () => {
+  test('offer to rename a misspelled field', async () => {
+    const [finding] = await findings(`entity.addComponent(OneHandGrabbable, { rotat: true });`, 'unknown-component-field');
+    assert.match(finding.message, /did you mean `rotate`/);
+    assert.equal(finding.fix?.edits[0].newText, 'rotate');
+  });
+
+  test('do not rename onto a field that is already set', async () => {
+    const [finding] = await findings(`entity.addComponent(OneHandGrabbable, { rotate: true, rotat: 1 });`, 'unknown-component-field');
+    assert.equal(finding.fix, undefined);
+  });
+});
+
+describe('enum field values', () => {
+  test('accepts enum members', async () => {
+    assert.deepEqual(await findings(`entity.addComponent(EnvironmentRaycastTarget, { space: RaycastSpace.Right });`), []);
+  });
+
+  test('errors on strings that are not a member value', async () => {
+    const [finding] = await findings(`entity.addComponent(PhysicsShape, { shape: 'cube' });`, 'invalid-enum-value');
+    assert.equal(finding.severity, 'error');
+    assert.match(finding.message, /must be one of PhysicsShapeType\.Sphere/);
+  });
+
+  test('warns on raw member values and names the member', async () => {
+    const [finding] = await findings(`entity.addComponent(EnvironmentRaycastTarget, { space: 'right' });`, 'invalid-enum-value');
+    assert.equal(finding.severity, 'warning');
+    assert.match(finding.message, /use RaycastSpace\.Right instead/);
+  });
+});
+
+describe('per-frame rules', () => {
+  const system = (body: string) => `export class SpawnSystem extends createSystem({}) {
+  update() {
+${body}
+  }
+}
+`;
+
+  test('warn about entities created every frame', async () => {
+    const [finding] = await findings(system(`    this.world.createTransformEntity();`), 'entity-creation-in-update');
+    assert.equal(finding.severity, 'warning');
+  });
+
+  test('warn about math objects allocated every frame', async () => {
+    const [finding] = await findings(
+      `import { Vector3 } from 'three';\n${system(`    const offset = new Vector3(0, 1, 0);`)}`,
+      'allocation-in-update'
+    );
+    assert.equal(finding.severity, 'warning');
+  });
+
+  test('recognise THREE.<Type> without a namespace import', async () => {
+    const [finding] = await findings(system(`    const offset = new THREE.Vector3(0, 1, 0);`), 'allocation-in-update');
+    assert.match(finding.message, /new Vector3\(\)/);
+  });
+
+  test('treat code after an early return as conditional', async () => {
+    const [finding] = await findings(
+      system(`    if (!this.input.xr.gamepads.right?.getSelectStart()) return;\n    this.world.createTransformEntity();`),
+      'entity-creation-in-update'
+    );
+    assert.equal(finding.severity, 'info');
+  });
+
+  test('treat code before an early return as unconditional', async () => {
+    const [finding] = await findings(
+      system(`    this.world.createTransformEntity();\n    if (!this.input.xr.gamepads.right?.getSelectStart()) return;`),
+      'entity-creation-in-update'
+    );
+    assert.equal(finding.severity, 'warning');
+  });
+});
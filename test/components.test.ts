@@ -0,0 +1,27 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as ts from 'typescript';
+import { generateComponent } from '../src/tools/components.js';
+
+function codeBlock(text: string): string {
+  return /```typescript\n([\s\S]*?)```/.exec(text)![1];
+}
+
+describe('generateComponent', () => {
+  test('keeps descriptions inside their JSDoc comments', async () => {
+    const result = await generateComponent(
+      'Health',
+      [
+        { name: 'current', type: 'Float32', default: 100, description: 'Ends early */ unless escaped' },
+        { name: 'max', type: 'Float32', default: 100, description: 'Upper bound.\nNever below current.' },
+      ],
+      'Tracks hit points.\nSee */ too'
+    );
+    const code = codeBlock(result.content[0].text);
+    assert.match(code, /\/\*\* Ends early \*\\\/ unless escaped \*\//);
+    assert.match(code, / {4}\/\*\*\n {5}\* Upper bound\.\n {5}\* Never below current\.\n {5}\*\//);
+    assert.match(code, /'Tracks hit points\.\\nSee \*\/ too'/);
+
+    assert.deepEqual(ts.transpileModule(code, { reportDiagnostics: true }).diagnostics, []);
+  });
+});
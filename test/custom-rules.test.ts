@@ -0,0 +1,68 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { rm } from 'node:fs/promises';
+import * as ts from 'typescript';
+import { allowModuleRules, loadCustomRules, parseSelector } from '../src/lib/custom-rules.js';
+import { validateSource } from '../src/lib/code-validator.js';
+import { tempProject } from './helpers.js';
+
+const roots: string[] = [];
+async function project(files: Record<string, string>): Promise<string> {
+  const root = await tempProject(files);
+  roots.push(root);
+  return root;
+}
+after(() => Promise.all(roots.map(root => rm(root, { recursive: true, force: true }))));
+
+describe('parseSelector', () => {
+  test('parses kinds, combinators and attributes', () => {
+    assert.deepEqual(parseSelector('ClassDeclaration > MethodDeclaration[name=update] *'), [
+      { kind: ts.SyntaxKind.ClassDeclaration, attributes: [], combinator: 'descendant' },
+      { kind: ts.SyntaxKind.MethodDeclaration, attributes: [{ name: 'name', value: 'update' }], combinator: 'child' },
+      { kind: '*', attributes: [], combinator: 'descendant' },
+    ]);
+  });
+
+  test('reads /regex/ attribute values as patterns', () => {
+    const [step] = parseSelector('CallExpression[callee=/^Math\\./]');
+    assert.ok(step.attributes[0].value instanceof RegExp);
+    assert.ok((step.attributes[0].value as RegExp).test('Math.random'));
+  });
+
+  test('suggests a node kind for typos', () => {
+    assert.throws(() => parseSelector('CallExpresion'), /unknown node kind "CallExpresion" - did you mean CallExpression\?/);
+  });
+
+  test('rejects names that are only Object.prototype members', () => {
+    assert.throws(() => parseSelector('constructor'), /unknown node kind "constructor"/);
+  });
+});
+
+describe('custom rules', () => {
+  const RULES = JSON.stringify({
+    rules: [{
+      id: 'no-math-random',
+      severity: 'info',
+      message: 'Use a seeded RNG instead of {text}',
+      match: { selector: 'CallExpression[callee=Math.random]' },
+    }],
+  });
+
+  test('run rules.json selectors next to the built-in rules', async () => {
+    const root = await project({ '.iwsdk-mcp/rules.json': RULES });
+    const rules = await loadCustomRules(root);
+    const { findings } = await validateSource('const x = Math.random();\nconst y = Math.floor(1.5);\n', 'main.ts', rules.rules);
+    const custom = findings.filter(finding => finding.ruleId === 'no-math-random');
+    assert.equal(custom.length, 1);
+    assert.equal(custom[0].message, 'Use a seeded RNG instead of Math.random()');
+    assert.equal(custom[0].line, 1);
+  });
+
+  test('refuse rule modules unless they are allowed', async () => {
+    const root = await project({ '.iwsdk-mcp/rules.mjs': 'export default [];\n' });
+    allowModuleRules(false);
+    await assert.rejects(loadCustomRules(root), /--allow-rule-modules/);
+    allowModuleRules(true);
+    assert.deepEqual((await loadCustomRules(root)).rules, []);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { composeFromDescription } from '../src/lib/feature-composer.js';
+
+describe('composeFromDescription', () => {
+  test('picks the components a description names', async () => {
+    const composition = await composeFromDescription('a ball I can grab');
+    assert.ok(composition);
+    assert.ok(composition.components.some(pick => pick.name === 'OneHandGrabbable'));
+    assert.deepEqual(composition.remaining, []);
+  });
+
+  test('gives up on descriptions nothing in the SDK matches', async () => {
+    assert.equal(await composeFromDescription('make it sparkle'), null);
+  });
+
+  test('reports panels it cannot fill in as not implemented', async () => {
+    const composition = await composeFromDescription('a car that shows its speed on a UI panel');
+    assert.ok(composition);
+    assert.ok(composition.unimplemented.some(note => /PanelUI with an empty `config`/.test(note)));
+  });
+});
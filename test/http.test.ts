@@ -0,0 +1,134 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer as createNetServer } from 'node:net';
+import { request, type IncomingHttpHeaders, type Server as HttpServer } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpServer } from '../src/http.js';
+
+// A server whose one tool counts its own calls, so sessions sharing a Server would show
+function countingServer(): Server {
+  const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  let calls = 0;
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'count', description: 'Count calls', inputSchema: { type: 'object' } }],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async () => ({
+    content: [{ type: 'text', text: String(++calls) }],
+  }));
+  return server;
+}
+
+async function freePort(): Promise<number> {
+  const probe = createNetServer();
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as { port: number };
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+let port: number;
+let httpServer: HttpServer;
+
+before(async () => {
+  port = await freePort();
+  httpServer = await startHttpServer(port, '127.0.0.1', countingServer, {
+    allowedHosts: [`my-box.lan:${port}`],
+    allowedOrigins: ['https://allowed.example'],
+  });
+});
+
+after(() => {
+  httpServer.closeAllConnections();
+  httpServer.close();
+});
+
+// node:http rather than fetch, which does not let a request set Host
+function post(body: unknown, headers: Record<string, string> = {}): Promise<{ status: number; headers: IncomingHttpHeaders; json: any }> {
+  return new Promise((resolve, reject) => {
+    const req = request({
+      host: '127.0.0.1',
+      port,
+      path: '/mcp',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    }, res => {
+      let text = '';
+      res.setEncoding('utf-8');
+      res.on('data', chunk => { text += chunk; });
+      res.on('end', () => {
+        // Responses come as JSON or as a server-sent event carrying the JSON
+        const data = text.split('\n').find(line => line.startsWith('data: '));
+        resolve({ status: res.statusCode!, headers: res.headers, json: text ? JSON.parse(data ? data.slice('data: '.length) : text) : undefined });
+      });
+    });
+    req.on('error', reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+async function openSession(): Promise<string> {
+  const { status, headers } = await post({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } },
+  });
+  assert.equal(status, 200);
+  const sessionId = headers['mcp-session-id'] as string;
+  await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'mcp-session-id': sessionId });
+  return sessionId;
+}
+
+async function count(sessionId: string): Promise<string> {
+  const { json } = await post(
+    { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'count', arguments: {} } },
+    { 'mcp-session-id': sessionId }
+  );
+  return json.result.content[0].text;
+}
+
+describe('HTTP transport', () => {
+  test('gives each session its own server', async () => {
+    const first = await openSession();
+    const second = await openSession();
+    assert.notEqual(first, second);
+
+    assert.equal(await count(first), '1');
+    assert.equal(await count(first), '2');
+    assert.equal(await count(second), '1');
+  });
+
+  test('refuses unknown sessions and requests without one', async () => {
+    const unknown = await post({ jsonrpc: '2.0', id: 3, method: 'tools/list' }, { 'mcp-session-id': 'nope' });
+    assert.equal(unknown.status, 404);
+
+    const missing = await post({ jsonrpc: '2.0', id: 4, method: 'tools/list' });
+    assert.equal(missing.status, 400);
+  });
+
+  test('refuses Host headers that are not loopback or allowed', async () => {
+    const refused = await post({ jsonrpc: '2.0', id: 5, method: 'tools/list' }, { Host: `evil.example:${port}` });
+    assert.equal(refused.status, 403);
+    assert.match(refused.json.error.message, /host evil\.example/);
+
+    const allowed = await post({ jsonrpc: '2.0', id: 6, method: 'tools/list' }, { Host: `my-box.lan:${port}` });
+    assert.equal(allowed.status, 400);
+  });
+
+  test('refuses browser origins that are not allowed', async () => {
+    const refused = await post({ jsonrpc: '2.0', id: 7, method: 'tools/list' }, { Origin: 'https://evil.example' });
+    assert.equal(refused.status, 403);
+    assert.match(refused.json.error.message, /origin https:\/\/evil\.example/);
+
+    const allowed = await post({ jsonrpc: '2.0', id: 8, method: 'tools/list' }, { Origin: 'https://allowed.example' });
+    assert.equal(allowed.status, 400);
+  });
+
+  test('reports health with the cache version', async () => {
+    const response = await fetch(`http://127.0.0.1:${port}/health`);
+    const health = await response.json() as { status: string; iwsdkVersion: string };
+    assert.equal(health.status, 'ok');
+    assert.equal(health.iwsdkVersion, '0.4.2');
+  });
+});
@@ -0,0 +1,133 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import { readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { writeProject } from '../src/lib/project-writer.js';
+import { validateProjectDir } from '../src/lib/project-validator.js';
+import { loadEnhancedCache } from '../src/lib/cache-loader.js';
+import { allowProjectAccess } from '../src/lib/project-access.js';
+import { scaffoldProject } from '../src/tools/scaffolding.js';
+import { validateCode, validateProject } from '../src/tools/code-generation.js';
+import { tempProject } from './helpers.js';
+
+const roots: string[] = [];
+async function project(files: Record<string, string> = {}): Promise<string> {
+  const root = await tempProject(files);
+  roots.push(root);
+  return root;
+}
+after(() => Promise.all(roots.map(root => rm(root, { recursive: true, force: true }))));
+
+const TEMPLATE = {
+  'package.json': JSON.stringify({ name: 'app', dependencies: { '@iwsdk/core': '^0.4.0' }, scripts: { dev: 'vite' } }, null, 2),
+  'vite.config.ts': `import { defineConfig } from 'vite';\n\nexport default defineConfig({\n  plugins: [],\n});\n`,
+  'src/main.ts': 'console.log("hello");\n',
+};
+
+describe('writeProject', () => {
+  test('creates every file in an empty directory', async () => {
+    const root = await project();
+    const result = await writeProject(root, TEMPLATE);
+    assert.equal(result.written, true);
+    assert.deepEqual(result.files.map(file => file.action), ['create', 'create', 'create']);
+    assert.equal(await readFile(join(root, 'src/main.ts'), 'utf-8'), TEMPLATE['src/main.ts']);
+  });
+
+  test('writes nothing on a dry run', async () => {
+    const root = await project();
+    const result = await writeProject(root, TEMPLATE, { dryRun: true });
+    assert.equal(result.written, false);
+    assert.equal(existsSync(join(root, 'package.json')), false);
+  });
+
+  test('stops on files that already exist', async () => {
+    const root = await project({ 'src/main.ts': 'mine\n' });
+    const result = await writeProject(root, TEMPLATE);
+    assert.equal(result.written, false);
+    assert.equal(result.files.find(file => file.path === 'src/main.ts')?.action, 'conflict');
+    assert.equal(existsSync(join(root, 'package.json')), false);
+  });
+
+  test('overwrites existing files with force', async () => {
+    const root = await project({ 'src/main.ts': 'mine\n' });
+    const result = await writeProject(root, TEMPLATE, { force: true });
+    assert.equal(result.files.find(file => file.path === 'src/main.ts')?.action, 'overwrite');
+    assert.equal(await readFile(join(root, 'src/main.ts'), 'utf-8'), TEMPLATE['src/main.ts']);
+  });
+
+  test('merges into an existing Vite project', async () => {
+    const root = await project({
+      'package.json': JSON.stringify({ name: 'mine', dependencies: { three: '^0.170.0' }, scripts: { dev: 'vite --open' } }, null, 4) + '\n',
+      'vite.config.mts': `import { defineConfig } from 'vite';\n\nexport default defineConfig({\n  base: './',\n});\n`,
+      'src/main.ts': 'mine\n',
+    });
+    const result = await writeProject(root, TEMPLATE, { merge: true });
+    const actions = Object.fromEntries(result.files.map(file => [file.path, file.action]));
+    assert.deepEqual(actions, { 'package.json': 'patch', 'vite.config.mts': 'patch', 'src/main.ts': 'keep' });
+
+    const pkg = JSON.parse(await readFile(join(root, 'package.json'), 'utf-8'));
+    assert.equal(pkg.name, 'mine');
+    assert.equal(pkg.scripts.dev, 'vite --open');
+    assert.deepEqual(pkg.dependencies, { three: '^0.170.0', '@iwsdk/core': '^0.4.0' });
+    assert.match(await readFile(join(root, 'vite.config.mts'), 'utf-8'), /server: \{\n {4}https: true,\n {2}\},\n {2}base: '\.\/',/);
+    assert.equal(await readFile(join(root, 'src/main.ts'), 'utf-8'), 'mine\n');
+  });
+});
+
+describe('@iwsdk version ranges', () => {
+  const mismatches = async (range: string) => {
+    const root = await project({ 'package.json': JSON.stringify({ dependencies: { '@iwsdk/core': range } }) });
+    const report = await validateProjectDir(root);
+    return report.findings.filter(finding => finding.ruleId === 'iwsdk-version-mismatch').length;
+  };
+
+  test('accept ranges that include the ingested version', async () => {
+    const version = (await loadEnhancedCache()).metadata.iwsdkVersion;
+    const [major, minor] = version.split('.').map(Number);
+    for (const range of [
+      version,
+      `^${version}`,
+      `~${major}.${minor}.0`,
+      `${major}.${minor}.x`,
+      `>=${major}.${minor}.0 <${major + 1}.0.0`,
+      `${major + 1}.0.0 || ${version}`,
+      'workspace:*',
+    ]) {
+      assert.equal(await mismatches(range), 0, range);
+    }
+  });
+
+  test('flag ranges that exclude it', async () => {
+    const version = (await loadEnhancedCache()).metadata.iwsdkVersion;
+    const [major, minor] = version.split('.').map(Number);
+    for (const range of [`^${major + 1}.0.0`, `<${version}`, `~${major}.${minor + 1}.0`, `${major}.${minor + 1}.x`]) {
+      assert.equal(await mismatches(range), 1, range);
+    }
+  });
+});
+
+describe('project directory access', () => {
+  after(() => allowProjectAccess(false));
+
+  test('is refused until the transport is trusted', async () => {
+    const root = await project();
+    await assert.rejects(scaffoldProject('minimal', 'app', { outputDir: root }), /--allow-project-access/);
+    await assert.rejects(validateProject(root), /--allow-project-access/);
+    await assert.rejects(validateCode('const a = 1;\n', 'markdown', undefined, root), /--allow-project-access/);
+    assert.equal(existsSync(join(root, 'package.json')), false);
+  });
+
+  test('is open once allowed', async () => {
+    allowProjectAccess(true);
+    const root = await project();
+    await scaffoldProject('minimal', 'app', { outputDir: root });
+    assert.equal(existsSync(join(root, 'package.json')), true);
+  });
+
+  test('is not needed to return a scaffold as text', async () => {
+    allowProjectAccess(false);
+    const text = (await scaffoldProject('minimal', 'app')).content[0].text;
+    assert.match(text, /package\.json/);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPrompt, listPrompts } from '../src/prompts.js';
+
+const text = async (name: string, args: Record<string, string>) => (await getPrompt(name, args)).messages[0].content.text;
+
+describe('prompts', () => {
+  test('are listed with their arguments', () => {
+    const prompt = listPrompts().prompts.find(p => p.name === 'add-interactive-object');
+    assert.ok(prompt);
+    assert.deepEqual(prompt.arguments.map(arg => arg.name), ['object', 'interaction']);
+  });
+
+  test('add-interactive-object lists the components for the interaction', async () => {
+    const prompt = await text('add-interactive-object', { object: 'a red ball', interaction: 'two-hand' });
+    assert.match(prompt, /Add a red ball to my IWSDK scene/);
+    assert.match(prompt, /### TwoHandsGrabbable/);
+  });
+
+  test('add-interactive-object falls back to grab for unknown interactions', async () => {
+    for (const interaction of ['wave', 'constructor']) {
+      assert.match(await text('add-interactive-object', { object: 'a cube', interaction }), /### OneHandGrabbable/);
+    }
+  });
+
+  test('create-custom-system flags components the SDK does not have', async () => {
+    const prompt = await text('create-custom-system', { systemName: 'SpinSystem', behavior: 'spins things', components: 'OneHandGrabbable, constructor' });
+    assert.match(prompt, /world\.registerSystem\(SpinSystem\)/);
+    assert.match(prompt, /### constructor\n\nNot found in the ingested SDK/);
+  });
+
+  test('require their required arguments', async () => {
+    await assert.rejects(getPrompt('add-interactive-object', {}), /Missing required argument "object"/);
+  });
+
+  test('reject unknown names', async () => {
+    await assert.rejects(getPrompt('nope'), /Unknown prompt: nope/);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { listResources, readResource } from '../src/resources.js';
+
+describe('resources', () => {
+  test('lists components, systems, types and guides', async () => {
+    const uris = (await listResources()).resources.map(resource => resource.uri);
+    for (const uri of ['iwsdk://component/OneHandGrabbable', 'iwsdk://system/GrabSystem', 'iwsdk://guide/05-grabbing.md']) {
+      assert.ok(uris.includes(uri), uri);
+    }
+  });
+
+  test('reads a component as JSON', async () => {
+    const { contents } = await readResource('iwsdk://component/OneHandGrabbable');
+    assert.equal(contents[0].mimeType, 'application/json');
+    assert.equal(JSON.parse(contents[0].text).name, 'OneHandGrabbable');
+  });
+
+  test('reads a guide as markdown', async () => {
+    const { contents } = await readResource('iwsdk://guide/05-grabbing.md');
+    assert.equal(contents[0].mimeType, 'text/markdown');
+    assert.ok(contents[0].text.length > 0);
+  });
+
+  test('does not serve Object.prototype members', async () => {
+    await assert.rejects(readResource('iwsdk://component/constructor'), /Component "constructor" not found/);
+    await assert.rejects(readResource('iwsdk://type/toString'), /Type "toString" not found/);
+  });
+
+  test('does not serve files outside the guides directory', async () => {
+    await assert.rejects(readResource('iwsdk://guide/..%2Fmetadata.json'), /not found/);
+  });
+
+  test('rejects other URIs', async () => {
+    await assert.rejects(readResource('file:///etc/passwd'), /Unsupported resource URI/);
+  });
+});
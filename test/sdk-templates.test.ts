@@ -0,0 +1,42 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSdkTemplate } from '../src/lib/sdk-templates.js';
+import { validateSources } from '../src/lib/code-validator.js';
+
+const TEMPLATES = ['ui-demo', 'full-featured', 'ar-placement', 'ar-scene'];
+
+describe('SDK templates', () => {
+  for (const name of TEMPLATES) {
+    test(`${name} validates without errors or warnings`, async () => {
+      const template = await buildSdkTemplate(name, 'demo');
+      assert.ok(template);
+      const sources = Object.entries(template.files)
+        .filter(([path]) => path.startsWith('src/') && path.endsWith('.ts'))
+        .map(([fileName, code]) => ({ fileName, code }));
+      assert.ok(sources.length > 0);
+
+      const findings = (await validateSources(sources)).flatMap(result =>
+        result.findings
+          .filter(finding => finding.severity !== 'info')
+          .map(finding => `${result.fileName}: ${finding.ruleId}: ${finding.message}`)
+      );
+      assert.deepEqual(findings, []);
+    });
+  }
+
+  test('ar-placement uses the exported RaycastSpace enum', async () => {
+    const template = await buildSdkTemplate('ar-placement', 'demo');
+    const main = template!.files['src/main.ts'];
+    assert.match(main, /space: RaycastSpace\.Right/);
+    assert.match(main, /^ {2}RaycastSpace,$/m);
+  });
+
+  test('package.json is named after the project', async () => {
+    const template = await buildSdkTemplate('ui-demo', 'my-app');
+    assert.equal(JSON.parse(template!.files['package.json']).name, 'my-app');
+  });
+
+  test('unknown templates are undefined', async () => {
+    assert.equal(await buildSdkTemplate('nope', 'demo'), undefined);
+  });
+});
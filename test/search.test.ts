@@ -0,0 +1,107 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSearchIndex, searchIndex, stem, tokenize, type SearchDocument } from '../src/lib/search-index.js';
+import { createLsaEmbedder, searchVectors, trainLsa } from '../src/lib/embeddings.js';
+import { searchCommonMistakes, searchExamples, semanticSearch } from '../src/lib/cache-loader.js';
+
+const DOCUMENTS: SearchDocument[] = [
+  {
+    id: 'component:OneHandGrabbable',
+    type: 'component',
+    title: 'OneHandGrabbable',
+    fields: { name: 'OneHandGrabbable', description: 'Grab and move an object with one hand or controller' },
+    snippetText: 'Grab and move an object with one hand or controller',
+  },
+  {
+    id: 'component:PhysicsBody',
+    type: 'component',
+    title: 'PhysicsBody',
+    fields: { name: 'PhysicsBody', description: 'Rigid body simulated by the physics engine with gravity and collisions' },
+    snippetText: 'Rigid body simulated by the physics engine',
+  },
+  {
+    id: 'system:TeleportSystem',
+    type: 'system',
+    title: 'TeleportSystem',
+    fields: { name: 'TeleportSystem', description: 'Teleport locomotion: point at the floor and jump there' },
+    snippetText: 'Teleport locomotion: point at the floor and jump there',
+  },
+  {
+    id: 'example:grab',
+    type: 'example',
+    title: 'Grab example',
+    fields: { title: 'Grab example', code: 'cube.addComponent(OneHandGrabbable);' },
+    snippetText: 'cube.addComponent(OneHandGrabbable);',
+  },
+];
+
+describe('tokenize', () => {
+  test('splits camelCase names and stems words', () => {
+    const tokens = tokenize('OneHandGrabbable grabbing');
+    assert.ok(tokens.includes('hand'));
+    assert.ok(tokens.includes(stem('grabbing')));
+  });
+});
+
+describe('BM25 search', () => {
+  const index = buildSearchIndex(DOCUMENTS);
+
+  test('ranks the document matching the query first', () => {
+    const [first] = searchIndex(index, 'physics gravity');
+    assert.equal(first.id, 'component:PhysicsBody');
+  });
+
+  test('boosts name matches over body text', () => {
+    const hits = searchIndex(index, 'OneHandGrabbable');
+    assert.equal(hits[0].id, 'component:OneHandGrabbable');
+    assert.ok(hits[0].score > hits[1].score);
+  });
+
+  test('filters by document type', () => {
+    const hits = searchIndex(index, 'grab', { types: ['example'] });
+    assert.deepEqual(hits.map(hit => hit.id), ['example:grab']);
+  });
+
+  test('ignores terms that are Object.prototype members', () => {
+    assert.deepEqual(searchIndex(index, 'constructor toString'), []);
+  });
+});
+
+describe('LSA embeddings', () => {
+  const texts = DOCUMENTS.map(doc => Object.values(doc.fields).join(' '));
+  const model = trainLsa(texts, 3);
+  const embedder = createLsaEmbedder(model);
+
+  test('embeds to unit vectors of the model size', async () => {
+    const [vector] = await embedder.embed(['teleport to the floor']);
+    assert.equal(vector.length, embedder.dimensions);
+    assert.ok(Math.abs(Math.hypot(...vector) - 1) < 1e-6);
+  });
+
+  test('finds the document closest to the query', async () => {
+    const vectors = await embedder.embed(texts);
+    const store = {
+      embedder: embedder.id,
+      dimensions: embedder.dimensions,
+      entries: DOCUMENTS.map((doc, i) => ({ id: doc.id, vector: vectors[i] })),
+    };
+    const [query] = await embedder.embed(['jump to a point on the floor']);
+    assert.equal(searchVectors(store, query)[0].id, 'system:TeleportSystem');
+  });
+});
+
+describe('cache search', () => {
+  test('ranks common mistakes through the index', async () => {
+    const [first] = await searchCommonMistakes('physics shape missing');
+    assert.equal(first.id, 'missing-physics-shape');
+  });
+
+  test('filters examples by category', async () => {
+    assert.ok((await searchExamples('grab', 'interaction')).length > 0);
+    assert.deepEqual(await searchExamples('grab', 'ui'), []);
+  });
+
+  test('returns no semantic hits when the cache has no vectors', async () => {
+    assert.deepEqual(await semanticSearch('grab a ball'), []);
+  });
+});
@@ -0,0 +1,4 @@
+import { fileURLToPath } from 'node:url';
+
+// Tests run against the checked-in snapshot, not whatever was ingested last
+process.env.IWSDK_MCP_CACHE_DIR ??= fileURLToPath(new URL('./fixtures/sdk-cache', import.meta.url));
@@ -0,0 +1,24 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateSystemTemplate } from '../src/tools/systems.js';
+
+async function templateCode(...args: Parameters<typeof generateSystemTemplate>): Promise<string> {
+  const text = (await generateSystemTemplate(...args)).content[0].text;
+  return text.match(/```typescript\n([\s\S]*?)```/g)!.at(-1)!;
+}
+
+describe('generate_system_template', () => {
+  test('declares one variable per component read, even when field names repeat', async () => {
+    const code = await templateCode('GrabSystem', [{ name: 'grabbed', required: ['OneHandGrabbable', 'TwoHandsGrabbable'] }]);
+    const names = [...code.matchAll(/const (\w+) = entity\./g)].map(match => match[1]);
+    assert.equal(names.length, 2);
+    assert.equal(new Set(names).size, 2);
+    assert.match(code, /const oneHandGrabbable\w+ = entity\.getValue\(OneHandGrabbable, /);
+  });
+
+  test('imports names that are Object.prototype members from the app components', async () => {
+    const code = await templateCode('OddSystem', [{ name: 'odd', required: ['constructor'] }]);
+    assert.match(code, /import \{ constructor \} from '\.\/components\.js';/);
+    assert.match(code, /entity\.getValue\(constructor, 'field'\)/);
+  });
+});
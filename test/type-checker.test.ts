@@ -0,0 +1,53 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { typecheckSource } from '../src/lib/type-checker.js';
+import { typecheckCode } from '../src/tools/code-generation.js';
+
+const WORLD = `import { World } from '@iwsdk/core';
+const world = await World.create(document.getElementById('app') as HTMLDivElement);
+`;
+
+describe('typecheckSource', () => {
+  test('passes code that matches the declarations', () => {
+    assert.deepEqual(typecheckSource(`${WORLD}world.createTransformEntity();\n`).findings, []);
+  });
+
+  test('reports misspelled members with a pointer to the API docs', () => {
+    const [finding] = typecheckSource(`${WORLD}world.createTransformEntty();\n`).findings;
+    assert.equal(finding.ruleId, 'TS2551');
+    assert.equal(finding.line, 3);
+    assert.match(finding.message, /Did you mean 'createTransformEntity'\? - See get_api_documentation for World/);
+  });
+
+  test('types `world` in fragments that never declare it', () => {
+    const result = typecheckSource(`world.registerSystem(42 as unknown as object).createEntity();\n`);
+    assert.deepEqual(result.assumed, ['world']);
+    assert.deepEqual(result.findings, []);
+  });
+
+  test('lists the IWSDK packages for unknown @iwsdk modules', () => {
+    const [finding] = typecheckSource(`import { World } from '@iwsdk/cor';\n`).findings;
+    assert.equal(finding.ruleId, 'TS2307');
+    assert.match(finding.message, /IWSDK packages: @iwsdk\/core/);
+  });
+
+  test('leaves modules captured without declarations unchecked', () => {
+    const result = typecheckSource(`import { Mesh } from 'three';\nconst mesh = new Mesh();\n`);
+    assert.deepEqual(result.findings, []);
+    assert.deepEqual(result.untyped, ['three']);
+  });
+});
+
+describe('typecheck_code', () => {
+  test('names the SDK version and lists diagnostics', async () => {
+    const text = (await typecheckCode(`${WORLD}world.createTransformEntty();\n`)).content[0].text;
+    assert.match(text, /IWSDK 0\.4\.2 declarations/);
+    assert.match(text, /1\. \*\*Line 3:7\*\* Property 'createTransformEntty' does not exist/);
+  });
+
+  test('returns JSON diagnostics', async () => {
+    const output = JSON.parse((await typecheckCode(`${WORLD}world.createTransformEntty();\n`, 'json')).content[0].text);
+    assert.equal(output.summary.errors, 1);
+    assert.equal(output.diagnostics[0].ruleId, 'TS2551');
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSdkTemplate } from '../src/lib/sdk-templates.js';
+import { validateUIKitML } from '../src/tools/code-generation.js';
+
+const text = (result: { content: { text: string }[] }) => result.content[0].text;
+
+describe('validate_uikitml without an ingested UIKit schema', () => {
+  test('flags unknown elements', async () => {
+    const output = text(await validateUIKitML('<div><bogus>hi</bogus></div>'));
+    assert.match(output, /built-in list of core UIKit names/);
+    assert.match(output, /Unknown element <bogus> \[uikitml-unknown-element\]/);
+  });
+
+  test('flags misspelled properties and suggests the right one', async () => {
+    const output = text(await validateUIKitML('<div style="widht: 100px">hi</div>'));
+    assert.match(output, /Unknown style property `widht` on <div> - did you mean `width`\?/);
+  });
+
+  test('accepts the scaffold templates\' panels', async () => {
+    const template = await buildSdkTemplate('ui-demo', 'demo');
+    const panels = Object.entries(template!.files).filter(([path]) => path.endsWith('.uikitml'));
+    assert.ok(panels.length > 0);
+    for (const [path, markup] of panels) {
+      assert.match(text(await validateUIKitML(markup)), /No issues found!/, path);
+    }
+  });
+
+  test('reports ids the code queries that the markup does not define', async () => {
+    const output = text(await validateUIKitML(
+      '<div><button id="start">Go</button></div>',
+      `const button = uiDocument.getElementById('stop');`
+    ));
+    assert.match(output, /No element in the markup has id "stop" \[uikitml-unknown-id\]/);
+  });
+});